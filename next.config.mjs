@@ -3,6 +3,14 @@ const nextConfig = {
   env: {
     NEXT_PUBLIC_SUPABASE_URL: process.env.SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY
+  },
+  async rewrites() {
+    return [
+      {
+        source: "/api/jobs/:jobId/transcript.:format(srt|vtt|txt|json|md)",
+        destination: "/api/jobs/:jobId/transcript/export/:format"
+      }
+    ];
   }
 };
 
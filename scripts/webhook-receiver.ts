@@ -0,0 +1,31 @@
+import http from "node:http";
+import { WEBHOOK_EVENT_HEADER, WEBHOOK_SIGNATURE_HEADER, verifyWebhookSignature } from "@/lib/webhooks";
+
+const port = Number(process.env.WEBHOOK_RECEIVER_PORT || 4010);
+const secret = process.env.WEBHOOK_SECRET || "";
+const failRate = Math.min(1, Math.max(0, Number(process.env.WEBHOOK_RECEIVER_FAIL_RATE || 0)));
+
+if (!secret) console.warn("[receiver] WEBHOOK_SECRET not set, signatures will not be verified");
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on("data", (chunk: Buffer) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = String(req.headers[WEBHOOK_SIGNATURE_HEADER] || "");
+    const valid = secret ? verifyWebhookSignature(secret, body, signature) : null;
+    const failing = Math.random() < failRate;
+
+    console.log(
+      `[receiver] ${req.method} ${req.url} event=${req.headers[WEBHOOK_EVENT_HEADER] || "-"} signature=${valid === null ? "unchecked" : valid ? "valid" : "INVALID"}${failing ? " (simulated failure)" : ""}`
+    );
+    console.log(body);
+
+    res.statusCode = valid === false ? 401 : failing ? 503 : 204;
+    res.end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[receiver] listening on http://localhost:${port}`);
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+export async function DELETE(request: NextRequest, { params }: { params: { keyId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabaseAdmin
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", params.keyId)
+    .eq("user_id", user.id)
+    .is("revoked_at", null)
+    .select("id,revoked_at")
+    .maybeSingle();
+
+  if (error?.message?.includes("api_keys")) {
+    return NextResponse.json(
+      { error: "Tabela api_keys ausente. Rode as migrations do Supabase e tente novamente." },
+      { status: 503 }
+    );
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data) return NextResponse.json({ error: "API key not found or already revoked" }, { status: 404 });
+
+  return NextResponse.json({ ok: true, key: data });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { apiKeyCreateSchema, generateApiKey } from "@/lib/api-keys";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const KEY_FIELDS = "id,name,key_prefix,scopes,rate_limit_per_minute,last_used_at,revoked_at,created_at";
+
+function isMissingApiKeysTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.api_keys") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabaseAdmin
+    .from("api_keys")
+    .select(KEY_FIELDS)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+  if (error) {
+    if (isMissingApiKeysTableError(error.message)) {
+      return NextResponse.json({
+        keys: [],
+        apiKeysDisabled: true,
+        warning: "Tabela api_keys ausente. Rode as migrations do Supabase."
+      });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ keys: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = apiKeyCreateSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const generated = generateApiKey();
+  const { data, error } = await supabaseAdmin
+    .from("api_keys")
+    .insert({
+      user_id: user.id,
+      name: parsed.data.name,
+      key_prefix: generated.prefix,
+      key_hash: generated.hash,
+      scopes: Array.from(new Set(parsed.data.scopes)),
+      rate_limit_per_minute: parsed.data.rateLimitPerMinute
+    })
+    .select(KEY_FIELDS)
+    .single();
+  if (error) {
+    if (isMissingApiKeysTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela api_keys ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ key: { ...data, secret: generated.key } });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUserFromRequest } from "@/lib/auth";
+import { captionStyleSchema } from "@/lib/caption-styles";
+import { supabaseAdmin } from "@/lib/supabase";
+
+const updateSchema = z.object({
+  name: z.string().min(1).max(80).optional(),
+  style: captionStyleSchema.optional()
+});
+
+function isMissingCaptionStylesTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.caption_styles") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { styleId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = updateSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("caption_styles")
+    .update({
+      ...(parsed.data.name ? { name: parsed.data.name } : {}),
+      ...(parsed.data.style ? { style: parsed.data.style } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", params.styleId)
+    .eq("user_id", user.id)
+    .select("id,name,style,created_at,updated_at")
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingCaptionStylesTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela caption_styles ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) return NextResponse.json({ error: "Caption style not found" }, { status: 404 });
+
+  return NextResponse.json({ style: data });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { styleId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { error } = await supabaseAdmin
+    .from("caption_styles")
+    .delete()
+    .eq("id", params.styleId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    if (isMissingCaptionStylesTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela caption_styles ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUserFromRequest } from "@/lib/auth";
+import { captionStyleSchema } from "@/lib/caption-styles";
+import { supabaseAdmin } from "@/lib/supabase";
+
+const createSchema = z.object({
+  name: z.string().min(1).max(80),
+  style: captionStyleSchema
+});
+
+function isMissingCaptionStylesTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.caption_styles") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabaseAdmin
+    .from("caption_styles")
+    .select("id,name,style,created_at,updated_at")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+  if (error) {
+    if (isMissingCaptionStylesTableError(error.message)) {
+      return NextResponse.json({
+        styles: [],
+        stylesDisabled: true,
+        warning: "Tabela caption_styles ausente. Rode as migrations do Supabase."
+      });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ styles: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = createSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("caption_styles")
+    .insert({
+      user_id: user.id,
+      name: parsed.data.name,
+      style: parsed.data.style
+    })
+    .select("id,name,style,created_at,updated_at")
+    .single();
+  if (error) {
+    if (isMissingCaptionStylesTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela caption_styles ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ style: data });
+}
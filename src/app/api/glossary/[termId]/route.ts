@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { glossaryTermSchema } from "@/lib/glossary";
+import { supabaseAdmin } from "@/lib/supabase";
+
+const TERM_FIELDS = "id,term,aliases,do_not_translate,created_at,updated_at";
+const updateSchema = glossaryTermSchema.partial();
+
+function isMissingGlossaryTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.glossary_terms") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { termId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = updateSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("glossary_terms")
+    .update({
+      ...(parsed.data.term ? { term: parsed.data.term } : {}),
+      ...(parsed.data.aliases ? { aliases: parsed.data.aliases } : {}),
+      ...(parsed.data.doNotTranslate !== undefined ? { do_not_translate: parsed.data.doNotTranslate } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", params.termId)
+    .eq("user_id", user.id)
+    .select(TERM_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingGlossaryTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela glossary_terms ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    if (error.code === "23505") return NextResponse.json({ error: "Glossary term already exists" }, { status: 409 });
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) return NextResponse.json({ error: "Glossary term not found" }, { status: 404 });
+
+  return NextResponse.json({ term: data });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { termId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { error } = await supabaseAdmin
+    .from("glossary_terms")
+    .delete()
+    .eq("id", params.termId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    if (isMissingGlossaryTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela glossary_terms ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { glossaryTermSchema } from "@/lib/glossary";
+import { supabaseAdmin } from "@/lib/supabase";
+
+const TERM_FIELDS = "id,term,aliases,do_not_translate,created_at,updated_at";
+
+function isMissingGlossaryTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.glossary_terms") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabaseAdmin
+    .from("glossary_terms")
+    .select(TERM_FIELDS)
+    .eq("user_id", user.id)
+    .order("term", { ascending: true });
+  if (error) {
+    if (isMissingGlossaryTableError(error.message)) {
+      return NextResponse.json({
+        terms: [],
+        glossaryDisabled: true,
+        warning: "Tabela glossary_terms ausente. Rode as migrations do Supabase."
+      });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ terms: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = glossaryTermSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("glossary_terms")
+    .insert({
+      user_id: user.id,
+      term: parsed.data.term,
+      aliases: parsed.data.aliases,
+      do_not_translate: parsed.data.doNotTranslate
+    })
+    .select(TERM_FIELDS)
+    .single();
+  if (error) {
+    if (isMissingGlossaryTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela glossary_terms ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    if (error.code === "23505") return NextResponse.json({ error: "Glossary term already exists" }, { status: 409 });
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ term: data });
+}
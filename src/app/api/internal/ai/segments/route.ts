@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { generateCandidates } from "@/lib/selection/candidates";
+import { normalizeTranscript } from "@/lib/selection/normalizeTranscript";
+import { rankCandidates, selectWithDiversity, type ScoredCandidate } from "@/lib/selection/select";
+import { DEFAULT_SELECTION_CONFIG, type SelectionConfig } from "@/lib/selection/types";
+import { supabaseAdmin } from "@/lib/supabase";
+import { DEFAULT_GENERATION_CONFIG } from "@/lib/types";
+import { segmentsRequestSchema, type Segment, type SegmentsResponse } from "@/lib/worker-protocol";
+import { normalizeClipStyle, normalizeGenre, resolveDurationBounds } from "@/worker/segment-scoring";
+import { splitTextIntoTranscriptSegments } from "@/worker/transcription";
+
+export const runtime = "nodejs";
+
+const TITLE_MAX_WORDS = 8;
+const HOOK_MAX_CHARS = 140;
+
+function readSeconds(value: unknown) {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function firstSentence(text: string) {
+  return text.split(/(?<=[.!?])\s+/)[0]?.trim() || text.trim();
+}
+
+function toSegment(candidate: ScoredCandidate, index: number): Segment {
+  const sentence = firstSentence(candidate.text_excerpt).replace(/[.!?…]+$/, "");
+  const words = sentence.split(/\s+/).filter(Boolean);
+  const title = words.slice(0, TITLE_MAX_WORDS).join(" ");
+  return {
+    start_sec: candidate.start_s,
+    end_sec: candidate.end_s,
+    title: title ? `${title}${words.length > TITLE_MAX_WORDS ? "…" : ""}` : `Clip ${index + 1}`,
+    hook: sentence.slice(0, HOOK_MAX_CHARS),
+    reason: `Selection grade ${candidate.grade} (score ${Math.round(candidate.score_total)}): strong hook, clarity and density.`
+  };
+}
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = segmentsRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, transcriptText, transcriptSegments } = parsed.data;
+
+  const { data: job, error } = await supabaseAdmin.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (job.status !== "PROCESSING") return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+
+  const storedSegments = Array.isArray(job.transcript_segments) ? job.transcript_segments : [];
+  const segments = transcriptSegments?.length
+    ? transcriptSegments
+    : storedSegments.length
+      ? storedSegments
+      : splitTextIntoTranscriptSegments(transcriptText, Number(job.source_duration_sec || 0));
+  if (!segments.length) return NextResponse.json({ error: "Transcript is empty" }, { status: 400 });
+
+  const bounds = resolveDurationBounds(normalizeClipStyle(job.clip_style), job.clip_length_max_s);
+  const config: SelectionConfig = {
+    ...DEFAULT_SELECTION_CONFIG,
+    clip_style: normalizeClipStyle(job.clip_style),
+    genre: normalizeGenre(job.genre),
+    max_clips: Number(job.desired_clip_count || DEFAULT_GENERATION_CONFIG.clipCount),
+    duration_min_s: bounds.minSec,
+    duration_max_s: bounds.maxSec,
+    include_moment_text: String(job.include_moment_text || ""),
+    timeframe_start_s: readSeconds(job.timeframe_start_s),
+    timeframe_end_s: readSeconds(job.timeframe_end_s)
+  };
+
+  const blocks = normalizeTranscript(segments, { minBlockSec: config.block_min_s, maxBlockSec: config.block_max_s });
+  const picks = selectWithDiversity(rankCandidates(generateCandidates(blocks, config), config), config);
+  const response: SegmentsResponse = {
+    segments: picks.sort((a, b) => a.start_s - b.start_s).map(toSegment)
+  };
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { transcribeRequestSchema, type TranscribeResponse } from "@/lib/worker-protocol";
+import { AUTO_LANGUAGE, getTranscriptionProvider } from "@/worker/transcription";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = transcribeRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, audioPath, offsetSec, persistTranscript } = parsed.data;
+
+  const { data: job, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id,user_id,status,source_duration_sec,source_language_override")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error?.message?.includes("source_language_override")) {
+    return NextResponse.json(
+      { error: "Coluna source_language_override ausente. Rode as migrations do Supabase e tente novamente." },
+      { status: 503 }
+    );
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (job.status !== "PROCESSING") return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+  if (!audioPath.startsWith(`${job.user_id}/${job.id}`)) {
+    return NextResponse.json({ error: "audioPath does not belong to this job" }, { status: 400 });
+  }
+
+  const { data: audio, error: downloadError } = await supabaseAdmin.storage.from("audio").download(audioPath);
+  if (downloadError || !audio) {
+    return NextResponse.json({ error: downloadError?.message || "Audio not found" }, { status: 404 });
+  }
+
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "splitshorts-transcribe-"));
+  try {
+    const localPath = path.join(tmpDir, path.basename(audioPath));
+    await fs.writeFile(localPath, Buffer.from(await audio.arrayBuffer()));
+
+    const provider = getTranscriptionProvider("openai_compatible");
+    const result = await provider.transcribe(localPath, {
+      language: job.source_language_override || process.env.TRANSCRIBE_LANGUAGE || AUTO_LANGUAGE,
+      durationSec: offsetSec ? 0 : Number(job.source_duration_sec || 0)
+    });
+
+    const response: TranscribeResponse = {
+      text: result.text,
+      segments: result.segments.map((segment) => ({
+        ...segment,
+        start: segment.start + offsetSec,
+        end: segment.end + offsetSec
+      })),
+      words: result.words.map((word) => ({ ...word, start: word.start + offsetSec, end: word.end + offsetSec })),
+      language: result.language,
+      durationSec: result.durationSec
+    };
+
+    if (persistTranscript) {
+      const nowIso = new Date().toISOString();
+      let { error: persistError } = await supabaseAdmin
+        .from("jobs")
+        .update({
+          transcript: response.text,
+          transcript_segments: response.segments,
+          transcript_words: response.words,
+          ...(response.language ? { source_language: response.language } : {}),
+          updated_at: nowIso
+        })
+        .eq("id", jobId);
+      if (
+        persistError?.message?.includes("transcript_segments") ||
+        persistError?.message?.includes("transcript_words") ||
+        persistError?.message?.includes("source_language")
+      ) {
+        const fallback = await supabaseAdmin
+          .from("jobs")
+          .update({ transcript: response.text, updated_at: nowIso })
+          .eq("id", jobId);
+        persistError = fallback.error;
+      }
+      if (persistError) return NextResponse.json({ error: persistError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(response);
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || "Transcription failed" }, { status: 502 });
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
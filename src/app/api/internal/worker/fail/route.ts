@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { cancelledJobUpdate } from "@/lib/job-cancellation";
+import { classifyFailure, readRetryHistory, retryDelayMs } from "@/lib/retry-policy";
+import { supabaseAdmin } from "@/lib/supabase";
+import type { JobRetryAttempt } from "@/lib/types";
+import { enqueueWebhookEvent } from "@/lib/webhook-queue";
+import { failRequestSchema } from "@/lib/worker-protocol";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = failRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, errorMessage } = parsed.data;
+
+  const { data: job, error } = await supabaseAdmin.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (job.status !== "PROCESSING") return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+
+  const now = new Date().toISOString();
+
+  if (job.cancel_requested_at) {
+    const { error: cancelError } = await supabaseAdmin
+      .from("jobs")
+      .update(cancelledJobUpdate(now))
+      .eq("id", jobId)
+      .eq("status", "PROCESSING");
+    if (cancelError) return NextResponse.json({ error: cancelError.message }, { status: 500 });
+    return NextResponse.json({ ok: true, status: "CANCELLED" });
+  }
+
+  const attempt = Number(job.attempt_count || 1);
+  const maxAttempts = Number(job.max_attempts || 1);
+  const retryable = classifyFailure(errorMessage) === "retryable";
+  const nextAttemptAt = retryable && attempt < maxAttempts ? new Date(Date.now() + retryDelayMs(attempt)).toISOString() : null;
+  const retryHistory: JobRetryAttempt[] = [
+    ...readRetryHistory(job.retry_history),
+    {
+      attempt,
+      failedAt: now,
+      error: errorMessage,
+      retryable,
+      nextAttemptAt
+    }
+  ];
+
+  if (nextAttemptAt) {
+    const { data: requeued, error: retryError } = await supabaseAdmin
+      .from("jobs")
+      .update({
+        status: "READY_TO_PROCESS",
+        error_message: null,
+        processing_stage: "RETRY_SCHEDULED",
+        processing_progress: 1,
+        processing_note: `Attempt ${attempt} of ${maxAttempts} failed; retrying at ${nextAttemptAt}.`,
+        processing_started_at: null,
+        next_attempt_at: nextAttemptAt,
+        retry_history: retryHistory,
+        updated_at: now
+      })
+      .eq("id", jobId)
+      .eq("status", "PROCESSING")
+      .select("id");
+    if (retryError) return NextResponse.json({ error: retryError.message }, { status: 500 });
+    if (!requeued?.length) return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+    return NextResponse.json({ ok: true, status: "READY_TO_PROCESS", nextAttemptAt });
+  }
+
+  const failure = {
+    status: "FAILED",
+    error_message: errorMessage,
+    finished_at: now,
+    processing_stage: "FAILED",
+    processing_progress: 0,
+    processing_note: errorMessage,
+    updated_at: now
+  };
+
+  let { error: updateError } = await supabaseAdmin
+    .from("jobs")
+    .update({ ...failure, retry_history: retryHistory })
+    .eq("id", jobId)
+    .eq("status", "PROCESSING");
+  if (updateError?.message?.includes("retry_history")) {
+    const fallback = await supabaseAdmin.from("jobs").update(failure).eq("id", jobId).eq("status", "PROCESSING");
+    updateError = fallback.error;
+  }
+  if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+  await enqueueWebhookEvent(supabaseAdmin, job.user_id, "job.failed", { jobId, status: "FAILED", errorMessage });
+
+  return NextResponse.json({ ok: true, status: "FAILED" });
+}
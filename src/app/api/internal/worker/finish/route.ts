@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { metadataCopy } from "@/lib/metadata-copy";
+import { consumeMinutes } from "@/lib/usage";
+import { enqueueWebhookEvent } from "@/lib/webhook-queue";
+import { finishRequestSchema } from "@/lib/worker-protocol";
+
+export const runtime = "nodejs";
+
+const EXPORT_TTL_SECONDS = 72 * 3600;
+
+type FinishJobRow = {
+  id: string;
+  user_id: string;
+  status: string;
+  source_duration_sec: number | null;
+  source_language?: string | null;
+};
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = finishRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, measuredDurationSec, transcript, exports } = parsed.data;
+
+  let { data: job, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id,user_id,status,source_duration_sec,source_language")
+    .eq("id", jobId)
+    .maybeSingle<FinishJobRow>();
+  if (error?.message?.includes("source_language")) {
+    ({ data: job, error } = await supabaseAdmin
+      .from("jobs")
+      .select("id,user_id,status,source_duration_sec")
+      .eq("id", jobId)
+      .maybeSingle<FinishJobRow>());
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (job.status !== "PROCESSING") return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+
+  const prefix = `${job.user_id}/${job.id}/`;
+  if (exports.some((item) => !item.mp4Path.startsWith(prefix) || !item.srtPath.startsWith(prefix))) {
+    return NextResponse.json({ error: "Export paths do not belong to this job" }, { status: 400 });
+  }
+
+  const copy = metadataCopy(job.source_language || "");
+  const expiresAt = new Date(Date.now() + EXPORT_TTL_SECONDS * 1000).toISOString();
+  const rows = [];
+  for (const item of exports) {
+    const { data: signed, error: signError } = await supabaseAdmin.storage
+      .from("exports")
+      .createSignedUrl(item.mp4Path, EXPORT_TTL_SECONDS);
+    if (signError || !signed?.signedUrl) {
+      return NextResponse.json({ error: `Could not sign ${item.clipId}: ${signError?.message || "unknown"}` }, { status: 500 });
+    }
+    rows.push({
+      job_id: job.id,
+      user_id: job.user_id,
+      clip_id: item.clipId,
+      clip_path: item.mp4Path,
+      clip_url: signed.signedUrl,
+      title: item.title,
+      description: `${item.hook}\n\n${copy.whyItWorks}: ${item.reason}`,
+      hashtags: [],
+      hook: item.hook,
+      reason: item.reason,
+      provider_metadata: {
+        start_sec: item.startSec,
+        end_sec: item.endSec,
+        duration_sec: item.endSec - item.startSec,
+        subtitles_path: item.srtPath,
+        subtitles_burned: true,
+        processing_mode: "FULL",
+        providers: { runner: "remote" }
+      },
+      expires_at: expiresAt
+    });
+  }
+
+  const { error: deleteError } = await supabaseAdmin.from("job_exports").delete().eq("job_id", job.id);
+  if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+  const { error: insertError } = await supabaseAdmin.from("job_exports").insert(rows);
+  if (insertError) return NextResponse.json({ error: insertError.message }, { status: 500 });
+
+  const now = new Date().toISOString();
+  const completion = {
+    status: "DONE",
+    suggestions: exports.map((item) => ({
+      clip_id: item.clipId,
+      start: item.startSec,
+      end: item.endSec,
+      title: item.title,
+      hook: item.hook,
+      reason: item.reason
+    })),
+    ...(transcript ? { transcript: transcript.text } : {}),
+    error_message: null,
+    finished_at: now,
+    processing_stage: "DONE",
+    processing_progress: 100,
+    processing_note: "Remote worker finished processing.",
+    updated_at: now
+  };
+  let update = await supabaseAdmin
+    .from("jobs")
+    .update({ ...completion, ...(transcript ? { transcript_segments: transcript.segments } : {}) })
+    .eq("id", job.id)
+    .eq("status", "PROCESSING")
+    .select("id");
+  if (update.error?.message?.includes("transcript_segments")) {
+    update = await supabaseAdmin
+      .from("jobs")
+      .update(completion)
+      .eq("id", job.id)
+      .eq("status", "PROCESSING")
+      .select("id");
+  }
+  if (update.error) return NextResponse.json({ error: update.error.message }, { status: 500 });
+  if (!update.data?.length) return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+
+  const durationSec = measuredDurationSec || Number(job.source_duration_sec || 0);
+  await consumeMinutes(job.user_id, Math.max(1, Math.ceil(durationSec / 60)), job.id);
+  await enqueueWebhookEvent(supabaseAdmin, job.user_id, "job.done", {
+    jobId: job.id,
+    status: "DONE",
+    clips: rows.map((row) => ({
+      clipId: row.clip_id,
+      clipUrl: row.clip_url,
+      title: row.title,
+      hook: row.hook,
+      expiresAt: row.expires_at
+    }))
+  });
+
+  return NextResponse.json({ ok: true, clips: rows.length });
+}
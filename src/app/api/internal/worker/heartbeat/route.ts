@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { heartbeatRequestSchema, type HeartbeatResponse } from "@/lib/worker-protocol";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = heartbeatRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("workers")
+    .update({ last_heartbeat_at: new Date().toISOString() })
+    .eq("id", parsed.data.workerId)
+    .select("id");
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const response: HeartbeatResponse = { ok: true, registered: Boolean(data?.length) };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { progressRequestSchema, type ProgressResponse } from "@/lib/worker-protocol";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = progressRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, stage, progress, note } = parsed.data;
+
+  const update = {
+    processing_stage: stage,
+    processing_progress: Math.round(progress),
+    processing_note: note || null,
+    updated_at: new Date().toISOString()
+  };
+  let result = await supabaseAdmin
+    .from("jobs")
+    .update(update)
+    .eq("id", jobId)
+    .eq("status", "PROCESSING")
+    .select("id,cancel_requested_at");
+  if (result.error?.message?.includes("cancel_requested_at")) {
+    result = await supabaseAdmin.from("jobs").update(update).eq("id", jobId).eq("status", "PROCESSING").select("id");
+  }
+  if (result.error) return NextResponse.json({ error: result.error.message }, { status: 500 });
+  if (!result.data?.length) return NextResponse.json({ error: "Job is not processing" }, { status: 409 });
+
+  const row = result.data[0] as { cancel_requested_at?: string | null };
+  const response: ProgressResponse = { ok: true, cancelRequested: Boolean(row.cancel_requested_at) };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { registerRequestSchema } from "@/lib/worker-protocol";
+
+export const runtime = "nodejs";
+
+const PRUNE_AFTER_HOURS = 24;
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = registerRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { workerId, host, version, providers, concurrency } = parsed.data;
+
+  const now = new Date();
+  await supabaseAdmin
+    .from("workers")
+    .delete()
+    .lt("last_heartbeat_at", new Date(now.getTime() - PRUNE_AFTER_HOURS * 3600 * 1000).toISOString());
+
+  const { error } = await supabaseAdmin.from("workers").upsert({
+    id: workerId,
+    host,
+    version: version ?? null,
+    providers,
+    concurrency,
+    started_at: now.toISOString(),
+    last_heartbeat_at: now.toISOString()
+  });
+  if (error?.message?.includes("workers")) {
+    return NextResponse.json(
+      { error: "Tabela workers ausente. Rode as migrations do Supabase e tente novamente." },
+      { status: 503 }
+    );
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isWorkerAuthorized } from "@/lib/internal-worker-auth";
+import { isLocalSourcePath } from "@/lib/source-path";
+import { supabaseAdmin } from "@/lib/supabase";
+import { DEFAULT_GENERATION_CONFIG, type CropConfig } from "@/lib/types";
+import { enqueueWebhookEvent } from "@/lib/webhook-queue";
+import { startRequestSchema, type StartResponse } from "@/lib/worker-protocol";
+import { normalizeClipStyle, resolveDurationBounds } from "@/worker/segment-scoring";
+
+export const runtime = "nodejs";
+
+const SOURCE_URL_TTL_SECONDS = 3600;
+
+export async function POST(request: NextRequest) {
+  if (!isWorkerAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = startRequestSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  const { jobId, workerId } = parsed.data;
+
+  const { data: job, error } = await supabaseAdmin.from("jobs").select("*").eq("id", jobId).maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (job.status !== "READY_TO_PROCESS") {
+    return NextResponse.json({ error: `Job is ${job.status}, expected READY_TO_PROCESS` }, { status: 409 });
+  }
+  if (isLocalSourcePath(job.source_path)) {
+    return NextResponse.json({ error: "Local uploads can only be processed by the local worker" }, { status: 409 });
+  }
+
+  const { data: signed, error: signError } = await supabaseAdmin.storage
+    .from("uploads")
+    .createSignedUrl(job.source_path, SOURCE_URL_TTL_SECONDS);
+  if (signError || !signed?.signedUrl) {
+    return NextResponse.json({ error: signError?.message || "Could not sign source URL" }, { status: 500 });
+  }
+
+  const now = new Date().toISOString();
+  let claim = await supabaseAdmin
+    .from("jobs")
+    .update({
+      status: "PROCESSING",
+      processing_started_at: now,
+      processing_stage: "PROCESSING",
+      processing_progress: 2,
+      processing_note: "Remote worker claimed this job.",
+      claimed_by: workerId ?? null,
+      attempt_count: Number(job.attempt_count || 0) + 1,
+      next_attempt_at: null,
+      updated_at: now
+    })
+    .eq("id", jobId)
+    .eq("status", "READY_TO_PROCESS")
+    .select("id");
+
+  if (
+    claim.error?.message?.includes("processing_stage") ||
+    claim.error?.message?.includes("claimed_by") ||
+    claim.error?.message?.includes("attempt_count") ||
+    claim.error?.message?.includes("next_attempt_at")
+  ) {
+    claim = await supabaseAdmin
+      .from("jobs")
+      .update({ status: "PROCESSING", processing_started_at: now, updated_at: now })
+      .eq("id", jobId)
+      .eq("status", "READY_TO_PROCESS")
+      .select("id");
+  }
+  if (claim.error) return NextResponse.json({ error: claim.error.message }, { status: 500 });
+  if (!claim.data?.length) return NextResponse.json({ error: "Job already claimed" }, { status: 409 });
+  await enqueueWebhookEvent(supabaseAdmin, job.user_id, "job.processing", { jobId: job.id, status: "PROCESSING" });
+
+  const crop = (job.crop_config || {}) as Partial<CropConfig>;
+  const hasCrop = (["x", "y", "width", "height"] as const).every((key) => Number.isFinite(Number(crop[key])));
+  const bounds = resolveDurationBounds(normalizeClipStyle(job.clip_style), job.clip_length_max_s);
+
+  const response: StartResponse = {
+    job: {
+      id: job.id,
+      userId: job.user_id,
+      status: "PROCESSING",
+      webcamCrop: hasCrop
+        ? {
+            x: Number(crop.x),
+            y: Number(crop.y),
+            width: Number(crop.width),
+            height: Number(crop.height),
+            captionPreset: crop.captionPreset
+          }
+        : undefined,
+      captionStyle: crop.captionPreset,
+      captionStyleId: crop.captionStyleId ?? null,
+      layout: crop.layout
+    },
+    source: {
+      signedUrl: signed.signedUrl,
+      path: job.source_path,
+      durationSec: Number(job.source_duration_sec || 0) || undefined,
+      width: null,
+      height: null
+    },
+    limits: {
+      maxSegments: Number(job.desired_clip_count || DEFAULT_GENERATION_CONFIG.clipCount),
+      minSegSec: bounds.minSec,
+      maxSegSec: bounds.maxSec
+    }
+  };
+
+  return NextResponse.json(response);
+}
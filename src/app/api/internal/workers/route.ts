@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/lib/env";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const RUNNING_FIELDS = "id,claimed_by,processing_stage,processing_progress,processing_started_at";
+
+type WorkerRow = {
+  id: string;
+  host: string;
+  version: string | null;
+  providers: Record<string, unknown>;
+  concurrency: number;
+  started_at: string;
+  last_heartbeat_at: string;
+};
+
+type RunningJobRow = {
+  id: string;
+  claimed_by: string | null;
+  processing_stage: string | null;
+  processing_progress: number;
+  processing_started_at: string | null;
+};
+
+type RunningTaskRow = RunningJobRow & { job_id: string; clip_id: string };
+
+function heartbeatTimeoutSeconds() {
+  const parsed = Number(process.env.WORKER_HEARTBEAT_TIMEOUT_SECONDS || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 90;
+}
+
+export async function GET(request: NextRequest) {
+  const secret = request.headers.get("x-internal-secret");
+  if (secret !== env.INTERNAL_CRON_SECRET) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { data: workers, error } = await supabaseAdmin
+    .from("workers")
+    .select("id,host,version,providers,concurrency,started_at,last_heartbeat_at")
+    .order("started_at", { ascending: true })
+    .returns<WorkerRow[]>();
+  if (error?.message?.includes("workers")) {
+    return NextResponse.json(
+      { error: "Tabela workers ausente. Rode as migrations do Supabase e tente novamente." },
+      { status: 503 }
+    );
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const [{ data: jobs, error: jobsError }, { data: tasks, error: tasksError }] = await Promise.all([
+    supabaseAdmin.from("jobs").select(RUNNING_FIELDS).eq("status", "PROCESSING").returns<RunningJobRow[]>(),
+    supabaseAdmin
+      .from("render_tasks")
+      .select(`${RUNNING_FIELDS},job_id,clip_id`)
+      .eq("status", "PROCESSING")
+      .returns<RunningTaskRow[]>()
+  ]);
+  if (jobsError || tasksError) {
+    return NextResponse.json({ error: jobsError?.message || tasksError?.message }, { status: 500 });
+  }
+
+  const cutoff = Date.now() - heartbeatTimeoutSeconds() * 1000;
+  const rows = (workers || []).map((worker) => ({
+    ...worker,
+    live: new Date(worker.last_heartbeat_at).getTime() >= cutoff,
+    jobs: (jobs || []).filter((job) => job.claimed_by === worker.id),
+    render_tasks: (tasks || []).filter((task) => task.claimed_by === worker.id)
+  }));
+  const known = new Set(rows.map((worker) => worker.id));
+
+  return NextResponse.json({
+    live: rows.filter((worker) => worker.live).length,
+    workers: rows,
+    unassigned: {
+      jobs: (jobs || []).filter((job) => !job.claimed_by || !known.has(job.claimed_by)),
+      render_tasks: (tasks || []).filter((task) => !task.claimed_by || !known.has(task.claimed_by))
+    }
+  });
+}
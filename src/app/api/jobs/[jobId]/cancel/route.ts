@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { getJobForUser } from "@/lib/db";
+import { CANCELLABLE_QUEUED_STATUSES, cancelledJobUpdate, planJobCancellation } from "@/lib/job-cancellation";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const job = await getJobForUser(params.jobId, user.id);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const plan = planJobCancellation(job.status);
+  if (!plan) return NextResponse.json({ error: `Job is already ${job.status}` }, { status: 409 });
+
+  const now = new Date().toISOString();
+
+  if (plan === "REQUEST") {
+    const { data: updated, error } = await supabaseAdmin
+      .from("jobs")
+      .update({ cancel_requested_at: now, processing_note: "Cancellation requested.", updated_at: now })
+      .eq("id", params.jobId)
+      .eq("user_id", user.id)
+      .eq("status", "PROCESSING")
+      .select("id");
+    if (error?.message?.includes("cancel_requested_at")) {
+      return NextResponse.json(
+        { error: "Coluna cancel_requested_at ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    if (updated?.length) return NextResponse.json({ ok: true, status: "PROCESSING", cancelRequested: true }, { status: 202 });
+  }
+
+  const { data: cancelled, error } = await supabaseAdmin
+    .from("jobs")
+    .update(cancelledJobUpdate(now))
+    .eq("id", params.jobId)
+    .eq("user_id", user.id)
+    .in("status", CANCELLABLE_QUEUED_STATUSES)
+    .select("id");
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!cancelled?.length) return NextResponse.json({ error: "Job status changed, try again" }, { status: 409 });
+
+  await supabaseAdmin.from("job_checkpoints").delete().eq("job_id", params.jobId);
+
+  return NextResponse.json({ ok: true, status: "CANCELLED" });
+}
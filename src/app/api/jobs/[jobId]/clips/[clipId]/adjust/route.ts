@@ -1,11 +1,7 @@
-import fs from "node:fs/promises";
-import path from "node:path";
-import { randomUUID } from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUserFromRequest } from "@/lib/auth";
 import { supabaseAdmin } from "@/lib/supabase";
-import { runFfmpeg } from "@/worker/ffmpeg";
 
 export const runtime = "nodejs";
 
@@ -14,33 +10,33 @@ const schema = z.object({
   endSec: z.number().min(0)
 });
 
-const EXPORT_TTL_SECONDS = 72 * 3600;
 const MIN_CLIP_SECONDS = 0.3;
+const RENDER_TASK_FIELDS =
+  "id,clip_id,kind,status,payload,processing_stage,processing_progress,processing_note,error_message,created_at,updated_at,finished_at";
 
-const OUTPUT_DIMENSIONS = {
-  INSTAGRAM_REELS: { width: 1080, height: 1920 },
-  YOUTUBE_SHORTS: { width: 1080, height: 1920 },
-  TIKTOK: { width: 1080, height: 1920 },
-  INSTAGRAM_FEED: { width: 1080, height: 1350 }
-} as const;
-
-type OutputPreset = keyof typeof OUTPUT_DIMENSIONS;
-
-function parseOutputPreset(input: unknown): OutputPreset {
-  if (input && typeof input === "object") {
-    const value = (input as Record<string, unknown>).outputPreset;
-    if (typeof value === "string" && value in OUTPUT_DIMENSIONS) return value as OutputPreset;
-  }
-  return "INSTAGRAM_REELS";
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, max));
 }
 
-function readNumber(value: unknown, fallback: number) {
-  const n = Number(value);
-  return Number.isFinite(n) ? n : fallback;
-}
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string; clipId: string } }
+) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-function clamp(value: number, min: number, max: number) {
-  return Math.max(min, Math.min(value, max));
+  const { data: task, error } = await supabaseAdmin
+    .from("render_tasks")
+    .select(RENDER_TASK_FIELDS)
+    .eq("job_id", params.jobId)
+    .eq("clip_id", params.clipId)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  return NextResponse.json({ task: task || null });
 }
 
 export async function POST(
@@ -55,7 +51,7 @@ export async function POST(
 
   const { data: job, error: jobError } = await supabaseAdmin
     .from("jobs")
-    .select("id,user_id,source_path,source_duration_sec,crop_config")
+    .select("id,user_id,source_duration_sec")
     .eq("id", params.jobId)
     .eq("user_id", user.id)
     .maybeSingle();
@@ -63,7 +59,7 @@ export async function POST(
 
   const { data: clip, error: clipError } = await supabaseAdmin
     .from("job_exports")
-    .select("id,clip_id,clip_path,provider_metadata")
+    .select("id,clip_id")
     .eq("job_id", params.jobId)
     .eq("user_id", user.id)
     .eq("clip_id", params.clipId)
@@ -81,108 +77,37 @@ export async function POST(
     return NextResponse.json({ error: "Clip window is too short" }, { status: 400 });
   }
 
-  const sourcePath = String(job.source_path || `${user.id}/${params.jobId}.mp4`);
-  const clipPath = String(clip.clip_path || `${user.id}/${params.jobId}/${params.clipId}.mp4`);
-  const outputPreset = parseOutputPreset(job.crop_config);
-  const targetSize = OUTPUT_DIMENSIONS[outputPreset];
-  const tmpDir = path.join("/tmp", `clip-adjust-${params.jobId}-${params.clipId}-${randomUUID()}`);
-  const sourceLocalPath = path.join(tmpDir, "source.mp4");
-  const outputLocalPath = path.join(tmpDir, `${params.clipId}.mp4`);
-
-  try {
-    await fs.mkdir(tmpDir, { recursive: true });
-
-    const sourceDownload = await supabaseAdmin.storage.from("uploads").download(sourcePath);
-    if (sourceDownload.error || !sourceDownload.data) {
-      throw new Error(sourceDownload.error?.message || "Could not download source");
-    }
-    await fs.writeFile(sourceLocalPath, Buffer.from(await sourceDownload.data.arrayBuffer()));
-
-    const filter =
-      `[0:v]setpts=PTS-STARTPTS,scale=${targetSize.width}:${targetSize.height}:force_original_aspect_ratio=increase,crop=${targetSize.width}:${targetSize.height},boxblur=18:2[bg];` +
-      `[0:v]setpts=PTS-STARTPTS,scale=${targetSize.width}:${targetSize.height}:force_original_aspect_ratio=decrease[fg];` +
-      "[bg][fg]overlay=(W-w)/2:(H-h)/2[vout]";
-
-    await runFfmpeg([
-      "-y",
-      "-ss",
-      String(safeStart),
-      "-t",
-      String(Math.max(MIN_CLIP_SECONDS, safeEnd - safeStart)),
-      "-i",
-      sourceLocalPath,
-      "-filter_complex",
-      filter,
-      "-map",
-      "[vout]",
-      "-map",
-      "0:a?",
-      "-c:v",
-      "libx264",
-      "-preset",
-      "veryfast",
-      "-crf",
-      "24",
-      "-c:a",
-      "aac",
-      "-b:a",
-      "96k",
-      "-movflags",
-      "+faststart",
-      outputLocalPath
-    ]);
-
-    const clipBytes = await fs.readFile(outputLocalPath);
-    const upload = await supabaseAdmin.storage.from("exports").upload(clipPath, clipBytes, {
-      contentType: "video/mp4",
-      upsert: true
-    });
-    if (upload.error) throw new Error(upload.error.message);
-
-    const signed = await supabaseAdmin.storage.from("exports").createSignedUrl(clipPath, EXPORT_TTL_SECONDS);
-    if (signed.error || !signed.data?.signedUrl) {
-      throw new Error(signed.error?.message || "Could not sign adjusted clip");
-    }
-
-    const previousMetadata =
-      clip.provider_metadata && typeof clip.provider_metadata === "object"
-        ? (clip.provider_metadata as Record<string, unknown>)
-        : {};
-    const aiStartSec = readNumber(previousMetadata.ai_start_sec, readNumber(previousMetadata.start_sec, safeStart));
-    const aiEndSec = readNumber(previousMetadata.ai_end_sec, readNumber(previousMetadata.end_sec, safeEnd));
-    const updatedMetadata = {
-      ...previousMetadata,
-      ai_start_sec: aiStartSec,
-      ai_end_sec: aiEndSec,
-      start_sec: safeStart,
-      end_sec: safeEnd,
-      manual_adjusted: true,
-      manual_adjusted_at: new Date().toISOString(),
-      adjusted_from_start_sec: readNumber(previousMetadata.start_sec, safeStart),
-      adjusted_from_end_sec: readNumber(previousMetadata.end_sec, safeEnd)
-    };
-
-    const { error: updateError } = await supabaseAdmin
-      .from("job_exports")
-      .update({
-        clip_url: signed.data.signedUrl,
-        provider_metadata: updatedMetadata
-      })
-      .eq("id", clip.id);
-    if (updateError) throw new Error(updateError.message);
-
-    return NextResponse.json({
-      ok: true,
-      clip: {
-        clip_id: params.clipId,
-        clip_url: signed.data.signedUrl,
-        provider_metadata: updatedMetadata
-      }
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Could not adjust clip";
-    return NextResponse.json({ error: message }, { status: 500 });
-  } finally {
-    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+  const { data: activeTask } = await supabaseAdmin
+    .from("render_tasks")
+    .select("id")
+    .eq("job_id", params.jobId)
+    .eq("clip_id", params.clipId)
+    .in("status", ["QUEUED", "PROCESSING"])
+    .limit(1)
+    .maybeSingle();
+  if (activeTask) {
+    return NextResponse.json({ error: "Clip is already being re-rendered" }, { status: 409 });
   }
+
+  const { data: task, error: insertError } = await supabaseAdmin
+    .from("render_tasks")
+    .insert({
+      user_id: user.id,
+      job_id: params.jobId,
+      clip_id: params.clipId,
+      kind: "ADJUST",
+      status: "QUEUED",
+      payload: { startSec: safeStart, endSec: safeEnd },
+      processing_stage: "QUEUED",
+      processing_progress: 1,
+      processing_note: "Queued for re-render."
+    })
+    .select(RENDER_TASK_FIELDS)
+    .single();
+
+  if (insertError || !task) {
+    return NextResponse.json({ error: insertError?.message || "Could not queue clip adjustment" }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, task }, { status: 202 });
 }
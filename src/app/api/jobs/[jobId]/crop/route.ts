@@ -2,14 +2,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUserFromRequest } from "@/lib/auth";
 import { supabaseAdmin } from "@/lib/supabase";
+import { LAYOUT_KEYS } from "@/lib/layouts";
 
 const schema = z.object({
   x: z.number().min(0).max(1),
   y: z.number().min(0).max(1),
   width: z.number().min(0.05).max(1),
   height: z.number().min(0.05).max(1),
-  layout: z.literal("TOP_WEBCAM_BOTTOM_SCREEN"),
+  layout: z.enum(LAYOUT_KEYS),
   captionPreset: z.enum(["BOLD", "CLEAN", "MODERN", "MINIMAL"]),
+  captionMode: z.enum(["SEGMENT", "KARAOKE"]).default("SEGMENT"),
+  captionStyleId: z.string().uuid().nullable().optional().default(null),
+  captionSpeakerColors: z.boolean().default(false),
   captionLanguage: z.enum([
     "source",
     "en",
@@ -50,9 +54,31 @@ export async function POST(request: NextRequest, { params }: { params: { jobId:
   const parsed = schema.safeParse(await request.json());
   if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
 
+  if (parsed.data.captionStyleId) {
+    const { data: style } = await supabaseAdmin
+      .from("caption_styles")
+      .select("id")
+      .eq("id", parsed.data.captionStyleId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (!style) return NextResponse.json({ error: "Caption style not found" }, { status: 404 });
+  }
+
+  const { data: job } = await supabaseAdmin
+    .from("jobs")
+    .select("crop_config")
+    .eq("id", params.jobId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const detection = job.crop_config && typeof job.crop_config === "object" ? job.crop_config.detection : undefined;
   const { error } = await supabaseAdmin
     .from("jobs")
-    .update({ crop_config: parsed.data, updated_at: new Date().toISOString() })
+    .update({
+      crop_config: { ...parsed.data, ...(detection !== undefined ? { detection } : {}) },
+      updated_at: new Date().toISOString()
+    })
     .eq("id", params.jobId)
     .eq("user_id", user.id);
 
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import {
+  JOB_TERMINAL_STATUSES,
+  formatSseEvent,
+  type JobClipEvent,
+  type JobProgressEvent
+} from "@/lib/job-events";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_POLL_INTERVAL_MS = 10000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+// The client reconnects when the stream ends without an `end` event.
+const MAX_STREAM_MS = 10 * 60 * 1000;
+const EXPORT_FIELDS = "clip_id,clip_url,title,description,hashtags,hook,reason,provider_metadata";
+
+type CheckpointClip = {
+  clipId: string;
+  clipUrl: string;
+  title?: unknown;
+  description?: unknown;
+  hashtags?: unknown;
+  hook?: unknown;
+  reason?: unknown;
+  providerMetadata?: unknown;
+};
+
+function isCheckpointClip(value: unknown): value is CheckpointClip {
+  if (!value || typeof value !== "object") return false;
+  const clip = value as Record<string, unknown>;
+  return typeof clip.clipId === "string" && typeof clip.clipUrl === "string";
+}
+
+async function readFinishedClips(jobId: string): Promise<JobClipEvent[]> {
+  const { data } = await supabaseAdmin
+    .from("job_exports")
+    .select(EXPORT_FIELDS)
+    .eq("job_id", jobId)
+    .order("created_at", { ascending: true });
+  return (data || []) as JobClipEvent[];
+}
+
+async function readCheckpointClips(jobId: string): Promise<JobClipEvent[]> {
+  const { data } = await supabaseAdmin
+    .from("job_checkpoints")
+    .select("data")
+    .eq("job_id", jobId)
+    .like("stage", "clip:%")
+    .order("created_at", { ascending: true })
+    .returns<Array<{ data: unknown }>>();
+  return (data || [])
+    .map((row) => row.data)
+    .filter(isCheckpointClip)
+    .map((clip) => ({
+      clip_id: clip.clipId,
+      clip_url: clip.clipUrl,
+      title: String(clip.title || ""),
+      description: String(clip.description || ""),
+      hashtags: Array.isArray(clip.hashtags) ? clip.hashtags.map(String) : [],
+      hook: String(clip.hook || ""),
+      reason: String(clip.reason || ""),
+      provider_metadata:
+        clip.providerMetadata && typeof clip.providerMetadata === "object"
+          ? (clip.providerMetadata as Record<string, unknown>)
+          : {}
+    }));
+}
+
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data: existing } = await supabaseAdmin
+    .from("jobs")
+    .select("id")
+    .eq("id", params.jobId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+      });
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      };
+
+      let lastProgress = "";
+      let lastWriteAt = Date.now();
+      let pollIntervalMs = POLL_INTERVAL_MS;
+      const openedAt = Date.now();
+      const sentClips = new Set<string>();
+
+      try {
+        while (!closed && Date.now() - openedAt < MAX_STREAM_MS) {
+          let changed = false;
+          const { data: job } = await supabaseAdmin
+            .from("jobs")
+            .select("status,processing_stage,processing_progress,processing_note,error_message")
+            .eq("id", params.jobId)
+            .maybeSingle();
+          if (!job) {
+            send("end", { status: "DELETED" });
+            break;
+          }
+
+          const progress: JobProgressEvent = {
+            status: job.status,
+            stage: job.processing_stage ?? null,
+            progress: Number(job.processing_progress || 0),
+            note: job.processing_note ?? null,
+            errorMessage: job.error_message ?? null
+          };
+          const progressKey = JSON.stringify(progress);
+          if (progressKey !== lastProgress) {
+            send("progress", progress);
+            lastProgress = progressKey;
+            lastWriteAt = Date.now();
+            changed = true;
+          }
+
+          const terminal = JOB_TERMINAL_STATUSES.includes(job.status);
+          const clips = terminal ? await readFinishedClips(params.jobId) : await readCheckpointClips(params.jobId);
+          for (const clip of clips) {
+            const key = `${clip.clip_id}:${clip.clip_url}`;
+            if (sentClips.has(key)) continue;
+            sentClips.add(key);
+            send("clip", clip);
+            lastWriteAt = Date.now();
+            changed = true;
+          }
+
+          if (terminal) {
+            send("end", { status: job.status });
+            break;
+          }
+          if (!closed && Date.now() - lastWriteAt >= KEEPALIVE_INTERVAL_MS) {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+            lastWriteAt = Date.now();
+          }
+          pollIntervalMs = changed ? POLL_INTERVAL_MS : Math.min(MAX_POLL_INTERVAL_MS, pollIntervalMs * 1.5);
+          await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+        }
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    }
+  });
+}
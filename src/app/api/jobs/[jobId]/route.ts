@@ -1,24 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
 import { getUserFromRequest } from "@/lib/auth";
 import { supabaseAdmin } from "@/lib/supabase";
 import { getJobForUser } from "@/lib/db";
 import fs from "node:fs/promises";
 import { isLocalSourcePath, toLocalFilePath } from "@/lib/source-path";
-
-const patchSchema = z.object({
-  status: z.enum(["UPLOADED", "READY_TO_PROCESS", "FAILED"]).optional(),
-  clipStyle: z.enum(["Balanced", "Hooky", "Educational", "Story"]).optional(),
-  genre: z.enum(["Tutorial", "Podcast", "Talking Head", "Interview", "Demo", "Other"]).optional(),
-  clipCount: z.number().int().min(1).max(10).optional(),
-  clipLengthMaxS: z.union([z.literal(30), z.literal(60), z.literal(90), z.literal(180)]).optional(),
-  autoHook: z.boolean().optional(),
-  includeMomentText: z.string().max(300).optional(),
-  timeframeStartS: z.number().min(0).nullable().optional(),
-  timeframeEndS: z.number().min(0).nullable().optional(),
-  presetId: z.string().max(100).nullable().optional(),
-  templateId: z.string().uuid().nullable().optional()
-});
+import { applyJobPatch, jobPatchSchema } from "@/lib/job-requests";
 
 export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
   const user = await getUserFromRequest(request);
@@ -37,94 +23,11 @@ export async function PATCH(request: NextRequest, { params }: { params: { jobId:
   const job = await getJobForUser(params.jobId, user.id);
   if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  const parsed = patchSchema.safeParse(await request.json());
+  const parsed = jobPatchSchema.safeParse(await request.json());
   if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
-  if (
-    parsed.data.timeframeStartS !== undefined &&
-    parsed.data.timeframeEndS !== undefined &&
-    parsed.data.timeframeStartS !== null &&
-    parsed.data.timeframeEndS !== null &&
-    parsed.data.timeframeEndS <= parsed.data.timeframeStartS
-  ) {
-    return NextResponse.json({ error: "timeframeEndS must be greater than timeframeStartS" }, { status: 400 });
-  }
-  const hasConfigUpdate =
-    parsed.data.clipStyle !== undefined ||
-    parsed.data.genre !== undefined ||
-    parsed.data.clipCount !== undefined ||
-    parsed.data.clipLengthMaxS !== undefined ||
-    parsed.data.autoHook !== undefined ||
-    parsed.data.includeMomentText !== undefined ||
-    parsed.data.timeframeStartS !== undefined ||
-    parsed.data.timeframeEndS !== undefined ||
-    parsed.data.presetId !== undefined ||
-    parsed.data.templateId !== undefined;
-  if (!parsed.data.status && !hasConfigUpdate) return NextResponse.json({ ok: true });
-
-  if (
-    parsed.data.status === "READY_TO_PROCESS" &&
-    ["PROCESSING", "DONE"].includes(job.status)
-  ) {
-    return NextResponse.json({ ok: true, skipped: `already ${job.status}` });
-  }
 
-  const updatePayload = {
-    ...(parsed.data.status ? { status: parsed.data.status } : {}),
-    ...(parsed.data.status
-      ? {
-          processing_stage: parsed.data.status === "UPLOADED" ? "UPLOADED" : parsed.data.status === "READY_TO_PROCESS" ? "QUEUED" : null,
-          processing_progress: parsed.data.status === "UPLOADED" ? 0 : parsed.data.status === "READY_TO_PROCESS" ? 1 : 0,
-          processing_note:
-            parsed.data.status === "UPLOADED"
-              ? "Upload complete. Ready to generate clips."
-              : parsed.data.status === "READY_TO_PROCESS"
-                ? "Queued for processing."
-                : null
-        }
-      : {}),
-    ...(parsed.data.clipStyle !== undefined ? { clip_style: parsed.data.clipStyle } : {}),
-    ...(parsed.data.genre !== undefined ? { genre: parsed.data.genre } : {}),
-    ...(parsed.data.clipCount !== undefined ? { desired_clip_count: parsed.data.clipCount } : {}),
-    ...(parsed.data.clipLengthMaxS !== undefined ? { clip_length_max_s: parsed.data.clipLengthMaxS } : {}),
-    ...(parsed.data.autoHook !== undefined ? { auto_hook: parsed.data.autoHook } : {}),
-    ...(parsed.data.includeMomentText !== undefined ? { include_moment_text: parsed.data.includeMomentText } : {}),
-    ...(parsed.data.timeframeStartS !== undefined ? { timeframe_start_s: parsed.data.timeframeStartS } : {}),
-    ...(parsed.data.timeframeEndS !== undefined ? { timeframe_end_s: parsed.data.timeframeEndS } : {}),
-    ...(parsed.data.presetId !== undefined ? { preset_id: parsed.data.presetId } : {}),
-    ...(parsed.data.templateId !== undefined ? { template_id: parsed.data.templateId } : {}),
-    updated_at: new Date().toISOString()
-  };
-
-  let { error } = await supabaseAdmin
-    .from("jobs")
-    .update(updatePayload)
-    .eq("id", params.jobId)
-    .eq("user_id", user.id);
-
-  if (error?.message?.includes("processing_stage") || error?.message?.includes("desired_clip_count")) {
-    const fallback = await supabaseAdmin
-      .from("jobs")
-      .update({
-        ...(parsed.data.status ? { status: parsed.data.status } : {}),
-        ...(parsed.data.clipStyle !== undefined ? { clip_style: parsed.data.clipStyle } : {}),
-        ...(parsed.data.genre !== undefined ? { genre: parsed.data.genre } : {}),
-        ...(parsed.data.clipLengthMaxS !== undefined ? { clip_length_max_s: parsed.data.clipLengthMaxS } : {}),
-        ...(parsed.data.autoHook !== undefined ? { auto_hook: parsed.data.autoHook } : {}),
-        ...(parsed.data.includeMomentText !== undefined ? { include_moment_text: parsed.data.includeMomentText } : {}),
-        ...(parsed.data.timeframeStartS !== undefined ? { timeframe_start_s: parsed.data.timeframeStartS } : {}),
-        ...(parsed.data.timeframeEndS !== undefined ? { timeframe_end_s: parsed.data.timeframeEndS } : {}),
-        ...(parsed.data.presetId !== undefined ? { preset_id: parsed.data.presetId } : {}),
-        ...(parsed.data.templateId !== undefined ? { template_id: parsed.data.templateId } : {}),
-        updated_at: new Date().toISOString()
-      })
-      .eq("id", params.jobId)
-      .eq("user_id", user.id);
-    error = fallback.error;
-  }
-
-  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-
-  return NextResponse.json({ ok: true });
+  const result = await applyJobPatch(job, user.id, parsed.data);
+  return NextResponse.json(result.body, { status: result.status });
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: { jobId: string } }) {
@@ -144,7 +47,7 @@ export async function DELETE(request: NextRequest, { params }: { params: { jobId
     .eq("user_id", user.id);
   if (exportsError) return NextResponse.json({ error: exportsError.message }, { status: 500 });
 
-  const exportPaths = new Set<string>();
+  const exportPaths = new Set<string>([`${user.id}/${params.jobId}/checkpoints/audio.mp3`]);
   for (const row of exportsRows || []) {
     if (typeof row.clip_path === "string" && row.clip_path.trim()) exportPaths.add(row.clip_path);
     const metadata = (row.provider_metadata || {}) as Record<string, unknown>;
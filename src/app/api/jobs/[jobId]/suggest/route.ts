@@ -12,13 +12,13 @@ export async function GET(request: NextRequest, { params }: { params: { jobId: s
   const preferred = await supabaseAdmin
     .from("jobs")
     .select(
-      "id,status,suggestions,error_message,processing_stage,processing_progress,processing_note,crop_config,source_duration_sec,source_filename,clip_style,clip_length_max_s,timeframe_start_s,timeframe_end_s"
+      "id,status,suggestions,error_message,processing_stage,processing_progress,processing_note,crop_config,source_duration_sec,source_filename,clip_style,genre,clip_length_max_s,timeframe_start_s,timeframe_end_s"
     )
     .eq("id", params.jobId)
     .eq("user_id", user.id)
     .maybeSingle();
 
-  if (preferred.error && preferred.error.message?.includes("processing_stage")) {
+  if (preferred.error && (preferred.error.message?.includes("processing_stage") || preferred.error.message?.includes("genre"))) {
     const fallback = await supabaseAdmin
       .from("jobs")
       .select(
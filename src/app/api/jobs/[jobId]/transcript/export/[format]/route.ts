@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { readTranscriptSegments, readTranscriptWords } from "@/lib/transcript";
+import { isTranscriptExportFormat, renderTranscript, transcriptContentType } from "@/lib/transcript-export";
+
+export const runtime = "nodejs";
+
+async function loadJob(jobId: string, userId: string) {
+  const preferred = await supabaseAdmin
+    .from("jobs")
+    .select("id,source_filename,transcript,transcript_segments,transcript_words,source_language")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (preferred.error?.message?.includes("source_language")) {
+    const fallback = await supabaseAdmin
+      .from("jobs")
+      .select("id,source_filename,transcript,transcript_segments,transcript_words")
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    return { data: fallback.data ? { ...fallback.data, source_language: null } : null, error: fallback.error };
+  }
+  return { data: preferred.data, error: preferred.error };
+}
+
+function baseName(filename: string) {
+  const withoutExtension = filename.replace(/\.[^.]+$/, "");
+  return withoutExtension.replace(/[^\p{L}\p{N}._-]+/gu, "_").replace(/^_+|_+$/g, "") || "transcript";
+}
+
+export async function GET(request: NextRequest, { params }: { params: { jobId: string; format: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const format = params.format.toLowerCase();
+  if (!isTranscriptExportFormat(format)) {
+    return NextResponse.json({ error: "Unsupported transcript format" }, { status: 400 });
+  }
+
+  const { data: job, error } = await loadJob(params.jobId, user.id);
+  if (error || !job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const segments = readTranscriptSegments(job.transcript_segments);
+  const text = String(job.transcript || "");
+  if (!segments.length && !text) return NextResponse.json({ error: "Transcript not available" }, { status: 409 });
+
+  const filename = String(job.source_filename || "transcript");
+  const body = renderTranscript(format, {
+    title: filename,
+    language: job.source_language || null,
+    text,
+    segments,
+    words: readTranscriptWords(job.transcript_words)
+  });
+
+  const downloadName = `${baseName(filename)}.${format}`;
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": transcriptContentType(format),
+      "Content-Disposition": `attachment; filename="${downloadName.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(downloadName)}`,
+      "Cache-Control": "no-store"
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  clipIds: z.array(z.string().min(1)).min(1).max(50)
+});
+
+type ExportClipRow = {
+  clip_id: string;
+  provider_metadata: { start_sec?: unknown; end_sec?: unknown } | null;
+};
+
+const RENDER_TASK_FIELDS =
+  "id,clip_id,kind,status,payload,processing_stage,processing_progress,processing_note,error_message,created_at,updated_at,finished_at";
+
+export async function POST(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = schema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data: job, error: jobError } = await supabaseAdmin
+    .from("jobs")
+    .select("id,status")
+    .eq("id", params.jobId)
+    .eq("user_id", user.id)
+    .maybeSingle<{ id: string; status: string }>();
+  if (jobError || !job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  if (job.status !== "DONE") {
+    return NextResponse.json({ error: "Captions can only be re-rendered after processing finishes" }, { status: 409 });
+  }
+
+  const { data: clips, error: clipsError } = await supabaseAdmin
+    .from("job_exports")
+    .select("clip_id,provider_metadata")
+    .eq("job_id", params.jobId)
+    .eq("user_id", user.id)
+    .in("clip_id", parsed.data.clipIds)
+    .returns<ExportClipRow[]>();
+  if (clipsError) return NextResponse.json({ error: clipsError.message }, { status: 500 });
+  if (!clips?.length) return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+
+  const { data: activeTasks } = await supabaseAdmin
+    .from("render_tasks")
+    .select("clip_id")
+    .eq("job_id", params.jobId)
+    .in("status", ["QUEUED", "PROCESSING"])
+    .returns<Array<{ clip_id: string }>>();
+  const busy = new Set((activeTasks || []).map((task) => String(task.clip_id)));
+
+  const rows = clips
+    .filter((clip) => !busy.has(String(clip.clip_id)))
+    .map((clip) => ({
+      user_id: user.id,
+      job_id: params.jobId,
+      clip_id: clip.clip_id,
+      kind: "CAPTIONS",
+      status: "QUEUED",
+      payload: {
+        startSec: Number(clip.provider_metadata?.start_sec || 0),
+        endSec: Number(clip.provider_metadata?.end_sec || 0)
+      },
+      processing_stage: "QUEUED",
+      processing_progress: 1,
+      processing_note: "Queued for caption re-render."
+    }));
+  const skippedClipIds = clips.map((clip) => String(clip.clip_id)).filter((clipId) => busy.has(clipId));
+  if (!rows.length) return NextResponse.json({ ok: true, tasks: [], skippedClipIds }, { status: 202 });
+
+  const { data: tasks, error: insertError } = await supabaseAdmin
+    .from("render_tasks")
+    .insert(rows)
+    .select(RENDER_TASK_FIELDS);
+  if (insertError) {
+    return NextResponse.json({ error: insertError.message || "Could not queue caption re-render" }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, tasks: tasks || [], skippedClipIds }, { status: 202 });
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { applySegmentEdits, readTranscriptSegments, readTranscriptWords } from "@/lib/transcript";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  edits: z
+    .array(
+      z.object({
+        index: z.number().int().min(0),
+        text: z.string().max(2000)
+      })
+    )
+    .min(1)
+    .max(500)
+});
+
+type TranscriptJobRow = {
+  id: string;
+  status: string;
+  transcript: string | null;
+  transcript_segments: unknown;
+  transcript_words: unknown;
+  transcript_edited_at?: string | null;
+  source_language?: string | null;
+};
+
+type ExportClipRow = {
+  clip_id: string;
+  provider_metadata: { start_sec?: unknown; end_sec?: unknown } | null;
+};
+
+async function loadJob(jobId: string, userId: string) {
+  const preferred = await supabaseAdmin
+    .from("jobs")
+    .select("id,status,transcript,transcript_segments,transcript_words,transcript_edited_at,source_language")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle<TranscriptJobRow>();
+  if (
+    preferred.error &&
+    (preferred.error.message?.includes("transcript_edited_at") || preferred.error.message?.includes("source_language"))
+  ) {
+    return supabaseAdmin
+      .from("jobs")
+      .select("id,status,transcript,transcript_segments,transcript_words")
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .maybeSingle<TranscriptJobRow>();
+  }
+  return preferred;
+}
+
+function toTranscriptPayload(job: TranscriptJobRow) {
+  return {
+    text: String(job.transcript || ""),
+    language: job.source_language || null,
+    editedAt: job.transcript_edited_at || null,
+    segments: readTranscriptSegments(job.transcript_segments),
+    words: readTranscriptWords(job.transcript_words)
+  };
+}
+
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data: job, error } = await loadJob(params.jobId, user.id);
+  if (error || !job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  return NextResponse.json({ transcript: toTranscriptPayload(job), editable: job.status === "DONE" });
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = schema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const { data: job, error } = await loadJob(params.jobId, user.id);
+  if (error || !job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  if (job.status !== "DONE") {
+    return NextResponse.json({ error: "Transcript can only be edited after processing finishes" }, { status: 409 });
+  }
+
+  const segments = readTranscriptSegments(job.transcript_segments);
+  if (!segments.length) return NextResponse.json({ error: "Transcript not available" }, { status: 409 });
+  if (parsed.data.edits.some((edit) => edit.index >= segments.length)) {
+    return NextResponse.json({ error: "Segment index out of range" }, { status: 400 });
+  }
+
+  const result = applySegmentEdits(segments, readTranscriptWords(job.transcript_words), parsed.data.edits);
+  if (!result.changed.length) {
+    return NextResponse.json({ transcript: toTranscriptPayload(job), affectedClipIds: [] });
+  }
+
+  const editedAt = new Date().toISOString();
+  const update = {
+    transcript: result.text,
+    transcript_segments: result.segments,
+    transcript_words: result.words,
+    updated_at: editedAt
+  };
+  let { error: updateError } = await supabaseAdmin
+    .from("jobs")
+    .update({ ...update, transcript_edited_at: editedAt })
+    .eq("id", params.jobId)
+    .eq("user_id", user.id);
+  if (updateError?.message?.includes("transcript_edited_at")) {
+    ({ error: updateError } = await supabaseAdmin
+      .from("jobs")
+      .update(update)
+      .eq("id", params.jobId)
+      .eq("user_id", user.id));
+  }
+  if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+  const { data: exportsData } = await supabaseAdmin
+    .from("job_exports")
+    .select("clip_id,provider_metadata")
+    .eq("job_id", params.jobId)
+    .eq("user_id", user.id)
+    .returns<ExportClipRow[]>();
+  const affectedClipIds = (exportsData || [])
+    .filter((clip) => {
+      const start = Number(clip.provider_metadata?.start_sec);
+      const end = Number(clip.provider_metadata?.end_sec);
+      if (!Number.isFinite(start) || !Number.isFinite(end)) return false;
+      return result.changed.some((segment) => segment.end > start && segment.start < end);
+    })
+    .map((clip) => String(clip.clip_id));
+
+  return NextResponse.json({
+    transcript: toTranscriptPayload({
+      ...job,
+      ...update,
+      transcript_edited_at: editedAt
+    }),
+    affectedClipIds
+  });
+}
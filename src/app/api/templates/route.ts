@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getUserFromRequest } from "@/lib/auth";
 import { supabaseAdmin } from "@/lib/supabase";
+import { SOURCE_LANGUAGES } from "@/lib/types";
 
 const configSchema = z.object({
   clipStyle: z.enum(["Balanced", "Hooky", "Educational", "Story"]),
@@ -9,6 +10,7 @@ const configSchema = z.object({
   clipCount: z.number().int().min(1).max(10).optional().default(4),
   clipLengthMaxS: z.union([z.literal(30), z.literal(60), z.literal(90), z.literal(180)]),
   autoHook: z.boolean(),
+  sourceLanguage: z.enum(SOURCE_LANGUAGES).optional().default("auto"),
   includeMomentText: z.string().max(300).optional().default(""),
   timeframeStartS: z.number().min(0).nullable().optional().default(null),
   timeframeEndS: z.number().min(0).nullable().optional().default(null),
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const DOWNLOAD_TTL_SECONDS = 600;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string; clipId: string; artifact: string } }
+) {
+  const auth = await authenticateApiKey(request, "jobs:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  if (params.artifact !== "video" && params.artifact !== "subtitles") {
+    return NextResponse.json({ error: "Unsupported artifact" }, { status: 400, headers: auth.headers });
+  }
+
+  const { data: clip } = await supabaseAdmin
+    .from("job_exports")
+    .select("clip_path,provider_metadata")
+    .eq("job_id", params.jobId)
+    .eq("user_id", auth.userId)
+    .eq("clip_id", params.clipId)
+    .maybeSingle();
+  if (!clip) return NextResponse.json({ error: "Clip not found" }, { status: 404, headers: auth.headers });
+
+  const metadata = (clip.provider_metadata || {}) as Record<string, unknown>;
+  const path = params.artifact === "video" ? clip.clip_path : metadata.subtitles_path;
+  if (typeof path !== "string" || !path) {
+    return NextResponse.json({ error: "Artifact not available" }, { status: 404, headers: auth.headers });
+  }
+
+  const { data: signed, error } = await supabaseAdmin.storage
+    .from("exports")
+    .createSignedUrl(path, DOWNLOAD_TTL_SECONDS, { download: true });
+  if (error || !signed?.signedUrl) {
+    return NextResponse.json(
+      { error: error?.message || "Could not sign download" },
+      { status: 500, headers: auth.headers }
+    );
+  }
+
+  return NextResponse.redirect(signed.signedUrl, { status: 302, headers: auth.headers });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const auth = await authenticateApiKey(request, "jobs:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  const { data: job } = await supabaseAdmin
+    .from("jobs")
+    .select("id,status")
+    .eq("id", params.jobId)
+    .eq("user_id", auth.userId)
+    .maybeSingle();
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404, headers: auth.headers });
+
+  const { data, error } = await supabaseAdmin
+    .from("job_exports")
+    .select("clip_id,title,description,hashtags,hook,reason,provider_metadata,expires_at")
+    .eq("job_id", params.jobId)
+    .eq("user_id", auth.userId)
+    .order("created_at", { ascending: true });
+  if (error) return NextResponse.json({ error: error.message }, { status: 500, headers: auth.headers });
+
+  const base = `/api/v1/jobs/${params.jobId}/clips`;
+  const clips = (data || []).map((clip) => {
+    const metadata = (clip.provider_metadata || {}) as Record<string, unknown>;
+    return {
+      clip_id: clip.clip_id,
+      title: clip.title,
+      description: clip.description,
+      hashtags: clip.hashtags,
+      hook: clip.hook,
+      reason: clip.reason,
+      start_sec: typeof metadata.start_sec === "number" ? metadata.start_sec : null,
+      end_sec: typeof metadata.end_sec === "number" ? metadata.end_sec : null,
+      expires_at: clip.expires_at,
+      artifacts: {
+        video: `${base}/${clip.clip_id}/video`,
+        subtitles: typeof metadata.subtitles_path === "string" ? `${base}/${clip.clip_id}/subtitles` : null
+      }
+    };
+  });
+
+  return NextResponse.json({ jobId: job.id, status: job.status, clips }, { headers: auth.headers });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { getJobForUser } from "@/lib/db";
+import { applyJobPatch, jobPatchSchema } from "@/lib/job-requests";
+
+export const runtime = "nodejs";
+
+const configSchema = jobPatchSchema.omit({ status: true, mode: true });
+
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const auth = await authenticateApiKey(request, "jobs:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  const job = await getJobForUser(params.jobId, auth.userId);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404, headers: auth.headers });
+
+  return NextResponse.json(
+    {
+      job: {
+        id: job.id,
+        status: job.status,
+        stage: job.processing_stage ?? null,
+        progress: Number(job.processing_progress || 0),
+        note: job.processing_note ?? null,
+        error_message: job.error_message ?? null,
+        source_filename: job.source_filename,
+        source_duration_sec: job.source_duration_sec ?? null,
+        attempt_count: job.attempt_count ?? null,
+        created_at: job.created_at,
+        finished_at: job.finished_at ?? null,
+        expires_at: job.expires_at
+      }
+    },
+    { headers: auth.headers }
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const auth = await authenticateApiKey(request, "jobs:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  const job = await getJobForUser(params.jobId, auth.userId);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404, headers: auth.headers });
+  if (job.status === "PROCESSING") {
+    return NextResponse.json({ error: "Job is processing" }, { status: 409, headers: auth.headers });
+  }
+
+  const parsed = configSchema.strict().safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400, headers: auth.headers });
+  }
+
+  const result = await applyJobPatch(job, auth.userId, parsed.data);
+  return NextResponse.json(result.body, { status: result.status, headers: auth.headers });
+}
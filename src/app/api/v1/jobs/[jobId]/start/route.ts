@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { getJobForUser } from "@/lib/db";
+import { applyJobPatch, jobPatchSchema } from "@/lib/job-requests";
+import { isLocalSourcePath } from "@/lib/source-path";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const startSchema = jobPatchSchema.pick({ mode: true }).strict();
+
+export async function POST(request: NextRequest, { params }: { params: { jobId: string } }) {
+  const auth = await authenticateApiKey(request, "jobs:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  const parsed = startSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400, headers: auth.headers });
+  }
+
+  const job = await getJobForUser(params.jobId, auth.userId);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404, headers: auth.headers });
+
+  if (job.status === "PENDING") {
+    if (!isLocalSourcePath(job.source_path)) {
+      const { error } = await supabaseAdmin.storage.from("uploads").createSignedUrl(job.source_path, 60);
+      if (error) {
+        return NextResponse.json(
+          { error: "Upload not found. PUT the video to the signed upload URL first." },
+          { status: 409, headers: auth.headers }
+        );
+      }
+    }
+    const uploaded = await applyJobPatch(job, auth.userId, { status: "UPLOADED" });
+    if (uploaded.status !== 200) {
+      return NextResponse.json(uploaded.body, { status: uploaded.status, headers: auth.headers });
+    }
+  }
+
+  const result = await applyJobPatch(job, auth.userId, { status: "READY_TO_PROCESS", mode: parsed.data.mode });
+  if (result.status !== 200) return NextResponse.json(result.body, { status: result.status, headers: auth.headers });
+
+  if (typeof result.body.skipped === "string") {
+    return NextResponse.json({ jobId: job.id, status: job.status, skipped: result.body.skipped }, { headers: auth.headers });
+  }
+  return NextResponse.json({ jobId: job.id, status: "READY_TO_PROCESS" }, { status: 202, headers: auth.headers });
+}
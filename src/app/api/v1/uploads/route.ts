@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey } from "@/lib/api-keys";
+import { createSignedUpload, uploadSignSchema } from "@/lib/job-requests";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiKey(request, "jobs:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status, headers: auth.headers });
+
+  const parsed = uploadSignSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400, headers: auth.headers });
+  }
+
+  const result = await createSignedUpload(auth.userId, null, parsed.data);
+  return NextResponse.json(result.body, { status: result.status, headers: auth.headers });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const runtime = "nodejs";
+
+const DELIVERY_FIELDS =
+  "id,event,payload,status,attempt_count,next_attempt_at,last_response_status,last_error,attempts,delivered_at,created_at";
+const MAX_DELIVERIES = 100;
+
+export async function GET(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const limit = Math.min(MAX_DELIVERIES, Math.max(1, Number(request.nextUrl.searchParams.get("limit")) || 50));
+  const { data, error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .select(DELIVERY_FIELDS)
+    .eq("endpoint_id", params.webhookId)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error?.message?.includes("webhook_deliveries")) {
+    return NextResponse.json(
+      { error: "Tabela webhook_deliveries ausente. Rode as migrations do Supabase e tente novamente." },
+      { status: 503 }
+    );
+  }
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ deliveries: data || [] });
+}
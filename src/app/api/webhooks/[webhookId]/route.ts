@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { findBlockedWebhookUrl, generateWebhookSecret, webhookEndpointSchema } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+const ENDPOINT_FIELDS = "id,url,events,enabled,created_at,updated_at";
+const updateSchema = webhookEndpointSchema.partial().extend({
+  rotateSecret: z.boolean().optional()
+});
+
+function isMissingWebhooksTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.webhook_endpoints") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = updateSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const blockedUrl = parsed.data.url ? await findBlockedWebhookUrl(parsed.data.url) : null;
+  if (blockedUrl) return NextResponse.json({ error: blockedUrl }, { status: 400 });
+
+  const secret = parsed.data.rotateSecret ? generateWebhookSecret() : null;
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .update({
+      ...(parsed.data.url ? { url: parsed.data.url } : {}),
+      ...(parsed.data.events ? { events: Array.from(new Set(parsed.data.events)) } : {}),
+      ...(parsed.data.enabled !== undefined ? { enabled: parsed.data.enabled } : {}),
+      ...(secret ? { secret } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", params.webhookId)
+    .eq("user_id", user.id)
+    .select(ENDPOINT_FIELDS)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingWebhooksTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela webhook_endpoints ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+  return NextResponse.json({ webhook: secret ? { ...data, secret } : data });
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", params.webhookId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    if (isMissingWebhooksTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela webhook_endpoints ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
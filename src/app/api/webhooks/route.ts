@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserFromRequest } from "@/lib/auth";
+import { supabaseAdmin } from "@/lib/supabase";
+import { findBlockedWebhookUrl, generateWebhookSecret, webhookEndpointSchema } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+
+const ENDPOINT_FIELDS = "id,url,events,enabled,created_at,updated_at";
+
+function isMissingWebhooksTableError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes("public.webhook_endpoints") &&
+    (normalized.includes("schema cache") || normalized.includes("does not exist"))
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select(ENDPOINT_FIELDS)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+  if (error) {
+    if (isMissingWebhooksTableError(error.message)) {
+      return NextResponse.json({
+        webhooks: [],
+        webhooksDisabled: true,
+        warning: "Tabela webhook_endpoints ausente. Rode as migrations do Supabase."
+      });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ webhooks: data || [] });
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getUserFromRequest(request);
+  if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const parsed = webhookEndpointSchema.safeParse(await request.json());
+  if (!parsed.success) return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+
+  const blockedUrl = await findBlockedWebhookUrl(parsed.data.url);
+  if (blockedUrl) return NextResponse.json({ error: blockedUrl }, { status: 400 });
+
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .insert({
+      user_id: user.id,
+      url: parsed.data.url,
+      secret,
+      events: Array.from(new Set(parsed.data.events)),
+      enabled: parsed.data.enabled
+    })
+    .select(ENDPOINT_FIELDS)
+    .single();
+  if (error) {
+    if (isMissingWebhooksTableError(error.message)) {
+      return NextResponse.json(
+        { error: "Tabela webhook_endpoints ausente. Rode as migrations do Supabase e tente novamente." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ webhook: { ...data, secret } });
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/components/app/language-provider";
+import { DEFAULT_CAPTION_STYLE, type CaptionStyle } from "@/lib/caption-styles";
+
+export type SavedCaptionStyle = {
+  id: string;
+  name: string;
+  style: CaptionStyle;
+};
+
+type ColorField = "primaryColor" | "highlightColor" | "outlineColor" | "backgroundColor";
+type NumberField = "fontSize" | "outlineWidth" | "shadow" | "maxCharsPerLine";
+
+const COLOR_FIELDS: ColorField[] = ["primaryColor", "highlightColor", "outlineColor", "backgroundColor"];
+const NUMBER_FIELDS: Array<{ key: NumberField; step: number }> = [
+  { key: "fontSize", step: 1 },
+  { key: "outlineWidth", step: 0.2 },
+  { key: "shadow", step: 0.5 },
+  { key: "maxCharsPerLine", step: 1 }
+];
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabaseBrowser.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export function CaptionStyleDialog({
+  open,
+  onOpenChange,
+  editing,
+  onSaved,
+  onDeleted
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editing: SavedCaptionStyle | null;
+  onSaved: (saved: SavedCaptionStyle) => void;
+  onDeleted: (styleId: string) => void;
+}) {
+  const { tr } = useLanguage();
+  const [name, setName] = useState("");
+  const [style, setStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(editing?.name || "");
+    setStyle({ ...DEFAULT_CAPTION_STYLE, ...editing?.style });
+  }, [open, editing]);
+
+  async function save() {
+    setSaving(true);
+    try {
+      const res = await fetch(editing ? `/api/caption-styles/${editing.id}` : "/api/caption-styles", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({ name: name.trim() || tr("job.captionStyle.new"), style })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(typeof data.error === "string" ? data.error : "Não foi possível salvar o estilo.");
+      onSaved(data.style as SavedCaptionStyle);
+      toast.success(tr("job.captionStyleEditor.saved"));
+      onOpenChange(false);
+    } catch (err: any) {
+      toast.error(err.message || "Não foi possível salvar o estilo.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove() {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/caption-styles/${editing.id}`, {
+        method: "DELETE",
+        headers: await authHeaders()
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(typeof data.error === "string" ? data.error : "Não foi possível excluir o estilo.");
+      onDeleted(editing.id);
+      toast.success(tr("job.captionStyleEditor.deleted"));
+      onOpenChange(false);
+    } catch (err: any) {
+      toast.error(err.message || "Não foi possível excluir o estilo.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{tr("job.captionStyleEditor.title")}</DialogTitle>
+          <DialogDescription>{tr("job.captionStyleEditor.body")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1 sm:col-span-2">
+            <Label>{tr("job.captionStyleEditor.name")}</Label>
+            <Input value={name} maxLength={80} onChange={(event) => setName(event.target.value)} />
+          </div>
+
+          <div className="space-y-1">
+            <Label>{tr("job.captionStyleEditor.fontFamily")}</Label>
+            <Input
+              value={style.fontFamily}
+              maxLength={60}
+              onChange={(event) => setStyle({ ...style, fontFamily: event.target.value })}
+            />
+          </div>
+
+          {NUMBER_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1">
+              <Label>{tr(`job.captionStyleEditor.${field.key}`)}</Label>
+              <Input
+                type="number"
+                step={field.step}
+                value={style[field.key]}
+                onChange={(event) => setStyle({ ...style, [field.key]: Number(event.target.value) || 0 })}
+              />
+            </div>
+          ))}
+
+          {COLOR_FIELDS.map((key) => (
+            <div key={key} className="space-y-1">
+              <Label>{tr(`job.captionStyleEditor.${key}`)}</Label>
+              <Input
+                type="color"
+                className="h-10 p-1"
+                value={style[key]}
+                onChange={(event) => setStyle({ ...style, [key]: event.target.value.toUpperCase() })}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label>{tr("job.captionStyleEditor.backgroundOpacity")}</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(style.backgroundOpacity * 100)}
+              onChange={(event) => setStyle({ ...style, backgroundOpacity: (Number(event.target.value) || 0) / 100 })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>{tr("job.captionStyleEditor.verticalPosition")}</Label>
+            <Input
+              type="number"
+              min={2}
+              max={90}
+              value={Math.round(style.verticalPosition * 100)}
+              onChange={(event) => setStyle({ ...style, verticalPosition: (Number(event.target.value) || 0) / 100 })}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={style.bold}
+              onChange={(event) => setStyle({ ...style, bold: event.target.checked })}
+            />
+            {tr("job.captionStyleEditor.bold")}
+          </label>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={style.backgroundBox}
+              onChange={(event) => setStyle({ ...style, backgroundBox: event.target.checked })}
+            />
+            {tr("job.captionStyleEditor.backgroundBox")}
+          </label>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {editing ? (
+            <Button variant="ghost" disabled={saving} onClick={remove}>
+              {tr("job.captionStyleEditor.delete")}
+            </Button>
+          ) : null}
+          <Button disabled={saving} onClick={save}>
+            {tr("job.captionStyleEditor.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
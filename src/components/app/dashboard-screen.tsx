@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import type { ComponentType } from "react";
 import { Captions, Clapperboard, Film, Search, Sparkles, SquareDashed, Trash2, WandSparkles } from "lucide-react";
+import { subscribeJobEvents } from "@/lib/job-events";
 import { supabaseBrowser } from "@/lib/supabase-browser";
 import { UploadWidget } from "@/components/app/upload-widget";
 import { EmptyState } from "@/components/app/empty-state";
@@ -36,6 +37,7 @@ function stageLabel(stage?: string | null) {
   const labels: Record<string, string> = {
     QUEUED: "Na fila",
     DOWNLOADING_SOURCE: "Baixando fonte",
+    DETECTING_WEBCAM: "Detectando webcam",
     EXTRACTING_AUDIO: "Extraindo áudio",
     TRANSCRIBING: "Transcrevendo",
     SELECTING_CLIPS: "Selecionando clipes",
@@ -209,18 +211,45 @@ export function DashboardScreen() {
     };
   }, [isAuthenticated, userId]);
 
-  useEffect(() => {
-    if (!isAuthenticated || !accessToken) return;
-    const hasActiveJob = jobs.some((job) => job.status === "PROCESSING" || job.status === "READY_TO_PROCESS");
-    if (!hasActiveJob) return;
+  const activeJobIds = useMemo(
+    () =>
+      jobs
+        .filter((job) => job.status === "PROCESSING" || job.status === "READY_TO_PROCESS")
+        .map((job) => job.id)
+        .sort()
+        .join(","),
+    [jobs]
+  );
 
-    const timer = setInterval(() => {
-      if (document.hidden) return;
-      loadJobs(accessToken, { silent: true }).catch(() => undefined);
-    }, 5000);
+  useEffect(() => {
+    if (!isAuthenticated || !accessToken || !activeJobIds) return;
+    const headers = async () => ({ Authorization: `Bearer ${accessToken}` });
+
+    const unsubscribers = activeJobIds.split(",").map((jobId) =>
+      subscribeJobEvents(jobId, headers, {
+        onProgress: (event) => {
+          setJobs((prev) =>
+            prev.map((job) =>
+              job.id === jobId
+                ? {
+                    ...job,
+                    status: event.status,
+                    processing_stage: event.stage,
+                    processing_progress: event.progress,
+                    processing_note: event.note
+                  }
+                : job
+            )
+          );
+        },
+        onEnd: () => {
+          loadJobs(accessToken, { silent: true }).catch(() => undefined);
+        }
+      })
+    );
 
-    return () => clearInterval(timer);
-  }, [accessToken, isAuthenticated, jobs]);
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [accessToken, isAuthenticated, activeJobIds]);
 
   async function signInWithPassword() {
     const { error } = await supabaseBrowser.auth.signInWithPassword({ email, password });
@@ -498,6 +527,7 @@ export function DashboardScreen() {
                 <SelectItem value="PROCESSING">{tr("dashboard.processing")}</SelectItem>
                 <SelectItem value="DONE">{tr("dashboard.done")}</SelectItem>
                 <SelectItem value="FAILED">{tr("dashboard.failed")}</SelectItem>
+                <SelectItem value="CANCELLED">{tr("dashboard.cancelled")}</SelectItem>
               </SelectContent>
             </Select>
             <Select value={dateFilter} onValueChange={setDateFilter}>
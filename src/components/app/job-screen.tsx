@@ -7,6 +7,7 @@ import { supabaseBrowser } from "@/lib/supabase-browser";
 import { JobStatusBadge } from "@/components/app/status-badge";
 import { EmptyState } from "@/components/app/empty-state";
 import { PageHeader } from "@/components/app/page-header";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -23,6 +24,11 @@ import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLanguage } from "@/components/app/language-provider";
+import { CaptionStyleDialog, type SavedCaptionStyle } from "@/components/app/caption-style-dialog";
+import { TranscriptEditor } from "@/components/app/transcript-editor";
+import { JOB_TERMINAL_STATUSES, subscribeJobEvents } from "@/lib/job-events";
+import { DEFAULT_WEBCAM_RECT, getLayout, LAYOUT_KEYS, recommendedLayoutForGenre, type LayoutKey } from "@/lib/layouts";
+import type { ClipGenre, JobProcessingMode, JobRetryAttempt, WebcamDetection } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
 type Clip = {
@@ -80,16 +86,27 @@ function stageLabel(stage?: string) {
     UPLOADED: "Upload concluído",
     QUEUED: "Na fila",
     DOWNLOADING_SOURCE: "Baixando arquivo",
+    DETECTING_WEBCAM: "Detectando webcam",
     EXTRACTING_AUDIO: "Extraindo áudio",
     TRANSCRIBING: "Transcrevendo",
     SELECTING_CLIPS: "Selecionando destaques",
     RENDERING_EXPORTS: "Renderizando clipes",
     UPLOADING_EXPORTS: "Enviando exports",
-    FINALIZING: "Finalizando"
+    FINALIZING: "Finalizando",
+    RETRY_SCHEDULED: "Nova tentativa agendada",
+    CANCELLED: "Cancelado"
   };
   return labels[stage] || stage.toLowerCase().replace(/_/g, " ");
 }
 
+function initialClipWindow(clip: Clip): ClipWindow {
+  const { startSec, endSec } = readClipWindow(clip);
+  return {
+    startSec: startSec === null ? "0" : startSec.toFixed(1),
+    endSec: endSec === null ? "" : endSec.toFixed(1)
+  };
+}
+
 function readClipWindow(clip: Clip): { startSec: number | null; endSec: number | null } {
   const metadata = clip.provider_metadata || {};
   const rawStart = metadata.start_sec ?? metadata.startSec;
@@ -143,7 +160,7 @@ function clipDurationFromMetadata(clip: Clip) {
 }
 
 function processingStageIndex(stage: string) {
-  if (["UPLOADED", "QUEUED", "DOWNLOADING_SOURCE", "EXTRACTING_AUDIO"].includes(stage)) return 0;
+  if (["UPLOADED", "QUEUED", "DOWNLOADING_SOURCE", "DETECTING_WEBCAM", "EXTRACTING_AUDIO"].includes(stage)) return 0;
   if (stage === "TRANSCRIBING") return 1;
   if (stage === "SELECTING_CLIPS") return 2;
   if (["RENDERING_EXPORTS", "UPLOADING_EXPORTS"].includes(stage)) return 3;
@@ -152,6 +169,20 @@ function processingStageIndex(stage: string) {
 }
 
 const EDITOR_PADDING_SEC = 12;
+const RENDER_TASK_POLL_MS = 2000;
+const LAYOUT_LABEL_KEYS: Record<LayoutKey, string> = {
+  TOP_WEBCAM_BOTTOM_SCREEN: "job.layout.topWebcam",
+  BOTTOM_WEBCAM_TOP_SCREEN: "job.layout.bottomWebcam",
+  PIP_WEBCAM: "job.layout.pip",
+  SCREEN_FACECAM_BUBBLE: "job.layout.bubble",
+  TALKING_HEAD: "job.layout.talkingHead"
+};
+const PREVIEW_FRAME_SIZES: Record<string, { width: number; height: number }> = {
+  INSTAGRAM_REELS: { width: 1080, height: 1920 },
+  YOUTUBE_SHORTS: { width: 1080, height: 1920 },
+  TIKTOK: { width: 1080, height: 1920 },
+  INSTAGRAM_FEED: { width: 1080, height: 1350 }
+};
 const CLIP_STYLE_LABELS: Record<ClipStyle, string> = {
   Balanced: "Balanceado",
   Hooky: "Gancho forte",
@@ -216,6 +247,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
   const [processingStage, setProcessingStage] = useState("");
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingNote, setProcessingNote] = useState("");
+  const [retryHistory, setRetryHistory] = useState<JobRetryAttempt[]>([]);
   const [processingModalOpen, setProcessingModalOpen] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [sourceDurationSec, setSourceDurationSec] = useState<number | null>(null);
@@ -225,6 +257,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
   const [timeframeEndS, setTimeframeEndS] = useState<number | null>(null);
   const [clipWindows, setClipWindows] = useState<Record<string, ClipWindow>>({});
   const [adjustingClipId, setAdjustingClipId] = useState("");
+  const [adjustProgress, setAdjustProgress] = useState(0);
   const [editingClipId, setEditingClipId] = useState<string | null>(null);
   const [editorStartSec, setEditorStartSec] = useState(0);
   const [editorEndSec, setEditorEndSec] = useState(0.3);
@@ -243,15 +276,20 @@ export function JobScreen({ jobId }: { jobId: string }) {
   const [draggingHandle, setDraggingHandle] = useState<"start" | "end" | null>(null);
   const [loopSelection, setLoopSelection] = useState(false);
 
+  const [genre, setGenre] = useState<ClipGenre | null>(null);
+  const [captionStyles, setCaptionStyles] = useState<SavedCaptionStyle[]>([]);
+  const [captionStyleDialogOpen, setCaptionStyleDialogOpen] = useState(false);
+  const [editingCaptionStyle, setEditingCaptionStyle] = useState<SavedCaptionStyle | null>(null);
   const [crop, setCrop] = useState({
-    x: 0.72,
-    y: 0.7,
-    width: 0.26,
-    height: 0.26,
-    layout: "TOP_WEBCAM_BOTTOM_SCREEN",
+    ...DEFAULT_WEBCAM_RECT,
+    layout: "TOP_WEBCAM_BOTTOM_SCREEN" as LayoutKey,
     captionPreset: "BOLD",
+    captionMode: "SEGMENT" as "SEGMENT" | "KARAOKE",
+    captionStyleId: null as string | null,
+    captionSpeakerColors: false,
     captionLanguage: "source" as CaptionLanguage,
-    outputPreset: "INSTAGRAM_REELS"
+    outputPreset: "INSTAGRAM_REELS",
+    detection: null as WebcamDetection | null
   });
 
   async function load(options?: { reset?: boolean; fetchPreview?: boolean }) {
@@ -293,8 +331,10 @@ export function JobScreen({ jobId }: { jobId: string }) {
       setProcessingStage(data.job.processing_stage || "");
       setProcessingProgress(Number(data.job.processing_progress || 0));
       setProcessingNote(data.job.processing_note || "");
+      setRetryHistory(Array.isArray(data.job.retry_history) ? data.job.retry_history : []);
       setSourceFilename(String(data.job.source_filename || ""));
       setClipStyle((data.job.clip_style as ClipStyle) || "Balanced");
+      setGenre((data.job.genre as ClipGenre) || null);
       setClipLengthMaxS(Number(data.job.clip_length_max_s || 0) || null);
       setTimeframeStartS(data.job.timeframe_start_s === null ? null : Number(data.job.timeframe_start_s || 0) || null);
       setTimeframeEndS(data.job.timeframe_end_s === null ? null : Number(data.job.timeframe_end_s || 0) || null);
@@ -311,15 +351,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
       setClipWindows((prev) => {
         const next: Record<string, ClipWindow> = {};
         for (const clip of exportsList) {
-          if (prev[clip.clip_id]) {
-            next[clip.clip_id] = prev[clip.clip_id];
-            continue;
-          }
-          const { startSec, endSec } = readClipWindow(clip);
-          next[clip.clip_id] = {
-            startSec: startSec === null ? "0" : startSec.toFixed(1),
-            endSec: endSec === null ? "" : endSec.toFixed(1)
-          };
+          next[clip.clip_id] = prev[clip.clip_id] || initialClipWindow(clip);
         }
         return next;
       });
@@ -342,6 +374,18 @@ export function JobScreen({ jobId }: { jobId: string }) {
     }
   }
 
+  function upsertClip(clip: Clip) {
+    setClips((prev) => {
+      const index = prev.findIndex((item) => item.clip_id === clip.clip_id);
+      if (index === -1) return [...prev, clip];
+      const next = [...prev];
+      next[index] = clip;
+      return next;
+    });
+    setSelectedClipId((prev) => prev ?? clip.clip_id);
+    setClipWindows((prev) => (prev[clip.clip_id] ? prev : { ...prev, [clip.clip_id]: initialClipWindow(clip) }));
+  }
+
   function scheduleRealtimeRefresh(fetchPreview = false) {
     if (realtimeRefreshTimerRef.current) {
       clearTimeout(realtimeRefreshTimerRef.current);
@@ -351,35 +395,52 @@ export function JobScreen({ jobId }: { jobId: string }) {
     }, 350);
   }
 
-  async function saveCrop() {
+  async function persistCrop() {
     await fetch(`/api/jobs/${jobId}/crop`, {
       method: "POST",
       headers: { "Content-Type": "application/json", ...(await authHeaders()) },
       body: JSON.stringify(crop)
     });
+  }
+
+  async function saveCrop() {
+    await persistCrop();
     toast.success(tr("job.saveCrop"));
     await load();
   }
 
   function resetCrop() {
     setCrop({
-      x: 0.72,
-      y: 0.7,
-      width: 0.26,
-      height: 0.26,
-      layout: "TOP_WEBCAM_BOTTOM_SCREEN",
+      ...(crop.detection?.rect || DEFAULT_WEBCAM_RECT),
+      layout: recommendedLayoutForGenre(genre),
       captionPreset: "BOLD",
+      captionMode: "SEGMENT",
+      captionStyleId: null,
+      captionSpeakerColors: false,
       captionLanguage: "source",
-      outputPreset: "INSTAGRAM_REELS"
+      outputPreset: "INSTAGRAM_REELS",
+      detection: crop.detection
     });
   }
 
-  async function generate() {
+  async function loadCaptionStyles() {
+    const res = await fetch("/api/caption-styles", { headers: await authHeaders(), cache: "no-store" });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) setCaptionStyles((data.styles || []) as SavedCaptionStyle[]);
+  }
+
+  function openCaptionStyleEditor(style: SavedCaptionStyle | null) {
+    setEditingCaptionStyle(style);
+    setCaptionStyleDialogOpen(true);
+  }
+
+  async function generate(mode?: JobProcessingMode) {
     setMessage(tr("job.queueing"));
+    if (mode === "RERENDER") await persistCrop();
     const res = await fetch(`/api/jobs/${jobId}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json", ...(await authHeaders()) },
-      body: JSON.stringify({ status: "READY_TO_PROCESS" })
+      body: JSON.stringify(mode ? { status: "READY_TO_PROCESS", mode } : { status: "READY_TO_PROCESS" })
     });
     const data = await res.json().catch(() => ({}));
     if (!res.ok) {
@@ -388,8 +449,23 @@ export function JobScreen({ jobId }: { jobId: string }) {
       toast.error(errMessage);
       return;
     }
-    setMessage(tr("job.queued"));
-    toast.success(tr("job.queued"));
+    const queuedMessage = mode === "RERENDER" ? tr("job.rerenderClipsQueued") : tr("job.queued");
+    setMessage(queuedMessage);
+    toast.success(queuedMessage);
+    await load();
+  }
+
+  async function cancelProcessing() {
+    const res = await fetch(`/api/jobs/${jobId}/cancel`, {
+      method: "POST",
+      headers: await authHeaders()
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(typeof data.error === "string" ? data.error : tr("job.cancelError"));
+      return;
+    }
+    toast.success(data.cancelRequested ? tr("job.cancelRequested") : tr("job.cancelled"));
     await load();
   }
 
@@ -398,6 +474,19 @@ export function JobScreen({ jobId }: { jobId: string }) {
     toast.success(label);
   }
 
+  async function waitForRenderTask(clipId: string) {
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, RENDER_TASK_POLL_MS));
+      const res = await fetch(`/api/jobs/${jobId}/clips/${clipId}/adjust`, { headers: await authHeaders(), cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.task) return null;
+      setAdjustProgress(Number(data.task.processing_progress || 0));
+      if (data.task.status === "DONE" || data.task.status === "FAILED") {
+        return data.task as { status: string; error_message?: string | null };
+      }
+    }
+  }
+
   async function adjustClip(clipId: string, startSec: number, endSec: number) {
     if (!Number.isFinite(startSec) || !Number.isFinite(endSec) || endSec <= startSec) {
       toast.error(tr("job.adjustClipInvalid"));
@@ -438,21 +527,14 @@ export function JobScreen({ jobId }: { jobId: string }) {
         return;
       }
 
-      const updatedClip = data.clip as Partial<Clip> | undefined;
-      if (updatedClip?.clip_url) {
-        setClips((prev) =>
-          prev.map((clip) =>
-            clip.clip_id === clipId
-              ? {
-                  ...clip,
-                  clip_url: updatedClip.clip_url as string,
-                  provider_metadata: updatedClip.provider_metadata as Record<string, unknown>
-                }
-              : clip
-          )
-        );
+      setAdjustProgress(Number(data.task?.processing_progress || 0));
+      const task = await waitForRenderTask(clipId);
+      if (!task || task.status !== "DONE") {
+        toast.error(task?.error_message || tr("job.adjustClipError"));
+        return;
       }
 
+      await load();
       setClipWindows((prev) => ({
         ...prev,
         [clipId]: {
@@ -464,6 +546,24 @@ export function JobScreen({ jobId }: { jobId: string }) {
       setEditingClipId(null);
     } finally {
       setAdjustingClipId("");
+      setAdjustProgress(0);
+    }
+  }
+
+  async function trackCaptionRerender(clipIds: string[]) {
+    toast.success(tr("job.transcript.rerenderQueued"));
+    try {
+      for (const clipId of clipIds) {
+        setAdjustingClipId(clipId);
+        setAdjustProgress(1);
+        const task = await waitForRenderTask(clipId);
+        if (!task || task.status !== "DONE") toast.error(task?.error_message || tr("job.adjustClipError"));
+      }
+      await load();
+      toast.success(tr("job.adjustClipSuccess"));
+    } finally {
+      setAdjustingClipId("");
+      setAdjustProgress(0);
     }
   }
 
@@ -502,6 +602,10 @@ export function JobScreen({ jobId }: { jobId: string }) {
 
   const editingClip = useMemo(() => clips.find((clip) => clip.clip_id === editingClipId) || null, [clips, editingClipId]);
   const selectedClip = useMemo(() => clips.find((clip) => clip.clip_id === selectedClipId) || clips[0] || null, [clips, selectedClipId]);
+  const selectedCaptionStyle = useMemo(
+    () => captionStyles.find((style) => style.id === crop.captionStyleId) || null,
+    [captionStyles, crop.captionStyleId]
+  );
 
   const timelineMin = Math.min(editorWindowMinSec, editorWindowMaxSec - 0.3);
   const timelineMax = Math.max(editorWindowMaxSec, timelineMin + 0.3);
@@ -610,6 +714,10 @@ export function JobScreen({ jobId }: { jobId: string }) {
     };
   }, [draggingHandle, timelineMin, timelineRange, editorStartSec, editorEndSec]);
 
+  useEffect(() => {
+    loadCaptionStyles().catch(console.error);
+  }, []);
+
   useEffect(() => {
     load({ reset: true, fetchPreview: true }).catch(console.error);
     return () => {
@@ -627,6 +735,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
         if (typeof row.processing_stage === "string" || row.processing_stage === null) setProcessingStage(String(row.processing_stage || ""));
         if (typeof row.processing_progress === "number") setProcessingProgress(Number(row.processing_progress));
         if (typeof row.processing_note === "string" || row.processing_note === null) setProcessingNote(String(row.processing_note || ""));
+        if (Array.isArray(row.retry_history)) setRetryHistory(row.retry_history as JobRetryAttempt[]);
         if (typeof row.source_filename === "string") setSourceFilename(row.source_filename);
         if (typeof row.clip_style === "string") setClipStyle((row.clip_style as ClipStyle) || "Balanced");
         if (typeof row.clip_length_max_s === "number") setClipLengthMaxS(Number(row.clip_length_max_s) || null);
@@ -639,7 +748,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
           setTimeframeEndS(Number.isFinite(end) ? end : null);
         }
 
-        scheduleRealtimeRefresh(false);
+        if (typeof row.status === "string" && JOB_TERMINAL_STATUSES.includes(row.status)) scheduleRealtimeRefresh(false);
       })
       .on("postgres_changes", { event: "*", schema: "public", table: "job_exports", filter: `job_id=eq.${jobId}` }, () => {
         scheduleRealtimeRefresh(false);
@@ -655,17 +764,24 @@ export function JobScreen({ jobId }: { jobId: string }) {
     };
   }, [jobId]);
 
-  useEffect(() => {
-    const activeStatuses = new Set(["READY_TO_PROCESS", "PROCESSING"]);
-    if (!activeStatuses.has(status)) return;
-
-    const timer = setInterval(() => {
-      if (document.hidden) return;
-      load({ reset: false, fetchPreview: false }).catch(console.error);
-    }, 5000);
+  const isActive = status === "READY_TO_PROCESS" || status === "PROCESSING";
 
-    return () => clearInterval(timer);
-  }, [jobId, status]);
+  useEffect(() => {
+    if (!isActive) return;
+
+    return subscribeJobEvents(jobId, authHeaders, {
+      onProgress: (event) => {
+        if (!JOB_TERMINAL_STATUSES.includes(event.status)) setStatus(event.status);
+        setProcessingStage(event.stage || "");
+        setProcessingProgress(event.progress);
+        setProcessingNote(event.note || "");
+      },
+      onClip: upsertClip,
+      onEnd: () => {
+        load({ reset: false, fetchPreview: false }).catch(console.error);
+      }
+    });
+  }, [jobId, isActive]);
 
   const stepStates = useMemo(() => {
     if (status === "DONE") return ["done", "done", "done", "done", "done"] as const;
@@ -704,6 +820,18 @@ export function JobScreen({ jobId }: { jobId: string }) {
     return Math.max(1, Math.ceil(remaining));
   }, [processingProgress, sourceDurationSec, status]);
 
+  const layoutDefinition = getLayout(crop.layout);
+  const previewFrame = PREVIEW_FRAME_SIZES[crop.outputPreset] || PREVIEW_FRAME_SIZES.INSTAGRAM_REELS;
+  const layoutRegions = layoutDefinition.preview(
+    { x: crop.x, y: crop.y, width: crop.width, height: crop.height },
+    previewFrame
+  );
+  const recommendedLayout = recommendedLayoutForGenre(genre);
+  const detectedRect = crop.detection?.rect || null;
+  const usingDetectedRect =
+    !!detectedRect &&
+    (["x", "y", "width", "height"] as const).every((key) => Math.abs(crop[key] - detectedRect[key]) < 0.005);
+
   const timeframeLabel =
     timeframeStartS === null && timeframeEndS === null
       ? "Vídeo completo"
@@ -760,17 +888,81 @@ export function JobScreen({ jobId }: { jobId: string }) {
           <CardContent className="space-y-4">
             <div className="rounded-lg border bg-muted/30 p-4">
               {sourcePreviewUrl ? (
-                <video
-                  src={sourcePreviewUrl}
-                  controls
-                  preload="metadata"
-                  className="w-full rounded-md bg-black"
-                  aria-label={tr("job.sourcePreviewAria")}
-                />
+                <div className="relative">
+                  <video
+                    src={sourcePreviewUrl}
+                    controls
+                    preload="metadata"
+                    className="w-full rounded-md bg-black"
+                    aria-label={tr("job.sourcePreviewAria")}
+                  />
+                  {layoutDefinition.usesWebcam ? (
+                    <div
+                      className="pointer-events-none absolute rounded-sm border-2 border-primary bg-primary/10"
+                      style={{
+                        left: `${crop.x * 100}%`,
+                        top: `${crop.y * 100}%`,
+                        width: `${crop.width * 100}%`,
+                        height: `${crop.height * 100}%`
+                      }}
+                    />
+                  ) : null}
+                </div>
               ) : (
                 <div className="h-44 w-full rounded-md bg-muted" />
               )}
-              <p className="mt-2 text-xs text-muted-foreground">{tr("job.previewHelp")}</p>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                {usingDetectedRect && layoutDefinition.usesWebcam ? (
+                  <Badge variant="success">
+                    {tr("job.webcamDetected")} · {Math.round((crop.detection?.confidence || 0) * 100)}%
+                  </Badge>
+                ) : null}
+                <p className="text-xs text-muted-foreground">{tr("job.previewHelp")}</p>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-[1fr,auto]">
+              <div className="space-y-1">
+                <Label>{tr("job.layout")}</Label>
+                <Select value={crop.layout} onValueChange={(value) => setCrop({ ...crop, layout: value as LayoutKey })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={tr("job.layout")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LAYOUT_KEYS.map((key) => (
+                      <SelectItem key={key} value={key}>
+                        {tr(LAYOUT_LABEL_KEYS[key])}
+                        {key === recommendedLayout ? ` · ${tr("job.layout.recommended")}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{tr("job.layoutHelp")}</p>
+              </div>
+              <div
+                className="relative w-24 overflow-hidden rounded-md border bg-muted"
+                style={{ aspectRatio: `${previewFrame.width} / ${previewFrame.height}` }}
+                aria-hidden
+              >
+                {layoutRegions.map((region, index) => (
+                  <div
+                    key={`${region.role}-${index}`}
+                    className={cn(
+                      "absolute flex items-center justify-center border text-[9px] font-medium uppercase",
+                      region.role === "webcam" ? "border-primary bg-primary/30 text-primary" : "border-border bg-background/80 text-muted-foreground",
+                      region.shape === "circle" && "rounded-full"
+                    )}
+                    style={{
+                      left: `${region.target.x * 100}%`,
+                      top: `${region.target.y * 100}%`,
+                      width: `${region.target.width * 100}%`,
+                      height: `${region.target.height * 100}%`
+                    }}
+                  >
+                    {region.role === "webcam" ? "cam" : "screen"}
+                  </div>
+                ))}
+              </div>
             </div>
 
             <div className="space-y-1">
@@ -799,8 +991,14 @@ export function JobScreen({ jobId }: { jobId: string }) {
             <div className="space-y-1">
               <Label>{tr("job.captionStyle")}</Label>
               <Select
-                value={crop.captionPreset}
-                onValueChange={(value) => setCrop({ ...crop, captionPreset: value as "BOLD" | "CLEAN" | "MODERN" | "MINIMAL" })}
+                value={crop.captionStyleId ? `custom:${crop.captionStyleId}` : crop.captionPreset}
+                onValueChange={(value) =>
+                  setCrop(
+                    value.startsWith("custom:")
+                      ? { ...crop, captionStyleId: value.slice("custom:".length) }
+                      : { ...crop, captionPreset: value as "BOLD" | "CLEAN" | "MODERN" | "MINIMAL", captionStyleId: null }
+                  )
+                }
               >
                 <SelectTrigger>
                   <SelectValue placeholder={tr("job.captionStyle")} />
@@ -810,8 +1008,47 @@ export function JobScreen({ jobId }: { jobId: string }) {
                   <SelectItem value="CLEAN">{tr("job.clean")}</SelectItem>
                   <SelectItem value="MODERN">{tr("job.modern")}</SelectItem>
                   <SelectItem value="MINIMAL">{tr("job.minimal")}</SelectItem>
+                  {captionStyles.map((style) => (
+                    <SelectItem key={style.id} value={`custom:${style.id}`}>
+                      {style.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="ghost" onClick={() => openCaptionStyleEditor(null)}>
+                  {tr("job.captionStyle.new")}
+                </Button>
+                {selectedCaptionStyle ? (
+                  <Button size="sm" variant="ghost" onClick={() => openCaptionStyleEditor(selectedCaptionStyle)}>
+                    {tr("job.captionStyle.edit")}
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>{tr("job.captionMode")}</Label>
+              <Select
+                value={crop.captionMode || "SEGMENT"}
+                onValueChange={(value) => setCrop({ ...crop, captionMode: value as "SEGMENT" | "KARAOKE" })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={tr("job.captionMode")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="SEGMENT">{tr("job.captionMode.segment")}</SelectItem>
+                  <SelectItem value="KARAOKE">{tr("job.captionMode.karaoke")}</SelectItem>
                 </SelectContent>
               </Select>
+              <label className="flex items-center gap-2 pt-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={Boolean(crop.captionSpeakerColors)}
+                  onChange={(event) => setCrop({ ...crop, captionSpeakerColors: event.target.checked })}
+                />
+                {tr("job.captionSpeakerColors")}
+              </label>
             </div>
 
             <div className="space-y-1">
@@ -840,10 +1077,17 @@ export function JobScreen({ jobId }: { jobId: string }) {
               <Button variant="ghost" onClick={resetCrop}>
                 {tr("job.reset")}
               </Button>
-              <Button onClick={generate}>
-                <WandSparkles className="mr-2 h-4 w-4" />
-                {tr("job.generate")}
-              </Button>
+              {status === "DONE" ? (
+                <Button onClick={() => generate("RERENDER")}>
+                  <WandSparkles className="mr-2 h-4 w-4" />
+                  {tr("job.rerenderClips")}
+                </Button>
+              ) : (
+                <Button onClick={() => generate()}>
+                  <WandSparkles className="mr-2 h-4 w-4" />
+                  {tr("job.generate")}
+                </Button>
+              )}
             </div>
             {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
             {status === "FAILED" && jobError ? <p className="text-sm text-destructive">{tr("job.failed")} {jobError}</p> : null}
@@ -889,6 +1133,22 @@ export function JobScreen({ jobId }: { jobId: string }) {
               {estimatedWaitMin > 0 ? `Tempo estimado: ~${estimatedWaitMin} min` : "Processamento concluído"}
             </div>
             {processingNote ? <div className="rounded-lg border bg-muted/20 p-3 text-xs text-muted-foreground">{processingNote}</div> : null}
+            {retryHistory.length > 0 && status !== "DONE" ? (
+              <div className="space-y-1 rounded-lg border bg-muted/20 p-3 text-xs text-muted-foreground">
+                <p className="font-medium">{tr("job.retryHistory")}</p>
+                {retryHistory.map((entry) => (
+                  <p key={`${entry.attempt}-${entry.failedAt}`}>
+                    {tr("job.retryAttempt").replace("{attempt}", String(entry.attempt))}{" "}
+                    {new Date(entry.failedAt).toLocaleTimeString()}: {entry.error}
+                  </p>
+                ))}
+              </div>
+            ) : null}
+            {status === "READY_TO_PROCESS" || status === "PROCESSING" ? (
+              <Button variant="outline" size="sm" onClick={cancelProcessing}>
+                {tr("job.cancel")}
+              </Button>
+            ) : null}
             {refreshing ? <p className="text-xs text-muted-foreground">{tr("job.refreshing")}</p> : null}
           </CardContent>
         </Card>
@@ -943,6 +1203,11 @@ export function JobScreen({ jobId }: { jobId: string }) {
                           <div className="mt-1 flex items-center gap-2 text-[11px] text-muted-foreground">
                             {duration !== null ? <span>{duration.toFixed(1)}s</span> : null}
                             {virality.score !== null ? <span>Pontuação {virality.score.toFixed(0)}</span> : null}
+                            {adjustingClipId === clip.clip_id ? (
+                              <span>
+                                {tr("job.adjustingClip")} {Math.round(adjustProgress)}%
+                              </span>
+                            ) : null}
                           </div>
                         </div>
                       </div>
@@ -1012,6 +1277,22 @@ export function JobScreen({ jobId }: { jobId: string }) {
         </CardContent>
       </Card>
 
+      <TranscriptEditor jobId={jobId} enabled={status === "DONE"} onRerenderQueued={trackCaptionRerender} />
+
+      <CaptionStyleDialog
+        open={captionStyleDialogOpen}
+        onOpenChange={setCaptionStyleDialogOpen}
+        editing={editingCaptionStyle}
+        onSaved={(saved) => {
+          setCaptionStyles((prev) => [saved, ...prev.filter((style) => style.id !== saved.id)]);
+          setCrop((prev) => ({ ...prev, captionStyleId: saved.id }));
+        }}
+        onDeleted={(styleId) => {
+          setCaptionStyles((prev) => prev.filter((style) => style.id !== styleId));
+          setCrop((prev) => ({ ...prev, captionStyleId: prev.captionStyleId === styleId ? null : prev.captionStyleId }));
+        }}
+      />
+
       <Dialog open={processingModalOpen} onOpenChange={setProcessingModalOpen}>
         <DialogContent className="max-w-xl">
           <DialogHeader>
@@ -1080,7 +1361,7 @@ export function JobScreen({ jobId }: { jobId: string }) {
                   <MessageSquareWarning className="mr-2 h-4 w-4" />
                   Enviar feedback
                 </Button>
-                <Button onClick={generate}>Tentar novamente</Button>
+                <Button onClick={() => generate()}>Tentar novamente</Button>
               </>
             ) : (
               <Button onClick={() => setProcessingModalOpen(false)}>Fechar</Button>
@@ -1224,7 +1505,9 @@ export function JobScreen({ jobId }: { jobId: string }) {
               onClick={() => editingClipId && adjustClip(editingClipId, editorStartSec, editorEndSec)}
               disabled={!editingClipId || adjustingClipId === editingClipId}
             >
-              {editingClipId && adjustingClipId === editingClipId ? tr("job.adjustingClip") : tr("job.adjustClip")}
+              {editingClipId && adjustingClipId === editingClipId
+                ? `${tr("job.adjustingClip")} ${Math.round(adjustProgress)}%`
+                : tr("job.adjustClip")}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -14,7 +14,8 @@ function normalizeLabel(value: string) {
     READY_TO_PROCESS: "Pronto para processar",
     PROCESSING: "Processando",
     DONE: "Concluído",
-    FAILED: "Falhou"
+    FAILED: "Falhou",
+    CANCELLED: "Cancelado"
   };
   return labels[value] || value.replaceAll("_", " ");
 }
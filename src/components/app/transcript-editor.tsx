@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { supabaseBrowser } from "@/lib/supabase-browser";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useLanguage } from "@/components/app/language-provider";
+import type { TimedSegment } from "@/lib/transcript";
+import { TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from "@/lib/transcript-export";
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabaseBrowser.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function formatTimestamp(sec: number) {
+  const safe = Math.max(0, Math.floor(sec));
+  return `${String(Math.floor(safe / 60)).padStart(2, "0")}:${String(safe % 60).padStart(2, "0")}`;
+}
+
+export function TranscriptEditor({
+  jobId,
+  enabled,
+  onRerenderQueued
+}: {
+  jobId: string;
+  enabled: boolean;
+  onRerenderQueued: (clipIds: string[]) => void;
+}) {
+  const { tr } = useLanguage();
+  const [segments, setSegments] = useState<TimedSegment[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [editedAt, setEditedAt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [affectedClipIds, setAffectedClipIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    (async () => {
+      const res = await fetch(`/api/jobs/${jobId}/transcript`, { headers: await authHeaders(), cache: "no-store" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) return;
+      setSegments(data.transcript?.segments || []);
+      setEditedAt(data.transcript?.editedAt || null);
+      setDrafts({});
+    })().catch(console.error);
+  }, [jobId, enabled]);
+
+  const edits = useMemo(
+    () =>
+      Object.entries(drafts)
+        .map(([index, text]) => ({ index: Number(index), text }))
+        .filter((edit) => segments[edit.index] && segments[edit.index].text !== edit.text.trim()),
+    [drafts, segments]
+  );
+
+  async function save() {
+    if (!edits.length) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/transcript`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+        body: JSON.stringify({ edits })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(typeof data.error === "string" ? data.error : tr("job.transcript.error"));
+      setSegments(data.transcript?.segments || []);
+      setEditedAt(data.transcript?.editedAt || null);
+      setDrafts({});
+      toast.success(tr("job.transcript.saved"));
+      setAffectedClipIds(data.affectedClipIds || []);
+    } catch (err: any) {
+      toast.error(err.message || tr("job.transcript.error"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function download(format: TranscriptExportFormat) {
+    const res = await fetch(`/api/jobs/${jobId}/transcript.${format}`, { headers: await authHeaders(), cache: "no-store" });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      toast.error(typeof data.error === "string" ? data.error : tr("job.transcript.downloadError"));
+      return;
+    }
+    const filename =
+      res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `transcript.${format}`;
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function rerender() {
+    const clipIds = affectedClipIds;
+    setAffectedClipIds([]);
+    const res = await fetch(`/api/jobs/${jobId}/transcript/rerender`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+      body: JSON.stringify({ clipIds })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(typeof data.error === "string" ? data.error : tr("job.transcript.error"));
+      return;
+    }
+    const queued = ((data.tasks || []) as Array<{ clip_id: string }>).map((task) => task.clip_id);
+    if (queued.length) onRerenderQueued(queued);
+  }
+
+  if (!enabled) return null;
+
+  return (
+    <Card className="rounded-xl border-border/70">
+      <CardHeader>
+        <CardTitle>{tr("job.transcript.title")}</CardTitle>
+        <CardDescription>
+          {tr("job.transcript.body")}
+          {editedAt ? ` ${tr("job.transcript.editedAt")} ${new Date(editedAt).toLocaleString()}.` : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {segments.length ? (
+          <div className="max-h-96 space-y-2 overflow-y-auto pr-1">
+            {segments.map((segment, index) => (
+              <div key={`${segment.start}-${index}`} className="grid gap-2 sm:grid-cols-[88px_1fr]">
+                <div className="flex items-start gap-1 pt-2 font-mono text-xs text-muted-foreground">
+                  {formatTimestamp(segment.start)}
+                  {segment.speaker ? <Badge variant="secondary">{segment.speaker}</Badge> : null}
+                </div>
+                <Textarea
+                  rows={2}
+                  value={drafts[index] ?? segment.text}
+                  onChange={(event) => setDrafts((prev) => ({ ...prev, [index]: event.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{tr("job.transcript.empty")}</p>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground">{tr("job.transcript.download")}</span>
+            {TRANSCRIPT_EXPORT_FORMATS.map((format) => (
+              <Button key={format} size="sm" variant="outline" disabled={!segments.length} onClick={() => download(format)}>
+                {format.toUpperCase()}
+              </Button>
+            ))}
+          </div>
+          <Button disabled={saving || !edits.length} onClick={save}>
+            {tr("job.transcript.save")}
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={affectedClipIds.length > 0} onOpenChange={(open) => !open && setAffectedClipIds([])}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{tr("job.transcript.rerenderTitle")}</DialogTitle>
+            <DialogDescription>
+              {tr("job.transcript.rerenderBody").replace("{count}", String(affectedClipIds.length))}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="ghost" onClick={() => setAffectedClipIds([])}>
+              {tr("job.transcript.rerenderLater")}
+            </Button>
+            <Button onClick={rerender}>{tr("job.transcript.rerenderConfirm")}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
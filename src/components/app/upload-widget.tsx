@@ -13,7 +13,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import { supabaseBrowser } from "@/lib/supabase-browser";
-import { DEFAULT_GENERATION_CONFIG, type ClipGenre, type ClipLengthPreset, type ClipStyle, type GenerationConfig } from "@/lib/types";
+import {
+  DEFAULT_GENERATION_CONFIG,
+  SOURCE_LANGUAGES,
+  type ClipGenre,
+  type ClipLengthPreset,
+  type ClipStyle,
+  type GenerationConfig,
+  type SourceLanguage
+} from "@/lib/types";
 import { useLanguage } from "@/components/app/language-provider";
 
 type UploadWidgetProps = {
@@ -46,6 +54,20 @@ const GENRE_LABELS: Record<ClipGenre, string> = {
   Other: "Outro"
 };
 
+const SOURCE_LANGUAGE_LABELS: Record<SourceLanguage, string> = {
+  auto: "Detectar automaticamente",
+  pt: "Português",
+  en: "Inglês",
+  es: "Espanhol",
+  fr: "Francês",
+  de: "Alemão",
+  it: "Italiano",
+  nl: "Holandês",
+  ja: "Japonês",
+  ko: "Coreano",
+  zh: "Chinês"
+};
+
 const BUILT_IN_PRESETS: Array<{
   id: string;
   label: string;
@@ -231,6 +253,7 @@ export function UploadWidget({ onUploaded }: UploadWidgetProps) {
       clipCount: generationConfig.clipCount,
       clipLengthMaxS: generationConfig.clipLengthMaxS,
       autoHook: generationConfig.autoHook,
+      sourceLanguage: generationConfig.sourceLanguage,
       includeMomentText: generationConfig.includeMomentText.trim(),
       timeframeStartS,
       timeframeEndS,
@@ -397,6 +420,7 @@ export function UploadWidget({ onUploaded }: UploadWidgetProps) {
           clipCount: generationConfig.clipCount,
           clipLengthMaxS: generationConfig.clipLengthMaxS,
           autoHook: generationConfig.autoHook,
+          sourceLanguage: generationConfig.sourceLanguage,
           includeMomentText: generationConfig.includeMomentText.trim(),
           timeframeStartS,
           timeframeEndS,
@@ -682,6 +706,26 @@ export function UploadWidget({ onUploaded }: UploadWidgetProps) {
               </button>
             </FormSection>
 
+            <FormSection title="Idioma do vídeo" helper="Usado na transcrição, tradução e metadados dos clipes.">
+              <Select
+                value={generationConfig.sourceLanguage}
+                onValueChange={(value) =>
+                  setGenerationConfig((prev) => ({ ...prev, sourceLanguage: value as SourceLanguage }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o idioma" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOURCE_LANGUAGES.map((language) => (
+                    <SelectItem key={language} value={language}>
+                      {SOURCE_LANGUAGE_LABELS[language]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormSection>
+
             <FormSection title="Incluir momento específico" helper="Opcional. Exemplo: “seção de preços”">
               <Textarea
                 value={generationConfig.includeMomentText}
@@ -0,0 +1,107 @@
+import crypto from "node:crypto";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { supabaseAdmin } from "@/lib/supabase";
+
+export const API_KEY_SCOPES = ["jobs:read", "jobs:write"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).max(API_KEY_SCOPES.length),
+  rateLimitPerMinute: z.number().int().min(1).max(600).default(60)
+});
+
+export type ApiKeyAuth =
+  | { ok: true; userId: string; keyId: string; headers: Record<string, string> }
+  | { ok: false; status: number; error: string; headers?: Record<string, string> };
+
+const KEY_PREFIX = "mk_";
+const DISPLAY_PREFIX_LENGTH = 10;
+const RATE_WINDOW_SECONDS = 60;
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export function hashApiKey(key: string) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey() {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+export function hasApiKeyScope(scopes: unknown, scope: ApiKeyScope) {
+  return Array.isArray(scopes) && scopes.includes(scope);
+}
+
+async function consumeRateLimit(keyId: string, limit: number) {
+  const { data: window, error } = await supabaseAdmin
+    .rpc("consume_api_key_rate_limit", { p_key_id: keyId, p_window_seconds: RATE_WINDOW_SECONDS })
+    .single<{ window_start: string; request_count: number }>();
+  if (error || !window) return { ok: false as const, error: error?.message || "Could not check the rate limit" };
+
+  const resetAt = new Date(window.window_start).getTime() + RATE_WINDOW_SECONDS * 1000;
+  return {
+    ok: true as const,
+    allowed: window.request_count <= limit,
+    remaining: Math.max(0, limit - window.request_count),
+    resetSec: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+  };
+}
+
+export async function authenticateApiKey(request: NextRequest, scope: ApiKeyScope): Promise<ApiKeyAuth> {
+  const auth = request.headers.get("authorization");
+  const token = auth?.startsWith("Bearer ") ? auth.replace("Bearer ", "").trim() : "";
+  if (!token.startsWith(KEY_PREFIX)) return { ok: false, status: 401, error: "Missing API key" };
+
+  const { data: key, error } = await supabaseAdmin
+    .from("api_keys")
+    .select("id,user_id,scopes,rate_limit_per_minute,last_used_at,revoked_at")
+    .eq("key_hash", hashApiKey(token))
+    .maybeSingle();
+  if (error?.message?.includes("api_keys")) {
+    return {
+      ok: false,
+      status: 503,
+      error: "Tabela api_keys ausente. Rode as migrations do Supabase e tente novamente."
+    };
+  }
+  if (error) return { ok: false, status: 500, error: error.message };
+  if (!key || key.revoked_at) return { ok: false, status: 401, error: "Invalid API key" };
+  if (!hasApiKeyScope(key.scopes, scope)) {
+    return { ok: false, status: 403, error: `API key is missing the ${scope} scope` };
+  }
+
+  const limit = Number(key.rate_limit_per_minute) || 60;
+  const rate = await consumeRateLimit(key.id, limit);
+  if (!rate.ok) {
+    if (rate.error.includes("consume_api_key_rate_limit") || rate.error.includes("api_key_rate_limits")) {
+      return {
+        ok: false,
+        status: 503,
+        error: "Tabela api_key_rate_limits ausente. Rode as migrations do Supabase e tente novamente."
+      };
+    }
+    return { ok: false, status: 500, error: rate.error };
+  }
+  const headers = {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(rate.remaining),
+    "X-RateLimit-Reset": String(rate.resetSec)
+  };
+  if (!rate.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      error: "Rate limit exceeded",
+      headers: { ...headers, "Retry-After": String(rate.resetSec) }
+    };
+  }
+
+  if (!key.last_used_at || Date.now() - new Date(key.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await supabaseAdmin.from("api_keys").update({ last_used_at: new Date().toISOString() }).eq("id", key.id);
+  }
+
+  return { ok: true, userId: key.user_id, keyId: key.id, headers };
+}
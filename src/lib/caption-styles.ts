@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+export const captionStyleSchema = z.object({
+  fontFamily: z.string().min(1).max(60),
+  fontSize: z.number().int().min(16).max(120),
+  bold: z.boolean(),
+  primaryColor: hexColor,
+  highlightColor: hexColor,
+  outlineColor: hexColor,
+  outlineWidth: z.number().min(0).max(10),
+  shadow: z.number().min(0).max(10),
+  backgroundBox: z.boolean(),
+  backgroundColor: hexColor,
+  backgroundOpacity: z.number().min(0).max(1),
+  verticalPosition: z.number().min(0.02).max(0.9),
+  maxCharsPerLine: z.number().int().min(10).max(60)
+});
+
+export type CaptionStyle = z.infer<typeof captionStyleSchema>;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: "Arial",
+  fontSize: 52,
+  bold: true,
+  primaryColor: "#FFFFFF",
+  highlightColor: "#FFD700",
+  outlineColor: "#121212",
+  outlineWidth: 2.4,
+  shadow: 0,
+  backgroundBox: false,
+  backgroundColor: "#000000",
+  backgroundOpacity: 0.55,
+  verticalPosition: 0.11,
+  maxCharsPerLine: 34
+};
+
+export function parseCaptionStyle(input: unknown): CaptionStyle | null {
+  const parsed = captionStyleSchema.safeParse(input);
+  return parsed.success ? parsed.data : null;
+}
+
+export function toAssColor(hex: string, opacity = 1) {
+  const value = hex.replace("#", "");
+  const alpha = Math.round((1 - Math.max(0, Math.min(1, opacity))) * 255);
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+  return `&H${alpha.toString(16).padStart(2, "0")}${b}${g}${r}`.toUpperCase();
+}
@@ -1,5 +1,6 @@
 import { supabaseAdmin } from "@/lib/supabase";
-import { CropConfig, DEFAULT_GENERATION_CONFIG } from "@/lib/types";
+import { CropConfig, DEFAULT_GENERATION_CONFIG, type JobRow } from "@/lib/types";
+import { recommendedLayoutForGenre } from "@/lib/layouts";
 
 export async function createJob(input: {
   jobId?: string;
@@ -15,8 +16,11 @@ export async function createJob(input: {
     y: 0.7,
     width: 0.26,
     height: 0.26,
-    layout: "TOP_WEBCAM_BOTTOM_SCREEN",
+    layout: recommendedLayoutForGenre(DEFAULT_GENERATION_CONFIG.genre),
     captionPreset: "BOLD",
+    captionMode: "SEGMENT",
+    captionStyleId: null,
+    captionSpeakerColors: false,
     captionLanguage: "source",
     outputPreset: "INSTAGRAM_REELS"
   };
@@ -84,6 +88,6 @@ export async function getJobForUser(jobId: string, userId: string) {
     .select("*")
     .eq("id", jobId)
     .eq("user_id", userId)
-    .maybeSingle();
+    .maybeSingle<JobRow>();
   return data;
 }
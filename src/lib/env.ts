@@ -5,10 +5,16 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().min(1),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
   INTERNAL_CRON_SECRET: z.string().min(1),
-  TRANSCRIBE_PROVIDER: z.enum(["stub", "faster_whisper"]).default("stub"),
-  TRANSCRIBE_LANGUAGE: z.string().min(2).max(12).default("pt"),
+  TRANSCRIBE_PROVIDER: z.enum(["stub", "faster_whisper", "whisper_cpp", "openai_compatible"]).default("stub"),
+  TRANSCRIBE_LANGUAGE: z.string().min(2).max(12).default("auto"),
   FASTER_WHISPER_MODEL: z.string().min(1).default("small"),
   FASTER_WHISPER_COMPUTE_TYPE: z.string().min(1).default("int8"),
+  WHISPER_CPP_BIN: z.string().min(1).default("whisper-cli"),
+  WHISPER_CPP_MODEL: z.string().min(1).default("models/ggml-small.bin"),
+  TRANSCRIBE_API_BASE_URL: z.string().url().default("https://api.openai.com/v1"),
+  TRANSCRIBE_API_MODEL: z.string().min(1).default("whisper-1"),
+  DIARIZATION_MODE: z.enum(["off", "auto", "always"]).default("auto"),
+  DIARIZATION_MAX_SPEAKERS: z.coerce.number().int().min(2).max(6).default(3),
   SEGMENT_PROVIDER: z.enum(["ollama"]).default("ollama"),
   OLLAMA_BASE_URL: z.string().url().default("http://localhost:11434"),
   OLLAMA_MODEL: z.string().min(1).default("qwen2.5:14b-instruct"),
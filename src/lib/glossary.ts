@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type { TimedSegment, TimedWord } from "@/lib/transcript";
+
+export const glossaryTermSchema = z.object({
+  term: z.string().trim().min(1).max(80),
+  aliases: z.array(z.string().trim().min(1).max(80)).max(20).default([]),
+  doNotTranslate: z.boolean().default(true)
+});
+
+export type GlossaryTerm = z.infer<typeof glossaryTermSchema>;
+
+const MAX_PROMPT_CHARS = 600;
+const EDGE_PUNCTUATION = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function variantsOf(term: GlossaryTerm) {
+  return Array.from(new Set([term.term, ...term.aliases].map((value) => value.trim()).filter(Boolean)));
+}
+
+function splitEdges(word: string) {
+  const match = word.match(EDGE_PUNCTUATION);
+  return { lead: match?.[1] || "", core: match?.[2] || word, trail: match?.[3] || "" };
+}
+
+export function glossaryPrompt(terms: GlossaryTerm[]) {
+  const joined = terms.map((term) => term.term).join(", ");
+  return joined ? joined.slice(0, MAX_PROMPT_CHARS) : "";
+}
+
+export function protectedGlossaryTerms(terms: GlossaryTerm[]) {
+  return terms.filter((term) => term.doNotTranslate).map((term) => term.term);
+}
+
+export function applyGlossaryToText(text: string, terms: GlossaryTerm[]) {
+  let next = text;
+  for (const term of terms) {
+    for (const variant of variantsOf(term)) {
+      const pattern = variant.split(/\s+/).map(escapeRegExp).join("\\s+");
+      next = next.replace(new RegExp(`(?<![\\p{L}\\p{N}_])${pattern}(?![\\p{L}\\p{N}_])`, "giu"), term.term);
+    }
+  }
+  return next;
+}
+
+export function applyGlossaryToWords(words: TimedWord[], terms: GlossaryTerm[]) {
+  let next = [...words];
+  for (const term of terms) {
+    for (const variant of variantsOf(term)) {
+      const tokens = variant.toLowerCase().split(/\s+/);
+      const merged: TimedWord[] = [];
+      for (let i = 0; i < next.length; i += 1) {
+        const window = next.slice(i, i + tokens.length);
+        const matches =
+          window.length === tokens.length &&
+          window.every((word, index) => splitEdges(word.word).core.toLowerCase() === tokens[index]);
+        if (!matches) {
+          merged.push(next[i]);
+          continue;
+        }
+        const first = splitEdges(window[0].word);
+        const last = splitEdges(window[window.length - 1].word);
+        merged.push({
+          start: window[0].start,
+          end: window[window.length - 1].end,
+          word: `${first.lead}${term.term}${last.trail}`
+        });
+        i += tokens.length - 1;
+      }
+      next = merged;
+    }
+  }
+  return next;
+}
+
+export function applyGlossary<T extends { text: string; segments: TimedSegment[]; words: TimedWord[] }>(
+  transcript: T,
+  terms: GlossaryTerm[]
+): T {
+  if (!terms.length) return transcript;
+  return {
+    ...transcript,
+    text: applyGlossaryToText(transcript.text, terms),
+    segments: transcript.segments.map((segment) => ({ ...segment, text: applyGlossaryToText(segment.text, terms) })),
+    words: applyGlossaryToWords(transcript.words, terms)
+  };
+}
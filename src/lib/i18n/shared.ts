@@ -73,6 +73,7 @@ export const messages: Record<AppLocale, Messages> = {
     "dashboard.processing": "Processando",
     "dashboard.completed": "Concluídos",
     "dashboard.failed": "Falharam",
+    "dashboard.cancelled": "Cancelados",
     "dashboard.videoProcessing": "Processamento de vídeos",
     "dashboard.videoProcessingBody": "Acompanhe cada upload até os clipes finais.",
     "dashboard.all": "Todos",
@@ -126,8 +127,51 @@ export const messages: Record<AppLocale, Messages> = {
     "job.previewBody": "Ajuste valores do recorte da webcam antes de gerar.",
     "job.previewHelp": "A prévia ajuda a validar enquadramento antes da geração.",
     "job.captionStyle": "Estilo de legenda",
+    "job.captionStyle.new": "Novo estilo",
+    "job.captionStyle.edit": "Editar estilo",
+    "job.captionStyleEditor.title": "Estilo de legenda personalizado",
+    "job.captionStyleEditor.body": "Defina fonte, cores e posição das legendas queimadas no clipe.",
+    "job.captionStyleEditor.name": "Nome",
+    "job.captionStyleEditor.fontFamily": "Fonte",
+    "job.captionStyleEditor.fontSize": "Tamanho da fonte",
+    "job.captionStyleEditor.bold": "Negrito",
+    "job.captionStyleEditor.primaryColor": "Cor do texto",
+    "job.captionStyleEditor.highlightColor": "Cor de destaque",
+    "job.captionStyleEditor.outlineColor": "Cor do contorno",
+    "job.captionStyleEditor.outlineWidth": "Espessura do contorno",
+    "job.captionStyleEditor.shadow": "Sombra",
+    "job.captionStyleEditor.backgroundBox": "Caixa de fundo",
+    "job.captionStyleEditor.backgroundColor": "Cor da caixa",
+    "job.captionStyleEditor.backgroundOpacity": "Opacidade da caixa (%)",
+    "job.captionStyleEditor.verticalPosition": "Distância da base (%)",
+    "job.captionStyleEditor.maxCharsPerLine": "Máx. caracteres por linha",
+    "job.captionStyleEditor.save": "Salvar estilo",
+    "job.captionStyleEditor.delete": "Excluir estilo",
+    "job.captionStyleEditor.saved": "Estilo de legenda salvo.",
+    "job.captionStyleEditor.deleted": "Estilo de legenda excluído.",
     "job.captionLanguage": "Idioma da legenda",
+    "job.captionMode": "Animação da legenda",
+    "job.captionMode.segment": "Frase inteira",
+    "job.captionMode.karaoke": "Palavra por palavra (karaokê)",
+    "job.captionSpeakerColors": "Colorir legendas por falante",
+    "job.rerenderClips": "Renderizar clipes novamente",
+    "job.rerenderClipsQueued": "Clipes enfileirados para nova renderização com o recorte e as legendas atuais.",
+    "job.cancel": "Cancelar processamento",
+    "job.cancelRequested": "Cancelamento solicitado. O worker vai parar na próxima etapa.",
+    "job.cancelled": "Job cancelado.",
+    "job.cancelError": "Não foi possível cancelar o job",
+    "job.retryHistory": "Tentativas anteriores",
+    "job.retryAttempt": "Tentativa {attempt} falhou às",
     "job.outputFormat": "Formato de saída",
+    "job.webcamDetected": "Webcam detectada",
+    "job.layout": "Layout",
+    "job.layoutHelp": "Define como webcam e tela são posicionadas no clipe vertical.",
+    "job.layout.recommended": "recomendado",
+    "job.layout.topWebcam": "Webcam em cima, tela embaixo",
+    "job.layout.bottomWebcam": "Tela em cima, webcam embaixo",
+    "job.layout.pip": "Webcam no canto (PiP)",
+    "job.layout.bubble": "Tela com bolha de facecam",
+    "job.layout.talkingHead": "Tela cheia (talking head)",
     "job.outputPreset.instagramReels": "Instagram Reels (9:16)",
     "job.outputPreset.youtubeShorts": "YouTube Shorts (9:16)",
     "job.outputPreset.tiktok": "TikTok (9:16)",
@@ -191,6 +235,20 @@ export const messages: Record<AppLocale, Messages> = {
     "job.adjustClipSuccess": "Clipe atualizado",
     "job.adjustClipError": "Não foi possível ajustar o clipe",
     "job.adjustClipInvalid": "Defina início e fim válidos (fim maior que início)",
+    "job.transcript.title": "Transcrição",
+    "job.transcript.body": "Corrija palavras mal reconhecidas (nomes de produtos, código) antes de publicar.",
+    "job.transcript.editedAt": "Editada em",
+    "job.transcript.empty": "Transcrição indisponível para este job.",
+    "job.transcript.save": "Salvar transcrição",
+    "job.transcript.saved": "Transcrição salva",
+    "job.transcript.error": "Não foi possível salvar a transcrição",
+    "job.transcript.rerenderTitle": "Atualizar legendas dos clipes?",
+    "job.transcript.rerenderBody": "{count} clipe(s) usam os trechos editados. Renderizar novamente com as legendas corrigidas?",
+    "job.transcript.rerenderConfirm": "Renderizar novamente",
+    "job.transcript.rerenderLater": "Agora não",
+    "job.transcript.rerenderQueued": "Clipes enfileirados para nova renderização",
+    "job.transcript.download": "Baixar:",
+    "job.transcript.downloadError": "Não foi possível baixar a transcrição",
     "job.queueError": "Não foi possível enfileirar o vídeo",
     "job.processingSteps.transcribing": "Transcrevendo",
     "job.processingSteps.selecting": "Selecionando clipes",
@@ -254,7 +312,51 @@ export const messages: Record<AppLocale, Messages> = {
     "job.sourcePreviewAria": "Source video preview",
     "job.clipPreviewAria": "Clip preview",
     "job.outputFormat": "Output format",
+    "job.webcamDetected": "Webcam detected",
+    "job.layout": "Layout",
+    "job.layoutHelp": "Controls how webcam and screen are placed in the vertical clip.",
+    "job.layout.recommended": "recommended",
+    "job.layout.topWebcam": "Webcam on top, screen below",
+    "job.layout.bottomWebcam": "Screen on top, webcam below",
+    "job.layout.pip": "Corner webcam (PiP)",
+    "job.layout.bubble": "Screen with facecam bubble",
+    "job.layout.talkingHead": "Full frame (talking head)",
+    "job.captionStyle": "Caption style",
+    "job.captionStyle.new": "New style",
+    "job.captionStyle.edit": "Edit style",
+    "job.captionStyleEditor.title": "Custom caption style",
+    "job.captionStyleEditor.body": "Set the font, colors and position of the captions burned into the clip.",
+    "job.captionStyleEditor.name": "Name",
+    "job.captionStyleEditor.fontFamily": "Font",
+    "job.captionStyleEditor.fontSize": "Font size",
+    "job.captionStyleEditor.bold": "Bold",
+    "job.captionStyleEditor.primaryColor": "Text color",
+    "job.captionStyleEditor.highlightColor": "Highlight color",
+    "job.captionStyleEditor.outlineColor": "Outline color",
+    "job.captionStyleEditor.outlineWidth": "Outline width",
+    "job.captionStyleEditor.shadow": "Shadow",
+    "job.captionStyleEditor.backgroundBox": "Background box",
+    "job.captionStyleEditor.backgroundColor": "Box color",
+    "job.captionStyleEditor.backgroundOpacity": "Box opacity (%)",
+    "job.captionStyleEditor.verticalPosition": "Distance from bottom (%)",
+    "job.captionStyleEditor.maxCharsPerLine": "Max characters per line",
+    "job.captionStyleEditor.save": "Save style",
+    "job.captionStyleEditor.delete": "Delete style",
+    "job.captionStyleEditor.saved": "Caption style saved.",
+    "job.captionStyleEditor.deleted": "Caption style deleted.",
     "job.captionLanguage": "Caption language",
+    "job.captionMode": "Caption animation",
+    "job.captionMode.segment": "Whole phrase",
+    "job.captionMode.karaoke": "Word by word (karaoke)",
+    "job.captionSpeakerColors": "Color captions per speaker",
+    "job.rerenderClips": "Re-render clips",
+    "job.rerenderClipsQueued": "Clips queued for re-render with the current crop and captions.",
+    "job.cancel": "Cancel processing",
+    "job.cancelRequested": "Cancellation requested. The worker will stop at the next step.",
+    "job.cancelled": "Job cancelled.",
+    "job.cancelError": "Could not cancel the job",
+    "job.retryHistory": "Previous attempts",
+    "job.retryAttempt": "Attempt {attempt} failed at",
     "job.outputPreset.instagramReels": "Instagram Reels (9:16)",
     "job.outputPreset.youtubeShorts": "YouTube Shorts (9:16)",
     "job.outputPreset.tiktok": "TikTok (9:16)",
@@ -294,6 +396,20 @@ export const messages: Record<AppLocale, Messages> = {
     "job.pausePreview": "Pause",
     "job.resetSelection": "Reset selection",
     "job.adjustClipSuccess": "Clip updated",
+    "job.transcript.title": "Transcript",
+    "job.transcript.body": "Fix misheard words (product names, code identifiers) before publishing.",
+    "job.transcript.editedAt": "Edited on",
+    "job.transcript.empty": "Transcript not available for this job.",
+    "job.transcript.save": "Save transcript",
+    "job.transcript.saved": "Transcript saved",
+    "job.transcript.error": "Could not save the transcript",
+    "job.transcript.rerenderTitle": "Update clip captions?",
+    "job.transcript.rerenderBody": "{count} clip(s) use the edited lines. Re-render them with corrected captions?",
+    "job.transcript.rerenderConfirm": "Re-render",
+    "job.transcript.rerenderLater": "Not now",
+    "job.transcript.rerenderQueued": "Clips queued for re-render",
+    "job.transcript.download": "Download:",
+    "job.transcript.downloadError": "Could not download the transcript",
     "job.adjustClipError": "Could not adjust clip",
     "job.adjustClipInvalid": "Enter a valid range (end must be greater than start)",
     "job.queueError": "Could not queue video",
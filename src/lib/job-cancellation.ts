@@ -0,0 +1,25 @@
+import type { JobStatus } from "@/lib/types";
+
+export const CANCELLABLE_QUEUED_STATUSES: JobStatus[] = ["PENDING", "UPLOADED", "READY_TO_PROCESS"];
+
+// Processing jobs only get a cancel request; the worker stops at its next checkpoint.
+// Queued jobs never reached a worker and move straight to CANCELLED.
+export type CancellationPlan = "REQUEST" | "CANCEL";
+
+export function planJobCancellation(status: string): CancellationPlan | null {
+  if (status === "PROCESSING") return "REQUEST";
+  if ((CANCELLABLE_QUEUED_STATUSES as string[]).includes(status)) return "CANCEL";
+  return null;
+}
+
+export function cancelledJobUpdate(now: string) {
+  return {
+    status: "CANCELLED" as const,
+    error_message: null,
+    finished_at: now,
+    processing_stage: "CANCELLED",
+    processing_progress: 0,
+    processing_note: "Cancelled by user.",
+    updated_at: now
+  };
+}
@@ -0,0 +1,96 @@
+export type JobProgressEvent = {
+  status: string;
+  stage: string | null;
+  progress: number;
+  note: string | null;
+  errorMessage: string | null;
+};
+
+export type JobClipEvent = {
+  clip_id: string;
+  clip_url: string;
+  title: string;
+  description: string;
+  hashtags: string[];
+  hook: string;
+  reason: string;
+  provider_metadata: Record<string, unknown>;
+};
+
+export type JobEndEvent = { status: string };
+
+export type JobEventHandlers = {
+  onProgress?: (event: JobProgressEvent) => void;
+  onClip?: (event: JobClipEvent) => void;
+  onEnd?: (event: JobEndEvent) => void;
+};
+
+export const JOB_TERMINAL_STATUSES = ["DONE", "FAILED", "EXPIRED", "CANCELLED"];
+
+const RECONNECT_DELAY_MS = 3000;
+
+export function formatSseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function dispatch(frame: string, handlers: JobEventHandlers) {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+  }
+  if (!data.length) return false;
+
+  const payload = JSON.parse(data.join("\n"));
+  if (event === "progress") handlers.onProgress?.(payload as JobProgressEvent);
+  if (event === "clip") handlers.onClip?.(payload as JobClipEvent);
+  if (event === "end") {
+    handlers.onEnd?.(payload as JobEndEvent);
+    return true;
+  }
+  return false;
+}
+
+export function subscribeJobEvents(
+  jobId: string,
+  headers: () => Promise<Record<string, string>>,
+  handlers: JobEventHandlers
+) {
+  const controller = new AbortController();
+
+  async function connect() {
+    const res = await fetch(`/api/jobs/${jobId}/events`, {
+      headers: await headers(),
+      cache: "no-store",
+      signal: controller.signal
+    });
+    if (!res.ok || !res.body) return res.status === 404 || res.status === 401;
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return false;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (dispatch(frame, handlers)) return true;
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  }
+
+  (async () => {
+    while (!controller.signal.aborted) {
+      const finished = await connect().catch(() => false);
+      if (finished || controller.signal.aborted) return;
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+    }
+  })().catch(console.error);
+
+  return () => controller.abort();
+}
@@ -0,0 +1,238 @@
+import { z } from "zod";
+import { createJob } from "@/lib/db";
+import { env } from "@/lib/env";
+import { recommendedLayoutForGenre } from "@/lib/layouts";
+import { supabaseAdmin } from "@/lib/supabase";
+import { JOB_PROCESSING_MODES, SOURCE_LANGUAGES, type JobRow } from "@/lib/types";
+import { canConsumeMinutes, ensureUserProfile } from "@/lib/usage";
+import { enqueueWebhookEvent } from "@/lib/webhook-queue";
+
+export const jobPatchSchema = z.object({
+  status: z.enum(["UPLOADED", "READY_TO_PROCESS", "FAILED"]).optional(),
+  mode: z.enum(JOB_PROCESSING_MODES).optional(),
+  clipStyle: z.enum(["Balanced", "Hooky", "Educational", "Story"]).optional(),
+  genre: z.enum(["Tutorial", "Podcast", "Talking Head", "Interview", "Demo", "Other"]).optional(),
+  clipCount: z.number().int().min(1).max(10).optional(),
+  clipLengthMaxS: z.union([z.literal(30), z.literal(60), z.literal(90), z.literal(180)]).optional(),
+  autoHook: z.boolean().optional(),
+  sourceLanguage: z.enum(SOURCE_LANGUAGES).optional(),
+  includeMomentText: z.string().max(300).optional(),
+  timeframeStartS: z.number().min(0).nullable().optional(),
+  timeframeEndS: z.number().min(0).nullable().optional(),
+  presetId: z.string().max(100).nullable().optional(),
+  templateId: z.string().uuid().nullable().optional()
+});
+
+export const uploadSignSchema = z.object({
+  filename: z.string().min(1),
+  durationSec: z.number().min(1)
+});
+
+export type JobPatch = z.infer<typeof jobPatchSchema>;
+export type UploadSign = z.infer<typeof uploadSignSchema>;
+
+export type JobRequestResult = {
+  status: number;
+  body: Record<string, unknown>;
+};
+
+export async function createSignedUpload(
+  userId: string,
+  email: string | null | undefined,
+  data: UploadSign
+): Promise<JobRequestResult> {
+  if (data.durationSec > env.MAX_UPLOAD_DURATION) {
+    return { status: 400, body: { error: "Upload duration exceeds MAX_UPLOAD_DURATION" } };
+  }
+
+  await ensureUserProfile(userId, email);
+  const minutesNeeded = Math.ceil(data.durationSec / 60);
+  const usage = await canConsumeMinutes(userId, minutesNeeded);
+  if (!usage.ok) {
+    return { status: 402, body: { error: `Insufficient minutes. Remaining ${usage.remaining} min.` } };
+  }
+
+  const jobId = crypto.randomUUID();
+  const key = `${userId}/${jobId}.mp4`;
+
+  const { data: signedData, error: signedErr } = await supabaseAdmin.storage
+    .from("uploads")
+    .createSignedUploadUrl(key);
+
+  if (signedErr || !signedData) {
+    return { status: 500, body: { error: signedErr?.message || "Could not sign upload" } };
+  }
+
+  await createJob({
+    jobId,
+    userId,
+    sourcePath: key,
+    originalName: data.filename,
+    durationSec: data.durationSec
+  });
+
+  return {
+    status: 200,
+    body: {
+      jobId,
+      path: key,
+      token: signedData.token,
+      signedUrl: signedData.signedUrl.startsWith("http")
+        ? signedData.signedUrl
+        : new URL(signedData.signedUrl, env.SUPABASE_URL).toString()
+    }
+  };
+}
+
+export async function applyJobPatch(job: JobRow, userId: string, data: JobPatch): Promise<JobRequestResult> {
+  if (
+    data.timeframeStartS !== undefined &&
+    data.timeframeEndS !== undefined &&
+    data.timeframeStartS !== null &&
+    data.timeframeEndS !== null &&
+    data.timeframeEndS <= data.timeframeStartS
+  ) {
+    return { status: 400, body: { error: "timeframeEndS must be greater than timeframeStartS" } };
+  }
+  const hasConfigUpdate =
+    data.clipStyle !== undefined ||
+    data.genre !== undefined ||
+    data.clipCount !== undefined ||
+    data.clipLengthMaxS !== undefined ||
+    data.autoHook !== undefined ||
+    data.sourceLanguage !== undefined ||
+    data.includeMomentText !== undefined ||
+    data.timeframeStartS !== undefined ||
+    data.timeframeEndS !== undefined ||
+    data.presetId !== undefined ||
+    data.templateId !== undefined;
+  if (!data.status && !hasConfigUpdate) return { status: 200, body: { ok: true } };
+
+  const mode = data.mode;
+  if (mode && data.status !== "READY_TO_PROCESS") {
+    return { status: 400, body: { error: "mode requires status READY_TO_PROCESS" } };
+  }
+  if (mode && ["READY_TO_PROCESS", "PROCESSING"].includes(job.status)) {
+    return { status: 409, body: { error: `Job is already ${job.status}` } };
+  }
+  if (mode === "RESELECT" && !(Array.isArray(job.transcript_segments) && job.transcript_segments.length)) {
+    return { status: 409, body: { error: "No stored transcript to reselect from. Run a full generation first." } };
+  }
+  if (mode === "RERENDER" && !(Array.isArray(job.suggestions) && job.suggestions.length)) {
+    return { status: 409, body: { error: "No selected clips to re-render. Run a full generation first." } };
+  }
+
+  if (
+    !mode &&
+    data.status === "READY_TO_PROCESS" &&
+    ["PROCESSING", "DONE"].includes(job.status)
+  ) {
+    return { status: 200, body: { ok: true, skipped: `already ${job.status}` } };
+  }
+
+  const cropConfig = job.crop_config && typeof job.crop_config === "object" ? job.crop_config : null;
+  const followsGenreLayout =
+    data.genre !== undefined && cropConfig && cropConfig.layout === recommendedLayoutForGenre(job.genre);
+  const genreCropConfig = followsGenreLayout
+    ? { crop_config: { ...cropConfig, layout: recommendedLayoutForGenre(data.genre) } }
+    : {};
+
+  const sourceLanguageUpdate =
+    data.sourceLanguage !== undefined
+      ? { source_language_override: data.sourceLanguage === "auto" ? null : data.sourceLanguage }
+      : {};
+
+  const updatePayload = {
+    ...(data.status ? { status: data.status } : {}),
+    ...(data.status === "READY_TO_PROCESS"
+      ? {
+          processing_mode: mode || "FULL",
+          cancel_requested_at: null,
+          attempt_count: 0,
+          next_attempt_at: null,
+          retry_history: []
+        }
+      : {}),
+    ...(data.status
+      ? {
+          processing_stage: data.status === "UPLOADED" ? "UPLOADED" : data.status === "READY_TO_PROCESS" ? "QUEUED" : null,
+          processing_progress: data.status === "UPLOADED" ? 0 : data.status === "READY_TO_PROCESS" ? 1 : 0,
+          processing_note:
+            data.status === "UPLOADED"
+              ? "Upload complete. Ready to generate clips."
+              : data.status === "READY_TO_PROCESS"
+                ? mode === "RESELECT"
+                  ? "Queued for clip reselection."
+                  : mode === "RERENDER"
+                    ? "Queued for re-render."
+                    : "Queued for processing."
+                : null
+        }
+      : {}),
+    ...(data.clipStyle !== undefined ? { clip_style: data.clipStyle } : {}),
+    ...(data.genre !== undefined ? { genre: data.genre } : {}),
+    ...genreCropConfig,
+    ...(data.clipCount !== undefined ? { desired_clip_count: data.clipCount } : {}),
+    ...(data.clipLengthMaxS !== undefined ? { clip_length_max_s: data.clipLengthMaxS } : {}),
+    ...(data.autoHook !== undefined ? { auto_hook: data.autoHook } : {}),
+    ...sourceLanguageUpdate,
+    ...(data.includeMomentText !== undefined ? { include_moment_text: data.includeMomentText } : {}),
+    ...(data.timeframeStartS !== undefined ? { timeframe_start_s: data.timeframeStartS } : {}),
+    ...(data.timeframeEndS !== undefined ? { timeframe_end_s: data.timeframeEndS } : {}),
+    ...(data.presetId !== undefined ? { preset_id: data.presetId } : {}),
+    ...(data.templateId !== undefined ? { template_id: data.templateId } : {}),
+    updated_at: new Date().toISOString()
+  };
+
+  let { error } = await supabaseAdmin
+    .from("jobs")
+    .update(updatePayload)
+    .eq("id", job.id)
+    .eq("user_id", userId);
+
+  if (
+    error?.message?.includes("processing_stage") ||
+    error?.message?.includes("desired_clip_count") ||
+    error?.message?.includes("source_language_override") ||
+    error?.message?.includes("processing_mode") ||
+    error?.message?.includes("cancel_requested_at") ||
+    error?.message?.includes("attempt_count") ||
+    error?.message?.includes("next_attempt_at") ||
+    error?.message?.includes("retry_history")
+  ) {
+    const fallback = await supabaseAdmin
+      .from("jobs")
+      .update({
+        ...(data.status ? { status: data.status } : {}),
+        ...(data.clipStyle !== undefined ? { clip_style: data.clipStyle } : {}),
+        ...(data.genre !== undefined ? { genre: data.genre } : {}),
+        ...genreCropConfig,
+        ...(data.clipLengthMaxS !== undefined ? { clip_length_max_s: data.clipLengthMaxS } : {}),
+        ...(data.autoHook !== undefined ? { auto_hook: data.autoHook } : {}),
+        ...(data.includeMomentText !== undefined ? { include_moment_text: data.includeMomentText } : {}),
+        ...(data.timeframeStartS !== undefined ? { timeframe_start_s: data.timeframeStartS } : {}),
+        ...(data.timeframeEndS !== undefined ? { timeframe_end_s: data.timeframeEndS } : {}),
+        ...(data.presetId !== undefined ? { preset_id: data.presetId } : {}),
+        ...(data.templateId !== undefined ? { template_id: data.templateId } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq("id", job.id)
+      .eq("user_id", userId);
+    error = fallback.error;
+  }
+
+  if (error) return { status: 500, body: { error: error.message } };
+
+  if (data.status === "READY_TO_PROCESS") {
+    await supabaseAdmin.from("job_checkpoints").delete().eq("job_id", job.id);
+  }
+  if (data.status === "UPLOADED" && job.status !== "UPLOADED") {
+    await enqueueWebhookEvent(supabaseAdmin, userId, "job.uploaded", {
+      jobId: job.id,
+      status: "UPLOADED",
+      sourceFilename: job.source_filename
+    });
+  }
+
+  return { status: 200, body: { ok: true } };
+}
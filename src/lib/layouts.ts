@@ -0,0 +1,269 @@
+import type { ClipGenre } from "@/lib/types";
+
+export const LAYOUT_KEYS = [
+  "TOP_WEBCAM_BOTTOM_SCREEN",
+  "BOTTOM_WEBCAM_TOP_SCREEN",
+  "PIP_WEBCAM",
+  "SCREEN_FACECAM_BUBBLE",
+  "TALKING_HEAD"
+] as const;
+
+export type LayoutKey = (typeof LAYOUT_KEYS)[number];
+
+export type NormalizedRect = { x: number; y: number; width: number; height: number };
+
+export type LayoutRegion = {
+  role: "webcam" | "screen";
+  shape: "rect" | "circle";
+  source: NormalizedRect;
+  target: NormalizedRect;
+};
+
+export type LayoutFilterParams = {
+  webcam: NormalizedRect;
+  targetSize: { width: number; height: number };
+  postFilter?: string;
+};
+
+export type LayoutDefinition = {
+  key: LayoutKey;
+  usesWebcam: boolean;
+  preview: (webcam: NormalizedRect, targetSize: { width: number; height: number }) => LayoutRegion[];
+  buildFilter: (params: LayoutFilterParams) => string;
+};
+
+export const DEFAULT_LAYOUT: LayoutKey = "TOP_WEBCAM_BOTTOM_SCREEN";
+export const DEFAULT_WEBCAM_RECT: NormalizedRect = { x: 0.72, y: 0.7, width: 0.26, height: 0.26 };
+export const MIN_WEBCAM_RECT_SIZE = 0.05;
+
+const FULL_FRAME: NormalizedRect = { x: 0, y: 0, width: 1, height: 1 };
+const SPLIT_WEBCAM_BAND_RATIO = 0.35;
+const PIP_WIDTH_RATIO = 0.38;
+const BUBBLE_DIAMETER_RATIO = 0.34;
+const OVERLAY_MARGIN_RATIO = 0.04;
+const SOURCE_ASPECT_HINT = 16 / 9;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, max));
+}
+
+function evenPixels(value: number) {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+function f(value: number) {
+  return value.toFixed(4);
+}
+
+function cropExpression(rect: NormalizedRect) {
+  return `crop=iw*${f(rect.width)}:ih*${f(rect.height)}:iw*${f(rect.x)}:ih*${f(rect.y)}`;
+}
+
+function finish(label: string, postFilter?: string) {
+  return postFilter ? `${label}${postFilter}[vout]` : `${label}null[vout]`;
+}
+
+export function isLayoutKey(value: unknown): value is LayoutKey {
+  return typeof value === "string" && (LAYOUT_KEYS as readonly string[]).includes(value);
+}
+
+function readCoordinate(value: unknown) {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim()) return Number(value);
+  return Number.NaN;
+}
+
+export function normalizeWebcamRect(input: Partial<Record<keyof NormalizedRect, unknown>> | null | undefined): NormalizedRect {
+  const x = readCoordinate(input?.x);
+  const y = readCoordinate(input?.y);
+  const width = readCoordinate(input?.width);
+  const height = readCoordinate(input?.height);
+  if (![x, y, width, height].every(Number.isFinite)) return { ...DEFAULT_WEBCAM_RECT };
+
+  const safeX = clamp(x, 0, 1 - MIN_WEBCAM_RECT_SIZE);
+  const safeY = clamp(y, 0, 1 - MIN_WEBCAM_RECT_SIZE);
+  return {
+    x: safeX,
+    y: safeY,
+    width: clamp(width, MIN_WEBCAM_RECT_SIZE, 1 - safeX),
+    height: clamp(height, MIN_WEBCAM_RECT_SIZE, 1 - safeY)
+  };
+}
+
+export function screenRectForWebcam(webcam: NormalizedRect): NormalizedRect {
+  const strips: NormalizedRect[] = [
+    { x: 0, y: 0, width: webcam.x, height: 1 },
+    { x: webcam.x + webcam.width, y: 0, width: 1 - webcam.x - webcam.width, height: 1 },
+    { x: 0, y: 0, width: 1, height: webcam.y },
+    { x: 0, y: webcam.y + webcam.height, width: 1, height: 1 - webcam.y - webcam.height }
+  ];
+  const best = strips.reduce((acc, strip) => (strip.width * strip.height > acc.width * acc.height ? strip : acc));
+  if (best.width < MIN_WEBCAM_RECT_SIZE || best.height < MIN_WEBCAM_RECT_SIZE) return { ...FULL_FRAME };
+  return best;
+}
+
+function squareAroundCenter(rect: NormalizedRect): NormalizedRect {
+  const side = Math.min(rect.width * SOURCE_ASPECT_HINT, rect.height);
+  const width = side / SOURCE_ASPECT_HINT;
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - side) / 2,
+    width,
+    height: side
+  };
+}
+
+function fillChain(input: string, crop: string, width: number, height: number, output: string) {
+  return `[${input}]${crop}scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1[${output}];`;
+}
+
+function letterboxChain(prefix: string, crop: string, width: number, height: number, output: string) {
+  return (
+    `[${prefix}_bg_src]${crop}scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=18:2[${prefix}_bg];` +
+    `[${prefix}_src]${crop}scale=${width}:${height}:force_original_aspect_ratio=decrease[${prefix}_fg];` +
+    `[${prefix}_bg][${prefix}_fg]overlay=(W-w)/2:(H-h)/2,setsar=1[${output}];`
+  );
+}
+
+function splitBands(targetSize: { width: number; height: number }) {
+  const webcamHeight = evenPixels(targetSize.height * SPLIT_WEBCAM_BAND_RATIO);
+  return { webcamHeight, screenHeight: targetSize.height - webcamHeight };
+}
+
+function buildStackedFilter(params: LayoutFilterParams, webcamOnTop: boolean) {
+  const { width } = params.targetSize;
+  const { webcamHeight, screenHeight } = splitBands(params.targetSize);
+  const screenCrop = `${cropExpression(screenRectForWebcam(params.webcam))},`;
+  const order = webcamOnTop ? "[cam][screen]" : "[screen][cam]";
+
+  return (
+    "[0:v]setpts=PTS-STARTPTS,split=3[cam_src][screen_src][screen_bg_src];" +
+    fillChain("cam_src", `${cropExpression(params.webcam)},`, width, webcamHeight, "cam") +
+    letterboxChain("screen", screenCrop, width, screenHeight, "screen") +
+    finish(`${order}vstack=inputs=2,`, params.postFilter)
+  );
+}
+
+function stackedPreview(webcam: NormalizedRect, targetSize: { width: number; height: number }, webcamOnTop: boolean): LayoutRegion[] {
+  const webcamRatio = splitBands(targetSize).webcamHeight / targetSize.height;
+  const webcamTarget = { x: 0, y: webcamOnTop ? 0 : 1 - webcamRatio, width: 1, height: webcamRatio };
+  const screenTarget = { x: 0, y: webcamOnTop ? webcamRatio : 0, width: 1, height: 1 - webcamRatio };
+  return [
+    { role: "webcam", shape: "rect", source: webcam, target: webcamTarget },
+    { role: "screen", shape: "rect", source: screenRectForWebcam(webcam), target: screenTarget }
+  ];
+}
+
+function overlaySize(targetSize: { width: number; height: number }, widthRatio: number, aspect: number) {
+  const width = evenPixels(targetSize.width * widthRatio);
+  return { width, height: evenPixels(width / aspect) };
+}
+
+function pipAspect(webcam: NormalizedRect) {
+  return clamp((webcam.width * SOURCE_ASPECT_HINT) / webcam.height, 0.75, 1.78);
+}
+
+const LAYOUTS: Record<LayoutKey, LayoutDefinition> = {
+  TOP_WEBCAM_BOTTOM_SCREEN: {
+    key: "TOP_WEBCAM_BOTTOM_SCREEN",
+    usesWebcam: true,
+    preview: (webcam, targetSize) => stackedPreview(webcam, targetSize, true),
+    buildFilter: (params) => buildStackedFilter(params, true)
+  },
+  BOTTOM_WEBCAM_TOP_SCREEN: {
+    key: "BOTTOM_WEBCAM_TOP_SCREEN",
+    usesWebcam: true,
+    preview: (webcam, targetSize) => stackedPreview(webcam, targetSize, false),
+    buildFilter: (params) => buildStackedFilter(params, false)
+  },
+  PIP_WEBCAM: {
+    key: "PIP_WEBCAM",
+    usesWebcam: true,
+    preview: (webcam, targetSize) => {
+      const pip = overlaySize(targetSize, PIP_WIDTH_RATIO, pipAspect(webcam));
+      const margin = OVERLAY_MARGIN_RATIO;
+      return [
+        { role: "screen", shape: "rect", source: FULL_FRAME, target: FULL_FRAME },
+        {
+          role: "webcam",
+          shape: "rect",
+          source: webcam,
+          target: {
+            x: 1 - margin - pip.width / targetSize.width,
+            y: margin,
+            width: pip.width / targetSize.width,
+            height: pip.height / targetSize.height
+          }
+        }
+      ];
+    },
+    buildFilter: (params) => {
+      const { width, height } = params.targetSize;
+      const pip = overlaySize(params.targetSize, PIP_WIDTH_RATIO, pipAspect(params.webcam));
+      const margin = evenPixels(width * OVERLAY_MARGIN_RATIO);
+      return (
+        "[0:v]setpts=PTS-STARTPTS,split=3[cam_src][screen_src][screen_bg_src];" +
+        letterboxChain("screen", "", width, height, "screen") +
+        fillChain("cam_src", `${cropExpression(params.webcam)},`, pip.width, pip.height, "cam") +
+        finish(`[screen][cam]overlay=W-w-${margin}:${margin},`, params.postFilter)
+      );
+    }
+  },
+  SCREEN_FACECAM_BUBBLE: {
+    key: "SCREEN_FACECAM_BUBBLE",
+    usesWebcam: true,
+    preview: (webcam, targetSize) => {
+      const diameter = evenPixels(targetSize.width * BUBBLE_DIAMETER_RATIO);
+      const margin = OVERLAY_MARGIN_RATIO;
+      return [
+        { role: "screen", shape: "rect", source: screenRectForWebcam(webcam), target: FULL_FRAME },
+        {
+          role: "webcam",
+          shape: "circle",
+          source: squareAroundCenter(webcam),
+          target: {
+            x: margin,
+            y: margin,
+            width: diameter / targetSize.width,
+            height: diameter / targetSize.height
+          }
+        }
+      ];
+    },
+    buildFilter: (params) => {
+      const { width, height } = params.targetSize;
+      const diameter = evenPixels(width * BUBBLE_DIAMETER_RATIO);
+      const margin = evenPixels(width * OVERLAY_MARGIN_RATIO);
+      const screenCrop = `${cropExpression(screenRectForWebcam(params.webcam))},`;
+      return (
+        "[0:v]setpts=PTS-STARTPTS,split=3[cam_src][screen_src][screen_bg_src];" +
+        letterboxChain("screen", screenCrop, width, height, "screen") +
+        `[cam_src]${cropExpression(params.webcam)},crop='min(iw,ih)':'min(iw,ih)',scale=${diameter}:${diameter},format=yuva444p,` +
+        "geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':a='if(lte(hypot(X-W/2,Y-H/2),W/2),255,0)'[cam];" +
+        finish(`[screen][cam]overlay=${margin}:${margin},format=yuv420p,`, params.postFilter)
+      );
+    }
+  },
+  TALKING_HEAD: {
+    key: "TALKING_HEAD",
+    usesWebcam: false,
+    preview: () => [{ role: "webcam", shape: "rect", source: FULL_FRAME, target: FULL_FRAME }],
+    buildFilter: (params) => {
+      const { width, height } = params.targetSize;
+      return (
+        fillChain("0:v", "setpts=PTS-STARTPTS,", width, height, "head") +
+        finish("[head]", params.postFilter)
+      );
+    }
+  }
+};
+
+export function getLayout(key: LayoutKey): LayoutDefinition {
+  return LAYOUTS[key] || LAYOUTS[DEFAULT_LAYOUT];
+}
+
+export function recommendedLayoutForGenre(genre: ClipGenre | null | undefined): LayoutKey {
+  if (genre === "Podcast" || genre === "Interview" || genre === "Talking Head") return "TALKING_HEAD";
+  if (genre === "Demo") return "SCREEN_FACECAM_BUBBLE";
+  return DEFAULT_LAYOUT;
+}
@@ -0,0 +1,43 @@
+export function samePrimaryLanguage(a?: string | null, b?: string | null) {
+  if (!a || !b) return false;
+  return a.toLowerCase().split("-")[0] === b.toLowerCase().split("-")[0];
+}
+
+const METADATA_COPY = {
+  pt: {
+    clip: "Clipe",
+    keyMomentTitle: "Momento-chave do tutorial",
+    whyItWorks: "Por que este clipe funciona",
+    engagementHook: "Trecho com alto valor para engajamento",
+    retentionHook: "Trecho com grande potencial de retenção",
+    usefulHook: "Trecho útil com alto potencial de retenção",
+    relevantHook: "Trecho relevante para alto engajamento",
+    fallbackReason: "Segmento selecionado por fallback com base na transcrição.",
+    heuristicReason: "Momento de alto engajamento selecionado por pontuação de contexto e palavras-chave.",
+    educationalReason: "Momento educativo relevante para publicação",
+    scoreReason: (score: string, grade: string) => `Pontuação ${score} (${grade}) com foco em gancho e clareza.`,
+    deterministicReason: "Seleção por pontuação determinística.",
+    devHashtags: ["#programacao", "#dev", "#javascript", "#tutorial", "#aprendizado"],
+    defaultHashtags: ["#tutorial", "#cortes", "#educacao", "#aprender", "#criador"]
+  },
+  en: {
+    clip: "Clip",
+    keyMomentTitle: "Key tutorial moment",
+    whyItWorks: "Why this clip works",
+    engagementHook: "High-value moment for engagement",
+    retentionHook: "Moment with strong retention potential",
+    usefulHook: "Useful moment with high retention potential",
+    relevantHook: "Relevant moment for high engagement",
+    fallbackReason: "Fallback segment selected from the transcript.",
+    heuristicReason: "High-engagement moment selected by context and keyword scoring.",
+    educationalReason: "Educational moment worth publishing",
+    scoreReason: (score: string, grade: string) => `Score ${score} (${grade}) focused on hook and clarity.`,
+    deterministicReason: "Selected by deterministic scoring.",
+    devHashtags: ["#coding", "#webdev", "#javascript", "#tutorial", "#learnprogramming"],
+    defaultHashtags: ["#tutorial", "#learn", "#creator", "#shorts", "#education"]
+  }
+};
+
+export function metadataCopy(language: string) {
+  return samePrimaryLanguage(language, "pt") ? METADATA_COPY.pt : METADATA_COPY.en;
+}
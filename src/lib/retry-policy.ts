@@ -0,0 +1,38 @@
+import type { JobRetryAttempt } from "@/lib/types";
+
+export type FailureClass = "retryable" | "fatal";
+
+const RETRYABLE_PATTERNS = [
+  /timed? ?out/i,
+  /ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|EPIPE|ENOTFOUND|ENETUNREACH/,
+  /socket hang up/i,
+  /fetch failed/i,
+  /network/i,
+  /aborted/i,
+  /rate limit|too many requests/i,
+  /\((429|5\d\d)\)/,
+  /returned HTML/i,
+  /Could not parse JSON response from provider/i,
+  /returned invalid JSON/i,
+  /Could not upload/i,
+  /Could not create signed URL/i
+];
+
+function readSeconds(name: string, fallback: number) {
+  const parsed = Number(process.env[name] || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function classifyFailure(message: string): FailureClass {
+  return RETRYABLE_PATTERNS.some((pattern) => pattern.test(message)) ? "retryable" : "fatal";
+}
+
+export function retryDelayMs(attempt: number) {
+  const base = readSeconds("WORKER_RETRY_BASE_SECONDS", 30);
+  const max = readSeconds("WORKER_RETRY_MAX_SECONDS", 900);
+  return Math.round(Math.min(max, base * 2 ** Math.max(0, attempt - 1)) * 1000);
+}
+
+export function readRetryHistory(value: unknown): JobRetryAttempt[] {
+  return Array.isArray(value) ? (value as JobRetryAttempt[]) : [];
+}
@@ -1,6 +1,10 @@
 import { extractFeatures, keywordOverlapRatio } from "@/lib/selection/features";
 import type { CandidateWindow, NormalizedBlock, SelectionConfig } from "@/lib/selection/types";
 
+const DIALOGUE_GENRES = new Set(["podcast", "interview"]);
+const MIN_ANSWER_WORDS = 8;
+const MIN_ANSWER_SEC = 8;
+
 function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(value, max));
 }
@@ -28,6 +32,36 @@ function candidateText(blocks: NormalizedBlock[], start: number, end: number, ch
   return joined.slice(0, charLimit);
 }
 
+function dialogueFeatures(blocks: NormalizedBlock[], start: number, end: number) {
+  const inside = blocks.filter((block) => block.speaker && overlap(start, end, block.start_s, block.end_s) > 0);
+  const speakers = new Set(inside.map((block) => block.speaker));
+  let hasExchange = false;
+  for (let i = 0; i < inside.length - 1 && !hasExchange; i += 1) {
+    const question = inside[i];
+    const answer = inside[i + 1];
+    const answerHeard = answer.end_s <= end + 0.5 || end - answer.start_s >= MIN_ANSWER_SEC;
+    hasExchange =
+      /[?]/.test(question.text) &&
+      question.start_s >= start - 0.5 &&
+      answer.speaker !== question.speaker &&
+      answer.word_count >= MIN_ANSWER_WORDS &&
+      answerHeard;
+  }
+
+  const firstIndex = blocks.findIndex((block) => overlap(start, end, block.start_s, block.end_s) > 0);
+  const first = blocks[firstIndex];
+  const previous = firstIndex > 0 ? blocks[firstIndex - 1] : null;
+  const startsMidAnswer = Boolean(
+    first?.speaker && previous?.speaker && previous.speaker !== first.speaker && /[?]/.test(previous.text)
+  );
+
+  return {
+    speaker_count: speakers.size,
+    has_qa_exchange: hasExchange,
+    starts_mid_answer: startsMidAnswer
+  };
+}
+
 export function generateCandidates(blocks: NormalizedBlock[], config: SelectionConfig) {
   const scopedBlocks = blocks.filter((block) => {
     const startOk = config.timeframe_start_s === null || block.end_s > config.timeframe_start_s;
@@ -37,6 +71,7 @@ export function generateCandidates(blocks: NormalizedBlock[], config: SelectionC
   if (!scopedBlocks.length) return [] as CandidateWindow[];
 
   const durations = styleDurations(config);
+  const dialogueGenre = DIALOGUE_GENRES.has(config.genre);
   const scoredBlocks = scopedBlocks
     .map((block) => {
       const features = extractFeatures(block.scoring_text);
@@ -59,9 +94,14 @@ export function generateCandidates(blocks: NormalizedBlock[], config: SelectionC
   for (const entry of scoredBlocks) {
     for (const duration of durations) {
       const center = (entry.block.start_s + entry.block.end_s) / 2;
+      const opensExchange = dialogueGenre && Boolean(entry.block.speaker) && /[?]/.test(entry.block.text);
       const timeframeStart = config.timeframe_start_s ?? 0;
       const timeframeEnd = config.timeframe_end_s ?? Number.MAX_SAFE_INTEGER;
-      const start = clamp(center - duration / 2, timeframeStart, timeframeEnd - config.duration_min_s);
+      const start = clamp(
+        opensExchange ? entry.block.start_s - 0.4 : center - duration / 2,
+        timeframeStart,
+        timeframeEnd - config.duration_min_s
+      );
       const end = clamp(start + duration, start + config.duration_min_s, timeframeEnd);
       if (end <= start) continue;
       const text = candidateText(scopedBlocks, start, end, 360);
@@ -76,6 +116,7 @@ export function generateCandidates(blocks: NormalizedBlock[], config: SelectionC
         word_count: text.split(/\s+/).filter(Boolean).length,
         features_summary: {
           ...features,
+          ...dialogueFeatures(scopedBlocks, start, end),
           base_block_score: Number(entry.score.toFixed(3))
         }
       });
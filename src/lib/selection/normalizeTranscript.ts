@@ -25,13 +25,14 @@ export function normalizeTranscript(
     .map((segment) => ({
       start: Number(segment.start),
       end: Number(segment.end),
-      text: normalizeWhitespace(String(segment.text || ""))
+      text: normalizeWhitespace(String(segment.text || "")),
+      speaker: segment.speaker ?? null
     }))
     .filter((segment) => Number.isFinite(segment.start) && Number.isFinite(segment.end) && segment.end > segment.start && segment.text)
     .sort((a, b) => a.start - b.start);
 
   const blocks: NormalizedBlock[] = [];
-  let current: { start: number; end: number; texts: string[] } | null = null;
+  let current: { start: number; end: number; texts: string[]; speaker: string | null } | null = null;
 
   const flush = () => {
     if (!current) return;
@@ -47,6 +48,7 @@ export function normalizeTranscript(
       end_s: Number(current.end.toFixed(3)),
       text,
       scoring_text: stripFillerWords(text),
+      speaker: current.speaker,
       word_count: words.length,
       char_count: text.length,
       starts_at_sentence_boundary: startsSentence(text),
@@ -57,7 +59,7 @@ export function normalizeTranscript(
 
   for (const segment of sorted) {
     if (!current) {
-      current = { start: segment.start, end: segment.end, texts: [segment.text] };
+      current = { start: segment.start, end: segment.end, texts: [segment.text], speaker: segment.speaker };
       continue;
     }
 
@@ -65,6 +67,7 @@ export function normalizeTranscript(
     const gap = segment.start - current.end;
     const canMerge =
       gap <= maxGapSec &&
+      segment.speaker === current.speaker &&
       (blockDuration < minBlockSec || (blockDuration < maxBlockSec && !endsSentence(current.texts[current.texts.length - 1])));
 
     if (canMerge) {
@@ -73,7 +76,7 @@ export function normalizeTranscript(
       continue;
     }
     flush();
-    current = { start: segment.start, end: segment.end, texts: [segment.text] };
+    current = { start: segment.start, end: segment.end, texts: [segment.text], speaker: segment.speaker };
   }
 
   flush();
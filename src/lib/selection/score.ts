@@ -24,6 +24,10 @@ export function scoreCandidate(candidate: CandidateWindow, config: SelectionConf
   const density = wordsPerSecondScore(wordsPerSec);
   const informativeness = clamp01((features.keyword_density * 1.6) + (features.has_step_words ? 0.2 : 0) + (features.has_story_markers ? 0.15 : 0));
   const redFlags = features.contains_cta_noise ? 1 : 0;
+  const dialogueGenre = config.genre === "podcast" || config.genre === "interview";
+  const speakerCount = Number(candidate.features_summary.speaker_count || 0);
+  const exchange = candidate.features_summary.has_qa_exchange === true ? 1 : speakerCount >= 2 ? 0.35 : 0;
+  const startsMidAnswer = candidate.features_summary.starts_mid_answer === true ? 1 : 0;
 
   let hookWeight = 0.28;
   let infoWeight = 0.24;
@@ -59,7 +63,8 @@ export function scoreCandidate(candidate: CandidateWindow, config: SelectionConf
     (density * densityWeight) +
     (informativeness * infoWeight) +
     (momentMatch * momentWeight) -
-    (redFlags * 0.24);
+    (redFlags * 0.24) +
+    (dialogueGenre ? (exchange * 0.14) - (startsMidAnswer * 0.08) : 0);
 
   const total = Math.max(0, Math.min(100, raw * 100 * genreMultiplier));
   const grade: CandidateScore["grade"] = total >= 82 ? "A" : total >= 68 ? "B" : total >= 52 ? "C" : "D";
@@ -73,7 +78,8 @@ export function scoreCandidate(candidate: CandidateWindow, config: SelectionConf
       density: Number((density * 100).toFixed(2)),
       informativeness: Number((informativeness * 100).toFixed(2)),
       red_flags: Number((redFlags * 100).toFixed(2)),
-      include_moment: Number((momentMatch * 100).toFixed(2))
+      include_moment: Number((momentMatch * 100).toFixed(2)),
+      exchange: Number((exchange * 100).toFixed(2))
     }
   };
 }
@@ -28,6 +28,7 @@ export type TranscriptSegmentInput = {
   start: number;
   end: number;
   text: string;
+  speaker?: string | null;
 };
 
 export type NormalizedBlock = {
@@ -36,6 +37,7 @@ export type NormalizedBlock = {
   end_s: number;
   text: string;
   scoring_text: string;
+  speaker: string | null;
   word_count: number;
   char_count: number;
   starts_at_sentence_boundary: boolean;
@@ -62,6 +64,7 @@ export type CandidateScore = {
     informativeness: number;
     red_flags: number;
     include_moment: number;
+    exchange: number;
   };
 };
 
@@ -0,0 +1,227 @@
+import type { TimedSegment, TimedWord } from "@/lib/transcript";
+
+export const TRANSCRIPT_EXPORT_FORMATS = ["srt", "vtt", "txt", "json", "md"] as const;
+export type TranscriptExportFormat = (typeof TRANSCRIPT_EXPORT_FORMATS)[number];
+
+export type ExportableTranscript = {
+  title: string;
+  language: string | null;
+  text: string;
+  segments: TimedSegment[];
+  words: TimedWord[];
+};
+
+export type TranscriptChapter = { start: number; end: number; heading: string; segments: TimedSegment[] };
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8"
+};
+
+const PARAGRAPH_GAP_SEC = 2;
+const CHAPTER_GAP_SEC = 2.5;
+const CHAPTER_MIN_SEC = 45;
+const CHAPTER_MAX_SEC = 300;
+const HEADING_MAX_WORDS = 8;
+
+const TRANSITION_PREFIXES = [
+  "agora vamos",
+  "agora a gente",
+  "vamos falar",
+  "em seguida",
+  "próximo passo",
+  "outro ponto",
+  "por fim",
+  "para finalizar",
+  "now let's",
+  "let's talk about",
+  "moving on",
+  "next up",
+  "the next step",
+  "another thing",
+  "finally",
+  "to wrap up"
+];
+
+export function isTranscriptExportFormat(value: string): value is TranscriptExportFormat {
+  return (TRANSCRIPT_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function transcriptContentType(format: TranscriptExportFormat) {
+  return CONTENT_TYPES[format];
+}
+
+function pad(value: number, size = 2) {
+  return String(value).padStart(size, "0");
+}
+
+function splitTime(sec: number) {
+  const totalMs = Math.max(0, Math.round(sec * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor((totalMs % 3600000) / 60000),
+    s: Math.floor((totalMs % 60000) / 1000),
+    ms: totalMs % 1000
+  };
+}
+
+function srtTimestamp(sec: number) {
+  const t = splitTime(sec);
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)},${pad(t.ms, 3)}`;
+}
+
+function vttTimestamp(sec: number) {
+  const t = splitTime(sec);
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)}.${pad(t.ms, 3)}`;
+}
+
+export function chapterTimestamp(sec: number) {
+  const t = splitTime(sec);
+  return t.h ? `${t.h}:${pad(t.m)}:${pad(t.s)}` : `${pad(t.m)}:${pad(t.s)}`;
+}
+
+function startsWithTransition(text: string) {
+  const lower = text.toLowerCase();
+  return TRANSITION_PREFIXES.find((prefix) => lower.startsWith(prefix)) || null;
+}
+
+function chapterHeading(segments: TimedSegment[], index: number) {
+  const firstSentence = segments
+    .map((segment) => segment.text)
+    .join(" ")
+    .split(/(?<=[.!?])\s+/)[0]
+    ?.trim();
+  if (!firstSentence) return `Part ${index + 1}`;
+
+  const transition = startsWithTransition(firstSentence);
+  const stripped = (transition ? firstSentence.slice(transition.length) : firstSentence).replace(/^[\s,:;-]+/, "");
+  const words = stripped.replace(/[.!?…]+$/, "").split(/\s+/).filter(Boolean);
+  if (!words.length) return `Part ${index + 1}`;
+
+  const heading = words.slice(0, HEADING_MAX_WORDS).join(" ");
+  const suffix = words.length > HEADING_MAX_WORDS ? "…" : "";
+  return `${heading.charAt(0).toUpperCase()}${heading.slice(1)}${suffix}`;
+}
+
+export function detectChapters(segments: TimedSegment[]): TranscriptChapter[] {
+  const groups: TimedSegment[][] = [];
+  let current: TimedSegment[] = [];
+
+  for (const segment of segments) {
+    const first = current[0];
+    const previous = current[current.length - 1];
+    if (first && previous) {
+      const elapsed = segment.start - first.start;
+      const gap = segment.start - previous.end;
+      const pauseBreak = gap >= CHAPTER_GAP_SEC && elapsed >= CHAPTER_MIN_SEC;
+      const topicBreak = startsWithTransition(segment.text) !== null && elapsed >= CHAPTER_MIN_SEC;
+      if (pauseBreak || topicBreak || elapsed >= CHAPTER_MAX_SEC) {
+        groups.push(current);
+        current = [];
+      }
+    }
+    current.push(segment);
+  }
+  if (current.length) groups.push(current);
+
+  return groups.map((group, index) => ({
+    start: index === 0 ? 0 : group[0].start,
+    end: group[group.length - 1].end,
+    heading: chapterHeading(group, index),
+    segments: group
+  }));
+}
+
+function paragraphs(segments: TimedSegment[]) {
+  const result: Array<{ speaker: string | null; text: string }> = [];
+  let previous: TimedSegment | null = null;
+  for (const segment of segments) {
+    if (!segment.text) continue;
+    const speaker = segment.speaker || null;
+    const last = result[result.length - 1];
+    const continues =
+      last && previous && last.speaker === speaker && segment.start - previous.end < PARAGRAPH_GAP_SEC;
+    if (continues) last.text = `${last.text} ${segment.text}`;
+    else result.push({ speaker, text: segment.text });
+    previous = segment;
+  }
+  return result;
+}
+
+function paragraphLine(paragraph: { speaker: string | null; text: string }) {
+  return paragraph.speaker ? `${paragraph.speaker}: ${paragraph.text}` : paragraph.text;
+}
+
+function toSrt(transcript: ExportableTranscript) {
+  return transcript.segments
+    .filter((segment) => segment.text)
+    .map((segment, index) => `${index + 1}\n${srtTimestamp(segment.start)} --> ${srtTimestamp(segment.end)}\n${segment.text}\n`)
+    .join("\n");
+}
+
+function toVtt(transcript: ExportableTranscript) {
+  const cues = transcript.segments
+    .filter((segment) => segment.text)
+    .map((segment) => {
+      const text = segment.speaker ? `<v ${segment.speaker}>${segment.text}` : segment.text;
+      return `${vttTimestamp(segment.start)} --> ${vttTimestamp(segment.end)}\n${text}\n`;
+    });
+  return ["WEBVTT", "", ...cues].join("\n");
+}
+
+function toTxt(transcript: ExportableTranscript) {
+  const body = transcript.segments.length
+    ? paragraphs(transcript.segments).map(paragraphLine).join("\n\n")
+    : transcript.text;
+  return `${body}\n`;
+}
+
+function toJson(transcript: ExportableTranscript) {
+  return `${JSON.stringify(
+    {
+      title: transcript.title,
+      language: transcript.language,
+      text: transcript.text,
+      segments: transcript.segments,
+      words: transcript.words
+    },
+    null,
+    2
+  )}\n`;
+}
+
+function toMarkdown(transcript: ExportableTranscript) {
+  const chapters = detectChapters(transcript.segments);
+  const lines = [`# ${transcript.title}`, ""];
+  if (chapters.length > 1) {
+    lines.push("## Chapters", "");
+    for (const chapter of chapters) lines.push(`- ${chapterTimestamp(chapter.start)} ${chapter.heading}`);
+    lines.push("");
+  }
+  for (const chapter of chapters) {
+    lines.push(`## [${chapterTimestamp(chapter.start)}] ${chapter.heading}`, "");
+    for (const paragraph of paragraphs(chapter.segments)) {
+      lines.push(paragraph.speaker ? `**${paragraph.speaker}:** ${paragraph.text}` : paragraph.text, "");
+    }
+  }
+  if (!chapters.length && transcript.text) lines.push(transcript.text, "");
+  return lines.join("\n");
+}
+
+export function renderTranscript(format: TranscriptExportFormat, transcript: ExportableTranscript) {
+  switch (format) {
+    case "srt":
+      return toSrt(transcript);
+    case "vtt":
+      return toVtt(transcript);
+    case "txt":
+      return toTxt(transcript);
+    case "json":
+      return toJson(transcript);
+    case "md":
+      return toMarkdown(transcript);
+  }
+}
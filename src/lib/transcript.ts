@@ -0,0 +1,73 @@
+export type TimedSegment = { start: number; end: number; text: string; speaker?: string | null };
+export type TimedWord = { start: number; end: number; word: string };
+export type SegmentEdit = { index: number; text: string };
+
+function normalizeWhitespace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function readTranscriptSegments(input: unknown): TimedSegment[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((item) => ({
+      start: Number(item?.start),
+      end: Number(item?.end),
+      text: typeof item?.text === "string" ? normalizeWhitespace(item.text) : "",
+      ...(typeof item?.speaker === "string" ? { speaker: item.speaker } : {})
+    }))
+    .filter((item) => Number.isFinite(item.start) && Number.isFinite(item.end) && item.end > item.start);
+}
+
+export function readTranscriptWords(input: unknown): TimedWord[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((item) => ({
+      start: Number(item?.start),
+      end: Number(item?.end),
+      word: typeof item?.word === "string" ? item.word.trim() : ""
+    }))
+    .filter((item) => Number.isFinite(item.start) && Number.isFinite(item.end) && item.end > item.start && item.word);
+}
+
+function realignWords(segment: TimedSegment, previous: TimedWord[]) {
+  const tokens = segment.text.split(" ").filter(Boolean);
+  if (!tokens.length) return [] as TimedWord[];
+  if (tokens.length === previous.length) {
+    return previous.map((word, index) => ({ ...word, word: tokens[index] }));
+  }
+
+  const step = (segment.end - segment.start) / tokens.length;
+  return tokens.map((token, index) => ({
+    start: Number((segment.start + index * step).toFixed(3)),
+    end: Number((segment.start + (index + 1) * step).toFixed(3)),
+    word: token
+  }));
+}
+
+export function applySegmentEdits(segments: TimedSegment[], words: TimedWord[], edits: SegmentEdit[]) {
+  const nextSegments = [...segments];
+  let nextWords = [...words];
+  const changed: TimedSegment[] = [];
+
+  for (const edit of edits) {
+    const current = nextSegments[edit.index];
+    const text = normalizeWhitespace(edit.text);
+    if (!current || text === current.text) continue;
+
+    const updated = { ...current, text };
+    nextSegments[edit.index] = updated;
+    changed.push(updated);
+
+    if (!nextWords.length) continue;
+    const inside = (word: TimedWord) => (word.start + word.end) / 2 >= current.start && (word.start + word.end) / 2 < current.end;
+    const replacement = realignWords(updated, nextWords.filter(inside));
+    nextWords = [...nextWords.filter((word) => !inside(word)), ...replacement].sort((a, b) => a.start - b.start);
+  }
+
+  return {
+    segments: nextSegments,
+    words: nextWords,
+    text: nextSegments.map((segment) => segment.text).filter(Boolean).join(" "),
+    changed
+  };
+}
@@ -1,3 +1,5 @@
+import type { LayoutKey, NormalizedRect } from "@/lib/layouts";
+
 export type JobStatus =
   | "PENDING"
   | "UPLOADED"
@@ -5,15 +7,80 @@ export type JobStatus =
   | "PROCESSING"
   | "DONE"
   | "FAILED"
-  | "EXPIRED";
+  | "EXPIRED"
+  | "CANCELLED";
+
+export const JOB_PROCESSING_MODES = ["FULL", "RESELECT", "RERENDER"] as const;
+export type JobProcessingMode = (typeof JOB_PROCESSING_MODES)[number];
+
+export type JobRetryAttempt = {
+  attempt: number;
+  failedAt: string;
+  error: string;
+  retryable: boolean;
+  nextAttemptAt: string | null;
+};
+
+// A `jobs` row as returned by `select("*")`. Columns added by later migrations are optional.
+export type JobRow = {
+  id: string;
+  user_id: string;
+  status: JobStatus;
+  source_path: string;
+  source_filename: string;
+  source_duration_sec: number;
+  crop_config: Record<string, unknown> | null;
+  suggestions: unknown;
+  transcript: string | null;
+  transcript_segments?: unknown;
+  transcript_words?: unknown;
+  error_message: string | null;
+  processing_stage?: string | null;
+  processing_progress?: number | null;
+  processing_note?: string | null;
+  processing_started_at?: string | null;
+  processing_mode?: JobProcessingMode | null;
+  cancel_requested_at?: string | null;
+  attempt_count?: number | null;
+  max_attempts?: number | null;
+  next_attempt_at?: string | null;
+  retry_history?: JobRetryAttempt[] | null;
+  clip_style?: ClipStyle | null;
+  genre?: ClipGenre | null;
+  desired_clip_count?: number | null;
+  clip_length_max_s?: number | null;
+  auto_hook?: boolean | null;
+  source_language?: string | null;
+  source_language_override?: string | null;
+  include_moment_text?: string | null;
+  timeframe_start_s?: number | null;
+  timeframe_end_s?: number | null;
+  preset_id?: string | null;
+  template_id?: string | null;
+  finished_at?: string | null;
+  expires_at: string;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export type WebcamDetection = {
+  rect: NormalizedRect | null;
+  confidence: number;
+  detectedAt: string;
+  error?: string | null;
+  attempts?: number;
+};
 
 export type CropConfig = {
   x: number;
   y: number;
   width: number;
   height: number;
-  layout: "TOP_WEBCAM_BOTTOM_SCREEN";
+  layout: LayoutKey;
   captionPreset: "BOLD" | "CLEAN" | "MODERN" | "MINIMAL";
+  captionMode?: "SEGMENT" | "KARAOKE";
+  captionStyleId?: string | null;
+  captionSpeakerColors?: boolean;
   captionLanguage:
     | "source"
     | "en"
@@ -44,18 +111,23 @@ export type CropConfig = {
     | "ko"
     | "zh";
   outputPreset: "INSTAGRAM_REELS" | "YOUTUBE_SHORTS" | "TIKTOK" | "INSTAGRAM_FEED";
+  detection?: WebcamDetection | null;
 };
 
 export type ClipStyle = "Balanced" | "Hooky" | "Educational" | "Story";
 export type ClipGenre = "Tutorial" | "Podcast" | "Talking Head" | "Interview" | "Demo" | "Other";
 export type ClipLengthPreset = 30 | 60 | 90 | 180;
 
+export const SOURCE_LANGUAGES = ["auto", "pt", "en", "es", "fr", "de", "it", "nl", "ja", "ko", "zh"] as const;
+export type SourceLanguage = (typeof SOURCE_LANGUAGES)[number];
+
 export type GenerationConfig = {
   clipStyle: ClipStyle;
   genre: ClipGenre;
   clipCount: number;
   clipLengthMaxS: ClipLengthPreset;
   autoHook: boolean;
+  sourceLanguage: SourceLanguage;
   includeMomentText: string;
   timeframeStartS: number | null;
   timeframeEndS: number | null;
@@ -69,6 +141,7 @@ export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
   clipCount: 4,
   clipLengthMaxS: 60,
   autoHook: false,
+  sourceLanguage: "auto",
   includeMomentText: "",
   timeframeStartS: null,
   timeframeEndS: null,
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { buildWebhookPayload, type WebhookEvent } from "@/lib/webhooks";
+
+export async function enqueueWebhookEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+) {
+  const { data: endpoints, error } = await supabase
+    .from("webhook_endpoints")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("enabled", true)
+    .contains("events", [event]);
+  if (error) {
+    if (!error.message.includes("webhook_endpoints")) console.error(`[webhooks] could not enqueue ${event}: ${error.message}`);
+    return;
+  }
+  if (!endpoints?.length) return;
+
+  const payload = buildWebhookPayload(event, data);
+  const { error: insertError } = await supabase.from("webhook_deliveries").insert(
+    endpoints.map((endpoint) => ({
+      endpoint_id: endpoint.id,
+      user_id: userId,
+      event,
+      payload
+    }))
+  );
+  if (insertError) console.error(`[webhooks] could not enqueue ${event}: ${insertError.message}`);
+}
@@ -0,0 +1,135 @@
+import crypto from "node:crypto";
+import dns from "node:dns";
+import net from "node:net";
+import { z } from "zod";
+
+export const WEBHOOK_EVENTS = ["job.uploaded", "job.processing", "job.done", "job.failed", "clip.adjusted"] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-macet-signature";
+export const WEBHOOK_EVENT_HEADER = "x-macet-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-macet-delivery";
+
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.0.2.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["198.51.100.0", 24, "ipv4"],
+  ["203.0.113.0", 24, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"],
+  ["100::", 64, "ipv6"],
+  ["2001:db8::", 32, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"]
+];
+const BLOCKED_HOST_SUFFIXES = ["localhost", ".local", ".internal", ".localdomain"];
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix, family] of BLOCKED_SUBNETS) blockedAddresses.addSubnet(address, prefix, family);
+
+// Local development only: lets endpoints point at a receiver on this machine.
+export function privateWebhookTargetsAllowed() {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true";
+}
+
+export function isPrivateAddress(address: string) {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function webhookHostname(value: string) {
+  try {
+    return new URL(value).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+export function isBlockedWebhookHost(hostname: string) {
+  const host = hostname.replace(/\.$/, "").toLowerCase();
+  if (!host) return true;
+  if (net.isIP(host)) return isPrivateAddress(host);
+  return BLOCKED_HOST_SUFFIXES.some((suffix) => host === suffix.replace(/^\./, "") || host.endsWith(suffix));
+}
+
+export async function resolvesToPrivateAddress(hostname: string) {
+  if (privateWebhookTargetsAllowed()) return false;
+  if (isBlockedWebhookHost(hostname)) return true;
+  if (net.isIP(hostname)) return false;
+  const addresses = await dns.promises.lookup(hostname, { all: true }).catch(() => []);
+  return !addresses.length || addresses.some((entry) => isPrivateAddress(entry.address));
+}
+
+export async function findBlockedWebhookUrl(value: string) {
+  return (await resolvesToPrivateAddress(webhookHostname(value)))
+    ? "Webhook URL must resolve to a public address"
+    : null;
+}
+
+export const webhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url()
+    .max(2000)
+    .refine((value) => /^https?:\/\//i.test(value), "Webhook URL must use http or https")
+    .refine(
+      (value) => privateWebhookTargetsAllowed() || !isBlockedWebhookHost(webhookHostname(value)),
+      "Webhook URL must not target a private address"
+    ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).max(WEBHOOK_EVENTS.length),
+  enabled: z.boolean().default(true)
+});
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>;
+
+export type WebhookPayload = {
+  event: WebhookEvent;
+  createdAt: string;
+  data: Record<string, unknown>;
+};
+
+export type WebhookDeliveryAttempt = {
+  attempt: number;
+  attemptedAt: string;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+};
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+export function buildWebhookPayload(event: WebhookEvent, data: Record<string, unknown>): WebhookPayload {
+  return { event, createdAt: new Date().toISOString(), data };
+}
+
+export function signWebhookBody(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifyWebhookSignature(secret: string, body: string, header: string, toleranceSec = 300) {
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSec) return false;
+
+  const expected = signWebhookBody(secret, body, timestamp).split("v1=")[1];
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length / 2 && crypto.timingSafeEqual(received, Buffer.from(expected, "hex"));
+}
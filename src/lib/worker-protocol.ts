@@ -0,0 +1,160 @@
+import { z } from "zod";
+import type { CropConfig } from "@/lib/types";
+
+export const WORKER_API_PATHS = {
+  register: "/api/internal/worker/register",
+  heartbeat: "/api/internal/worker/heartbeat",
+  unregister: "/api/internal/worker/unregister",
+  start: "/api/internal/worker/start",
+  progress: "/api/internal/worker/progress",
+  transcribe: "/api/internal/ai/transcribe",
+  segments: "/api/internal/ai/segments",
+  finish: "/api/internal/worker/finish",
+  fail: "/api/internal/worker/fail"
+} as const;
+
+const jobIdSchema = z.string().uuid();
+const workerIdSchema = z.string().trim().min(1).max(200);
+
+const transcriptSegmentSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  speaker: z.string().nullable().optional()
+});
+
+export const registerRequestSchema = z.object({
+  workerId: workerIdSchema,
+  host: z.string().trim().min(1).max(200),
+  version: z.string().max(60).nullable().optional(),
+  providers: z.record(z.unknown()).default({}),
+  concurrency: z.number().int().min(1).max(64).default(1)
+});
+
+export const heartbeatRequestSchema = z.object({
+  workerId: workerIdSchema
+});
+
+export const startRequestSchema = z.object({
+  jobId: jobIdSchema,
+  workerId: workerIdSchema.optional()
+});
+
+export const progressRequestSchema = z.object({
+  jobId: jobIdSchema,
+  stage: z.string().trim().min(1).max(60),
+  progress: z.number().min(0).max(100),
+  note: z.string().max(500).optional()
+});
+
+export const transcribeRequestSchema = z.object({
+  jobId: jobIdSchema,
+  audioPath: z.string().min(1).max(500),
+  offsetSec: z.number().min(0).default(0),
+  persistTranscript: z.boolean().default(true)
+});
+
+export const segmentsRequestSchema = z.object({
+  jobId: jobIdSchema,
+  transcriptText: z.string().max(500000),
+  transcriptSegments: z.array(transcriptSegmentSchema).max(20000).optional()
+});
+
+export const finishExportSchema = z.object({
+  clipId: z.string().min(1).max(60),
+  mp4Path: z.string().min(1).max(500),
+  srtPath: z.string().min(1).max(500),
+  startSec: z.number().min(0),
+  endSec: z.number().min(0),
+  title: z.string().max(300),
+  hook: z.string().max(500),
+  reason: z.string().max(1000)
+});
+
+export const finishRequestSchema = z.object({
+  jobId: jobIdSchema,
+  measuredDurationSec: z.number().min(0).optional(),
+  transcript: z
+    .object({
+      text: z.string().max(500000),
+      segments: z.array(transcriptSegmentSchema).max(20000)
+    })
+    .optional(),
+  exports: z.array(finishExportSchema).min(1).max(20)
+});
+
+export const failRequestSchema = z.object({
+  jobId: jobIdSchema,
+  errorMessage: z.string().min(1).max(4000)
+});
+
+export type RegisterRequest = z.input<typeof registerRequestSchema>;
+export type HeartbeatRequest = z.infer<typeof heartbeatRequestSchema>;
+export type StartRequest = z.infer<typeof startRequestSchema>;
+export type ProgressRequest = z.infer<typeof progressRequestSchema>;
+export type TranscribeRequest = z.input<typeof transcribeRequestSchema>;
+export type SegmentsRequest = z.infer<typeof segmentsRequestSchema>;
+export type FinishExport = z.infer<typeof finishExportSchema>;
+export type FinishRequest = z.infer<typeof finishRequestSchema>;
+export type FailRequest = z.infer<typeof failRequestSchema>;
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+
+export type StartResponse = {
+  job: {
+    id: string;
+    userId: string;
+    status: string;
+    webcamCrop?: {
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      captionPreset?: CropConfig["captionPreset"];
+    };
+    captionStyle?: CropConfig["captionPreset"];
+    captionStyleId?: string | null;
+    layout?: CropConfig["layout"];
+  };
+  source: {
+    signedUrl: string;
+    path: string;
+    durationSec?: number;
+    width?: number | null;
+    height?: number | null;
+  };
+  limits: {
+    maxSegments: number;
+    minSegSec: number;
+    maxSegSec: number;
+  };
+};
+
+export type HeartbeatResponse = {
+  ok: true;
+  registered: boolean;
+};
+
+export type ProgressResponse = {
+  ok: true;
+  cancelRequested: boolean;
+};
+
+export type TranscribeResponse = {
+  text: string;
+  segments?: TranscriptSegment[];
+  words?: Array<{ start: number; end: number; word: string }>;
+  language?: string | null;
+  durationSec?: number;
+};
+
+export type Segment = {
+  start_sec: number;
+  end_sec: number;
+  title: string;
+  hook: string;
+  reason: string;
+};
+
+export type SegmentsResponse = {
+  segments: Segment[];
+};
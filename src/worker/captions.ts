@@ -0,0 +1,288 @@
+import fs from "node:fs/promises";
+import { toAssColor, type CaptionStyle } from "@/lib/caption-styles";
+import type { CropConfig } from "@/lib/types";
+
+export type CaptionPreset = CropConfig["captionPreset"];
+export type CaptionMode = NonNullable<CropConfig["captionMode"]>;
+export type CaptionSegment = { start: number; end: number; text: string; speaker?: string | null };
+export type CaptionWord = { start: number; end: number; word: string };
+
+const KARAOKE_MIN_WORDS = 2;
+const KARAOKE_MAX_WORDS = 4;
+const KARAOKE_MAX_GAP_SEC = 0.6;
+const KARAOKE_TAIL_SEC = 0.3;
+const HOOK_DURATION_SEC = 2.8;
+const HOOK_MAX_CHARS_PER_LINE = 22;
+const HOOK_MAX_CHARS = 90;
+const SPEAKER_COLOURS = ["#FFD54F", "#4FC3F7", "#A5D6A7", "#F48FB1"];
+
+function toSrtTs(sec: number) {
+  const ms = Math.floor((sec % 1) * 1000);
+  const total = Math.floor(sec);
+  const s = total % 60;
+  const m = Math.floor(total / 60) % 60;
+  const h = Math.floor(total / 3600);
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")},${String(ms).padStart(3, "0")}`;
+}
+
+function toAssTs(sec: number) {
+  const safe = Math.max(0, sec);
+  const totalCs = Math.floor(safe * 100);
+  const cs = totalCs % 100;
+  const total = Math.floor(totalCs / 100);
+  const s = total % 60;
+  const m = Math.floor(total / 60) % 60;
+  const h = Math.floor(total / 3600);
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}.${String(cs).padStart(2, "0")}`;
+}
+
+export function escapeForFilterPath(input: string) {
+  return input.replace(/\\/g, "\\\\").replace(/:/g, "\\:").replace(/'/g, "\\'");
+}
+
+function assStyleLine(preset: CaptionPreset, height: number) {
+  if (preset === "MINIMAL") {
+    return `Style: Default,Arial,38,&H00FFFFFF,&H000000FF,&H00202020,&H50000000,0,0,0,0,100,100,0,0,1,1.2,0,2,24,24,${Math.max(110, Math.round(height * 0.095))},1`;
+  }
+  if (preset === "MODERN") {
+    return `Style: Default,Arial Rounded MT Bold,50,&H00FFFFFF,&H00D7FF00,&H00101010,&H70000000,1,0,0,0,100,100,0,0,3,2.0,0,2,24,24,${Math.max(126, Math.round(height * 0.105))},1`;
+  }
+  if (preset === "CLEAN") {
+    return `Style: Default,Arial,44,&H00FFFFFF,&H000000FF,&H00202020,&H64000000,0,0,0,0,100,100,0,0,1,1.6,0,2,28,28,${Math.max(120, Math.round(height * 0.1))},1`;
+  }
+  return `Style: Default,Arial Bold,56,&H00FFFFFF,&H0000D7FF,&H00121212,&H78000000,1,0,0,0,100,100,0,0,3,2.4,0,2,28,28,${Math.max(140, Math.round(height * 0.115))},1`;
+}
+
+function customStyleLine(style: CaptionStyle, height: number) {
+  const fontName = style.fontFamily.replace(/,/g, " ").trim();
+  const outlineColour = style.backgroundBox
+    ? toAssColor(style.backgroundColor, style.backgroundOpacity)
+    : toAssColor(style.outlineColor);
+  const borderStyle = style.backgroundBox ? 3 : 1;
+  const marginV = Math.round(height * style.verticalPosition);
+  return `Style: Default,${fontName},${style.fontSize},${toAssColor(style.primaryColor)},${toAssColor(style.highlightColor)},${outlineColour},&H80000000,${style.bold ? 1 : 0},0,0,0,100,100,0,0,${borderStyle},${style.outlineWidth},${style.shadow},2,28,28,${marginV},1`;
+}
+
+function hookStyleLine(height: number, style?: CaptionStyle) {
+  const fontName = style ? style.fontFamily.replace(/,/g, " ").trim() : "Arial Bold";
+  return `Style: Hook,${fontName},68,&H00FFFFFF,&H000000FF,&H28000000,&H00000000,1,0,0,0,100,100,0,0,3,18,0,8,80,80,${Math.round(height * 0.12)},1`;
+}
+
+function truncateHook(text: string) {
+  const trimmed = text.trim().replace(/\s+/g, " ");
+  if (trimmed.length <= HOOK_MAX_CHARS) return trimmed;
+  const cut = trimmed.slice(0, HOOK_MAX_CHARS);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(" "), 1)).replace(/[\s.,;:!?-]+$/, "")}…`;
+}
+
+function escapeAssText(text: string) {
+  return text.replace(/[{}]/g, "").replace(/\r?\n/g, "\\N").replace(/\\/g, "\\\\");
+}
+
+function assAnimationTag(preset: CaptionPreset) {
+  if (preset === "MINIMAL") {
+    return "{\\fad(40,80)}";
+  }
+  if (preset === "MODERN") {
+    return "{\\fad(85,120)\\t(0,180,\\fscx108\\fscy108)\\t(180,360,\\fscx100\\fscy100)}";
+  }
+  if (preset === "CLEAN") {
+    return "{\\fad(70,120)\\t(0,180,\\fscx104\\fscy104)\\t(180,320,\\fscx100\\fscy100)}";
+  }
+  return "{\\fad(90,140)\\t(0,220,\\fscx110\\fscy110)\\t(220,420,\\fscx100\\fscy100)}";
+}
+
+function karaokeHighlightColour(preset: CaptionPreset, style?: CaptionStyle) {
+  if (style) return `&H${toAssColor(style.highlightColor).slice(4)}&`;
+  if (preset === "MODERN") return "&HD7FF00&";
+  if (preset === "CLEAN" || preset === "MINIMAL") return "&H0000FF&";
+  return "&H00D7FF&";
+}
+
+function speakerColours(segments: CaptionSegment[]) {
+  const speakers = Array.from(new Set(segments.map((segment) => segment.speaker).filter((speaker): speaker is string => Boolean(speaker))));
+  return new Map(
+    speakers.slice(1).map((speaker, index) => [speaker, `&H${toAssColor(SPEAKER_COLOURS[index % SPEAKER_COLOURS.length]).slice(4)}&`])
+  );
+}
+
+export function groupWordsIntoChunks(words: CaptionWord[]) {
+  const chunks: CaptionWord[][] = [];
+  let current: CaptionWord[] = [];
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    const breaksOnGap = previous && word.start - previous.end > KARAOKE_MAX_GAP_SEC;
+    const breaksOnPunctuation = previous && current.length >= KARAOKE_MIN_WORDS && /[.,!?;:]$/.test(previous.word);
+    if (current.length >= KARAOKE_MAX_WORDS || breaksOnGap || breaksOnPunctuation) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length) chunks.push(current);
+
+  return chunks;
+}
+
+function karaokeDialogues(
+  words: CaptionWord[],
+  clipStart: number,
+  clipEnd: number,
+  preset: CaptionPreset,
+  style?: CaptionStyle,
+  colourAt?: (sec: number) => string | null
+) {
+  const clipDuration = clipEnd - clipStart;
+  const highlight = karaokeHighlightColour(preset, style);
+  const clipWords = words
+    .filter((word) => word.end > clipStart && word.start < clipEnd)
+    .map((word) => ({
+      start: Math.max(0, word.start - clipStart),
+      end: Math.min(clipDuration, word.end - clipStart),
+      word: escapeAssText(word.word.trim())
+    }))
+    .filter((word) => word.end > word.start && word.word);
+
+  const chunks = groupWordsIntoChunks(clipWords);
+  return chunks.flatMap((chunk, chunkIndex) => {
+    const nextChunk = chunks[chunkIndex + 1];
+    const chunkEnd = Math.min(
+      nextChunk ? nextChunk[0].start : clipDuration,
+      chunk[chunk.length - 1].end + KARAOKE_TAIL_SEC
+    );
+    const base = colourAt?.(clipStart + chunk[0].start) || null;
+    const reset = base ? `{\\r\\c${base}}` : "{\\r}";
+    return chunk.map((word, wordIndex) => {
+      const start = wordIndex === 0 ? word.start : Math.max(word.start, chunk[wordIndex - 1].end);
+      const end = wordIndex === chunk.length - 1 ? chunkEnd : chunk[wordIndex + 1].start;
+      const text = chunk
+        .map((item, index) =>
+          index === wordIndex ? `{\\c${highlight}\\fscx110\\fscy110}${item.word}${reset}` : item.word
+        )
+        .join(" ");
+      return { start, end: Math.max(start + 0.05, end), text: base ? `{\\c${base}}${text}` : text };
+    });
+  });
+}
+
+export function wrapCaptionText(text: string, maxCharsPerLine = 36) {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return text.trim();
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    const next = current ? `${current} ${word}` : word;
+    if (next.length > maxCharsPerLine && current) {
+      lines.push(current);
+      current = word;
+      continue;
+    }
+    current = next;
+  }
+  if (current) lines.push(current);
+  return lines.join("\\N");
+}
+
+export async function writeSrtForClip(
+  outputPath: string,
+  fullTranscriptSegments: CaptionSegment[],
+  clipStart: number,
+  clipEnd: number
+) {
+  const rows = fullTranscriptSegments
+    .filter((segment) => segment.end > clipStart && segment.start < clipEnd)
+    .map((segment, index) => {
+      const start = Math.max(0, segment.start - clipStart);
+      const end = Math.max(start + 0.2, Math.min(clipEnd - clipStart, segment.end - clipStart));
+      return `${index + 1}\n${toSrtTs(start)} --> ${toSrtTs(end)}\n${segment.text}\n`;
+    });
+
+  const safeRows = rows.length
+    ? rows
+    : [`1\n${toSrtTs(0)} --> ${toSrtTs(Math.max(1, clipEnd - clipStart))}\nLegenda indisponível\n`];
+  await fs.writeFile(outputPath, safeRows.join("\n"), "utf8");
+}
+
+export async function writeAssForClip(
+  outputPath: string,
+  fullTranscriptSegments: CaptionSegment[],
+  clipStart: number,
+  clipEnd: number,
+  preset: CaptionPreset,
+  videoHeight: number,
+  options?: {
+    mode?: CaptionMode;
+    words?: CaptionWord[];
+    style?: CaptionStyle | null;
+    hook?: string | null;
+    speakerColors?: boolean;
+  }
+) {
+  const style = options?.style || undefined;
+  const colours = options?.speakerColors ? speakerColours(fullTranscriptSegments) : new Map<string, string>();
+  const colourAt = (sec: number) => {
+    const segment = fullTranscriptSegments.find((item) => item.start <= sec && item.end > sec);
+    return (segment?.speaker && colours.get(segment.speaker)) || null;
+  };
+  const karaoke =
+    options?.mode === "KARAOKE" && options.words?.length
+      ? karaokeDialogues(options.words, clipStart, clipEnd, preset, style, colourAt)
+      : [];
+  const subtitleSegments = fullTranscriptSegments
+    .filter((segment) => segment.end > clipStart && segment.start < clipEnd)
+    .map((segment) => ({
+      start: Math.max(0, segment.start - clipStart),
+      end: Math.max(0.2, Math.min(clipEnd - clipStart, segment.end - clipStart)),
+      text: wrapCaptionText(escapeAssText(segment.text), style?.maxCharsPerLine ?? 34),
+      colour: (segment.speaker && colours.get(segment.speaker)) || null
+    }))
+    .filter((segment) => segment.end > segment.start);
+
+  const safeSegments = subtitleSegments.length
+    ? subtitleSegments
+    : [
+        {
+          start: 0,
+          end: Math.max(1, clipEnd - clipStart),
+          text: "Legenda indisponível",
+          colour: null
+        }
+      ];
+
+  const header = [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    "PlayResX: 1080",
+    `PlayResY: ${videoHeight}`,
+    "WrapStyle: 2",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name,Fontname,Fontsize,PrimaryColour,SecondaryColour,OutlineColour,BackColour,Bold,Italic,Underline,StrikeOut,ScaleX,ScaleY,Spacing,Angle,BorderStyle,Outline,Shadow,Alignment,MarginL,MarginR,MarginV,Encoding",
+    style ? customStyleLine(style, videoHeight) : assStyleLine(preset, videoHeight),
+    hookStyleLine(videoHeight, style),
+    "",
+    "[Events]",
+    "Format: Layer,Start,End,Style,Name,MarginL,MarginR,MarginV,Effect,Text"
+  ];
+
+  const body = karaoke.length
+    ? karaoke.map(
+        (event) => `Dialogue: 0,${toAssTs(event.start)},${toAssTs(event.end)},Default,,0,0,0,,${event.text}`
+      )
+    : safeSegments.map((segment) => {
+        const tag = assAnimationTag(preset);
+        const colour = segment.colour ? `{\\c${segment.colour}}` : "";
+        return `Dialogue: 0,${toAssTs(segment.start)},${toAssTs(segment.end)},Default,,0,0,0,,${tag}${colour}${segment.text}`;
+      });
+
+  const hookText = options?.hook?.trim() ? wrapCaptionText(escapeAssText(truncateHook(options.hook)), HOOK_MAX_CHARS_PER_LINE) : "";
+  const hookEvent = hookText
+    ? [
+        `Dialogue: 1,${toAssTs(0)},${toAssTs(Math.min(HOOK_DURATION_SEC, clipEnd - clipStart))},Hook,,0,0,0,,{\\fad(120,220)}${hookText}`
+      ]
+    : [];
+
+  await fs.writeFile(outputPath, [...header, ...hookEvent, ...body, ""].join("\n"), "utf8");
+}
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ChildProcess } from "node:child_process";
+
+const scope = new AsyncLocalStorage<Set<ChildProcess>>();
+
+export function trackChildProcess<T extends ChildProcess>(child: T) {
+  const children = scope.getStore();
+  if (!children) return child;
+  children.add(child);
+  child.once("exit", () => children.delete(child));
+  return child;
+}
+
+export function createChildProcessScope() {
+  const children = new Set<ChildProcess>();
+  return {
+    run<T>(task: () => Promise<T>) {
+      return scope.run(children, task);
+    },
+    killAll(signal: NodeJS.Signals = "SIGKILL") {
+      for (const child of Array.from(children)) {
+        if (child.exitCode === null && child.signalCode === null) child.kill(signal);
+      }
+    }
+  };
+}
@@ -0,0 +1,217 @@
+import fs from "node:fs/promises";
+import { runFfmpeg } from "@/worker/ffmpeg";
+import type { TranscriptSegment } from "@/worker/transcription";
+
+export const DIARIZATION_MODES = ["off", "auto", "always"] as const;
+export type DiarizationMode = (typeof DIARIZATION_MODES)[number];
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 400;
+const FRAME_HOP = 320;
+const MAX_FRAMES_PER_SEGMENT = 240;
+const MIN_VOICED_FRAMES = 8;
+const SILENCE_ENERGY = 1e-5;
+const BAND_FREQUENCIES = [150, 250, 400, 600, 900, 1300, 1900, 2700, 3800, 5200];
+const BAND_COEFFICIENTS = BAND_FREQUENCIES.map((frequency) => 2 * Math.cos((2 * Math.PI * frequency) / SAMPLE_RATE));
+const MIN_SILHOUETTE = 0.12;
+const SHORT_SEGMENT_SEC = 1.2;
+const KMEANS_ITERATIONS = 30;
+const DIALOGUE_GENRES = new Set(["podcast", "interview"]);
+
+export function resolveDiarizationMode(value = process.env.DIARIZATION_MODE): DiarizationMode {
+  const normalized = String(value || "auto").trim().toLowerCase();
+  return (DIARIZATION_MODES as readonly string[]).includes(normalized) ? (normalized as DiarizationMode) : "auto";
+}
+
+export function shouldDiarize(genre: string | null | undefined, mode = resolveDiarizationMode()) {
+  if (mode === "always") return true;
+  if (mode === "off") return false;
+  return DIALOGUE_GENRES.has(String(genre || "").toLowerCase());
+}
+
+async function readPcm(audioPath: string) {
+  const rawPath = audioPath.replace(/\.[^./]+$/, "") + ".diarize.raw";
+  try {
+    await runFfmpeg(["-y", "-i", audioPath, "-ac", "1", "-ar", String(SAMPLE_RATE), "-f", "s16le", rawPath]);
+    const bytes = await fs.readFile(rawPath);
+    const length = Math.floor(bytes.length / 2);
+    if (bytes.byteOffset % 2 === 0) return new Int16Array(bytes.buffer, bytes.byteOffset, length);
+    return new Int16Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + length * 2));
+  } finally {
+    await fs.rm(rawPath, { force: true }).catch(() => undefined);
+  }
+}
+
+function goertzelPower(pcm: Int16Array, offset: number, coefficient: number) {
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = 0; i < FRAME_SIZE; i += 1) {
+    const current = pcm[offset + i] / 32768 + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return (previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious) / FRAME_SIZE;
+}
+
+function frameFeatures(pcm: Int16Array, offset: number) {
+  let energy = 0;
+  let crossings = 0;
+  for (let i = 0; i < FRAME_SIZE; i += 1) {
+    const sample = pcm[offset + i] / 32768;
+    energy += sample * sample;
+    if (i > 0 && (sample >= 0) !== (pcm[offset + i - 1] >= 0)) crossings += 1;
+  }
+  energy /= FRAME_SIZE;
+  if (energy < SILENCE_ENERGY) return null;
+
+  const bands = BAND_COEFFICIENTS.map((coefficient) => Math.log(goertzelPower(pcm, offset, coefficient) + 1e-10));
+  const bandMean = bands.reduce((sum, value) => sum + value, 0) / bands.length;
+  return [...bands.map((value) => value - bandMean), crossings / FRAME_SIZE, Math.log(energy)];
+}
+
+function segmentEmbedding(pcm: Int16Array, segment: TranscriptSegment) {
+  const first = Math.max(0, Math.floor(segment.start * SAMPLE_RATE));
+  const last = Math.min(pcm.length - FRAME_SIZE, Math.floor(segment.end * SAMPLE_RATE) - FRAME_SIZE);
+  if (last <= first) return null;
+
+  const totalFrames = Math.floor((last - first) / FRAME_HOP) + 1;
+  const stride = Math.max(1, Math.ceil(totalFrames / MAX_FRAMES_PER_SEGMENT));
+  const frames: number[][] = [];
+  for (let frame = 0; frame < totalFrames; frame += stride) {
+    const features = frameFeatures(pcm, first + frame * FRAME_HOP);
+    if (features) frames.push(features);
+  }
+  if (frames.length < MIN_VOICED_FRAMES) return null;
+
+  const dims = frames[0].length;
+  const mean = Array.from({ length: dims }, (_, dim) => frames.reduce((sum, row) => sum + row[dim], 0) / frames.length);
+  const std = mean.map((value, dim) =>
+    Math.sqrt(frames.reduce((sum, row) => sum + (row[dim] - value) ** 2, 0) / frames.length)
+  );
+  return [...mean, ...std];
+}
+
+function standardize(vectors: number[][]) {
+  const dims = vectors[0].length;
+  const mean = Array.from({ length: dims }, (_, dim) => vectors.reduce((sum, row) => sum + row[dim], 0) / vectors.length);
+  const std = mean.map(
+    (value, dim) => Math.sqrt(vectors.reduce((sum, row) => sum + (row[dim] - value) ** 2, 0) / vectors.length) || 1
+  );
+  return vectors.map((row) => row.map((value, dim) => (value - mean[dim]) / std[dim]));
+}
+
+function distance(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+function kmeans(vectors: number[][], k: number) {
+  const centroids = [vectors[0]];
+  while (centroids.length < k) {
+    let farthest = vectors[0];
+    let farthestDistance = -1;
+    for (const vector of vectors) {
+      const nearest = Math.min(...centroids.map((centroid) => distance(vector, centroid)));
+      if (nearest > farthestDistance) {
+        farthest = vector;
+        farthestDistance = nearest;
+      }
+    }
+    centroids.push(farthest);
+  }
+
+  let labels = vectors.map(() => 0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration += 1) {
+    const next = vectors.map((vector) => {
+      let best = 0;
+      for (let c = 1; c < centroids.length; c += 1) {
+        if (distance(vector, centroids[c]) < distance(vector, centroids[best])) best = c;
+      }
+      return best;
+    });
+    const changed = next.some((label, index) => label !== labels[index]);
+    labels = next;
+    for (let c = 0; c < centroids.length; c += 1) {
+      const members = vectors.filter((_, index) => labels[index] === c);
+      if (!members.length) continue;
+      centroids[c] = members[0].map((_, dim) => members.reduce((sum, row) => sum + row[dim], 0) / members.length);
+    }
+    if (!changed) break;
+  }
+  return labels;
+}
+
+function silhouette(vectors: number[][], labels: number[], k: number) {
+  let total = 0;
+  for (let i = 0; i < vectors.length; i += 1) {
+    const sums = new Array(k).fill(0);
+    const counts = new Array(k).fill(0);
+    for (let j = 0; j < vectors.length; j += 1) {
+      if (i === j) continue;
+      sums[labels[j]] += distance(vectors[i], vectors[j]);
+      counts[labels[j]] += 1;
+    }
+    if (!counts[labels[i]]) continue;
+    const own = sums[labels[i]] / counts[labels[i]];
+    const other = Math.min(
+      ...sums.map((sum, cluster) => (cluster === labels[i] || !counts[cluster] ? Number.POSITIVE_INFINITY : sum / counts[cluster]))
+    );
+    if (!Number.isFinite(other)) continue;
+    total += (other - own) / Math.max(own, other);
+  }
+  return total / vectors.length;
+}
+
+function smoothShortTurns(segments: TranscriptSegment[]) {
+  return segments.map((segment, index) => {
+    const previous = segments[index - 1];
+    const next = segments[index + 1];
+    const short = segment.end - segment.start < SHORT_SEGMENT_SEC;
+    if (short && previous && next && previous.speaker === next.speaker && segment.speaker !== previous.speaker) {
+      return { ...segment, speaker: previous.speaker };
+    }
+    return segment;
+  });
+}
+
+export async function diarizeSegments(
+  audioPath: string,
+  segments: TranscriptSegment[],
+  options?: { maxSpeakers?: number }
+) {
+  const maxSpeakers = Math.max(2, options?.maxSpeakers ?? Number(process.env.DIARIZATION_MAX_SPEAKERS || 3));
+  const pcm = await readPcm(audioPath);
+  const embeddings = segments.map((segment) => segmentEmbedding(pcm, segment));
+  const indexed = embeddings
+    .map((embedding, index) => ({ embedding, index }))
+    .filter((row): row is { embedding: number[]; index: number } => row.embedding !== null);
+  if (indexed.length < 4) return { segments, speakerCount: 0 };
+
+  const vectors = standardize(indexed.map((row) => row.embedding));
+  let bestLabels = vectors.map(() => 0);
+  let bestScore = MIN_SILHOUETTE;
+  for (let k = 2; k <= Math.min(maxSpeakers, vectors.length - 1); k += 1) {
+    const labels = kmeans(vectors, k);
+    const score = silhouette(vectors, labels, k);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLabels = labels;
+    }
+  }
+
+  const speakerIds = new Map<number, string>();
+  const bySegment = new Map<number, string>();
+  indexed.forEach((row, position) => {
+    const cluster = bestLabels[position];
+    if (!speakerIds.has(cluster)) speakerIds.set(cluster, `S${speakerIds.size + 1}`);
+    bySegment.set(row.index, speakerIds.get(cluster) as string);
+  });
+
+  let lastSpeaker = bySegment.get(indexed[0].index) as string;
+  const labeled = segments.map((segment, index) => {
+    lastSpeaker = bySegment.get(index) || lastSpeaker;
+    return { ...segment, speaker: lastSpeaker };
+  });
+  return { segments: smoothShortTurns(labeled), speakerCount: speakerIds.size };
+}
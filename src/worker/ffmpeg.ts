@@ -1,9 +1,10 @@
 import { spawn } from "node:child_process";
+import { trackChildProcess } from "@/worker/child-processes";
 
 export function runFfmpeg(args: string[]) {
   const ffmpegBin = process.env.FFMPEG_BIN || "ffmpeg";
   return new Promise<void>((resolve, reject) => {
-    const child = spawn(ffmpegBin, args, { stdio: "inherit" });
+    const child = trackChildProcess(spawn(ffmpegBin, args, { stdio: "inherit" }));
     child.on("exit", (code) => {
       if (code === 0) resolve();
       else reject(new Error(`ffmpeg failed with code ${code}`));
@@ -11,3 +12,17 @@ export function runFfmpeg(args: string[]) {
     child.on("error", reject);
   });
 }
+
+export function runFfmpegToBuffer(args: string[]) {
+  const ffmpegBin = process.env.FFMPEG_BIN || "ffmpeg";
+  return new Promise<Buffer>((resolve, reject) => {
+    const child = trackChildProcess(spawn(ffmpegBin, args, { stdio: ["ignore", "pipe", "ignore"] }));
+    const chunks: Buffer[] = [];
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.on("close", (code) => {
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`ffmpeg failed with code ${code}`));
+    });
+    child.on("error", reject);
+  });
+}
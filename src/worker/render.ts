@@ -0,0 +1,158 @@
+import {
+  DEFAULT_LAYOUT,
+  DEFAULT_WEBCAM_RECT,
+  getLayout,
+  isLayoutKey,
+  normalizeWebcamRect,
+  type LayoutKey,
+  type NormalizedRect
+} from "@/lib/layouts";
+import type { CropConfig } from "@/lib/types";
+import { runFfmpeg } from "@/worker/ffmpeg";
+import { escapeForFilterPath, type CaptionMode, type CaptionPreset } from "@/worker/captions";
+
+export type OutputPreset = CropConfig["outputPreset"];
+export type CaptionLanguage = CropConfig["captionLanguage"];
+
+export type ParsedCropConfig = {
+  layout: LayoutKey;
+  webcam: NormalizedRect;
+  captionPreset: CaptionPreset;
+  captionMode: CaptionMode;
+  captionStyleId: string | null;
+  captionSpeakerColors: boolean;
+  outputPreset: OutputPreset;
+  captionLanguage: CaptionLanguage;
+};
+
+export const OUTPUT_DIMENSIONS: Record<OutputPreset, { width: number; height: number }> = {
+  INSTAGRAM_REELS: { width: 1080, height: 1920 },
+  YOUTUBE_SHORTS: { width: 1080, height: 1920 },
+  TIKTOK: { width: 1080, height: 1920 },
+  INSTAGRAM_FEED: { width: 1080, height: 1350 }
+};
+
+const DEFAULT_OUTPUT_PRESET: OutputPreset = "INSTAGRAM_REELS";
+const DEFAULT_CAPTION_PRESET: CaptionPreset = "BOLD";
+const DEFAULT_CAPTION_MODE: CaptionMode = "SEGMENT";
+const DEFAULT_CAPTION_LANGUAGE: CaptionLanguage = "source";
+const CAPTION_LANGUAGE_SET = new Set<CaptionLanguage>([
+  "source",
+  "en",
+  "es",
+  "pt",
+  "fr",
+  "de",
+  "it",
+  "nl",
+  "sv",
+  "no",
+  "da",
+  "fi",
+  "pl",
+  "tr",
+  "cs",
+  "ro",
+  "hu",
+  "uk",
+  "ru",
+  "ar",
+  "hi",
+  "id",
+  "ms",
+  "th",
+  "vi",
+  "ja",
+  "ko",
+  "zh"
+]);
+
+export function parseCropConfig(input: unknown): ParsedCropConfig {
+  if (!input || typeof input !== "object") {
+    return {
+      layout: DEFAULT_LAYOUT,
+      webcam: { ...DEFAULT_WEBCAM_RECT },
+      captionPreset: DEFAULT_CAPTION_PRESET,
+      captionMode: DEFAULT_CAPTION_MODE,
+      captionStyleId: null,
+      captionSpeakerColors: false,
+      outputPreset: DEFAULT_OUTPUT_PRESET,
+      captionLanguage: DEFAULT_CAPTION_LANGUAGE
+    };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const captionPreset = (["BOLD", "CLEAN", "MODERN", "MINIMAL"] as const).includes(raw.captionPreset as CaptionPreset)
+    ? (raw.captionPreset as CaptionPreset)
+    : DEFAULT_CAPTION_PRESET;
+  const captionMode = raw.captionMode === "KARAOKE" ? "KARAOKE" : DEFAULT_CAPTION_MODE;
+  const captionStyleId = typeof raw.captionStyleId === "string" && raw.captionStyleId ? raw.captionStyleId : null;
+  const captionSpeakerColors = raw.captionSpeakerColors === true;
+  const outputPreset = (["INSTAGRAM_REELS", "YOUTUBE_SHORTS", "TIKTOK", "INSTAGRAM_FEED"] as const).includes(
+    raw.outputPreset as OutputPreset
+  )
+    ? (raw.outputPreset as OutputPreset)
+    : DEFAULT_OUTPUT_PRESET;
+  const captionLanguage =
+    typeof raw.captionLanguage === "string" && CAPTION_LANGUAGE_SET.has(raw.captionLanguage as CaptionLanguage)
+      ? (raw.captionLanguage as CaptionLanguage)
+      : DEFAULT_CAPTION_LANGUAGE;
+
+  const layout = isLayoutKey(raw.layout) ? raw.layout : DEFAULT_LAYOUT;
+  const webcam = normalizeWebcamRect(raw);
+
+  return {
+    layout,
+    webcam,
+    captionPreset,
+    captionMode,
+    captionStyleId,
+    captionSpeakerColors,
+    outputPreset,
+    captionLanguage
+  };
+}
+
+export async function renderClip(params: {
+  sourcePath: string;
+  startSec: number;
+  endSec: number;
+  cropConfig: ParsedCropConfig;
+  assPath?: string | null;
+  outputPath: string;
+}) {
+  const filter = getLayout(params.cropConfig.layout).buildFilter({
+    webcam: params.cropConfig.webcam,
+    targetSize: OUTPUT_DIMENSIONS[params.cropConfig.outputPreset],
+    postFilter: params.assPath ? `ass='${escapeForFilterPath(params.assPath)}'` : undefined
+  });
+
+  await runFfmpeg([
+    "-y",
+    "-ss",
+    String(params.startSec),
+    "-t",
+    String(Math.max(0.3, params.endSec - params.startSec)),
+    "-i",
+    params.sourcePath,
+    "-filter_complex",
+    filter,
+    "-map",
+    "[vout]",
+    "-map",
+    "0:a?",
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-crf",
+    "24",
+    "-c:a",
+    "aac",
+    "-b:a",
+    "96k",
+    "-movflags",
+    "+faststart",
+    params.outputPath
+  ]);
+}
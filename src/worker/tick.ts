@@ -1,5 +1,4 @@
 import fs from "node:fs/promises";
-import { createReadStream } from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { randomUUID } from "node:crypto";
@@ -7,6 +6,7 @@ import { openai } from "@/lib/openai";
 import { supabaseAdmin } from "@/lib/supabase";
 import { ClipSuggestion, CropConfig } from "@/lib/types";
 import { runFfmpeg } from "@/worker/ffmpeg";
+import { AUTO_LANGUAGE, getTranscriptionProvider } from "@/worker/transcription";
 import { consumeMinutes } from "@/lib/usage";
 
 const CLIP_SCHEMA = {
@@ -111,14 +111,14 @@ async function processJob(job: any) {
     if (!sourceRes.ok) throw new Error("Could not download source");
     await fs.writeFile(srcPath, Buffer.from(await sourceRes.arrayBuffer()));
 
-    const transcription = await openai.audio.transcriptions.create({
-      model: "whisper-1",
-      file: createReadStream(srcPath),
-      response_format: "verbose_json"
+    const transcriptionProvider = getTranscriptionProvider("openai_compatible");
+    const transcription = await transcriptionProvider.transcribe(srcPath, {
+      language: job.source_language_override || process.env.TRANSCRIBE_LANGUAGE || AUTO_LANGUAGE,
+      durationSec: Number(job.source_duration_sec || 0)
     });
 
-    const transcriptText = (transcription as any).text || "";
-    const segments = ((transcription as any).segments || []) as Array<{ start: number; end: number; text: string }>;
+    const transcriptText = transcription.text;
+    const segments = transcription.segments;
 
     const suggestionsRaw = await openai.chat.completions.create({
       model: "gpt-4o-mini",
@@ -214,7 +214,11 @@ async function processJob(job: any) {
           youtube: { title: segment.title, description: buildDescription(segment.hook, segment.reason) },
           tiktok: { caption: `${segment.title} ${hashtags.join(" ")}` },
           instagram: { caption: `${segment.hook}\n${hashtags.join(" ")}` },
-          x: { text: `${segment.title} ${hashtags.slice(0, 3).join(" ")}` }
+          x: { text: `${segment.title} ${hashtags.slice(0, 3).join(" ")}` },
+          providers: {
+            transcription: transcriptionProvider.name,
+            transcription_model: transcriptionProvider.model
+          }
         },
         expires_at: new Date(Date.now() + 72 * 3600 * 1000).toISOString()
       });
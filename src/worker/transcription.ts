@@ -0,0 +1,348 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { runFfmpeg } from "@/worker/ffmpeg";
+import { trackChildProcess } from "@/worker/child-processes";
+
+export type TranscriptSegment = { start: number; end: number; text: string; speaker?: string | null };
+export type TranscriptWord = { start: number; end: number; word: string };
+
+export type TranscriptionResult = {
+  text: string;
+  language: string | null;
+  durationSec: number;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+};
+
+export const AUTO_LANGUAGE = "auto";
+
+export type TranscriptionOptions = {
+  language: string;
+  durationSec: number;
+  minDurationSec?: number;
+  prompt?: string;
+  hotwords?: string[];
+};
+
+export const TRANSCRIPTION_PROVIDERS = ["stub", "faster_whisper", "whisper_cpp", "openai_compatible"] as const;
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDERS)[number];
+
+export type TranscriptionProvider = {
+  name: TranscriptionProviderName;
+  model: string | null;
+  transcribe(audioPath: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+};
+
+type RawTranscription = {
+  text?: string;
+  language?: string | null;
+  duration?: number;
+  segments?: Array<{ start?: number; end?: number; text?: string }>;
+  words?: Array<{ start?: number; end?: number; word?: string }>;
+};
+
+const LANGUAGE_NAME_CODES: Record<string, string> = {
+  english: "en",
+  portuguese: "pt",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  dutch: "nl",
+  japanese: "ja",
+  korean: "ko",
+  chinese: "zh",
+  russian: "ru",
+  arabic: "ar",
+  hindi: "hi"
+};
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, max));
+}
+
+function isAutoLanguage(language: string) {
+  return !language || language.toLowerCase() === AUTO_LANGUAGE;
+}
+
+export function normalizeLanguageCode(value: unknown) {
+  const raw = String(value || "").trim().toLowerCase();
+  if (!raw || raw === AUTO_LANGUAGE) return null;
+  if (LANGUAGE_NAME_CODES[raw]) return LANGUAGE_NAME_CODES[raw];
+  const code = raw.split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(code) ? code : null;
+}
+
+function normalizeTranscriptSegments(raw: NonNullable<RawTranscription["segments"]>, durationSec: number) {
+  const safeDuration = Math.max(1, durationSec || 1);
+  return raw
+    .map((segment) => {
+      const start = Number(segment.start || 0);
+      const end = Number(segment.end || segment.start || 0);
+      return {
+        start: clamp(Number.isFinite(start) ? start : 0, 0, safeDuration),
+        end: clamp(Number.isFinite(end) ? end : 0, 0, safeDuration),
+        text: String(segment.text || "").trim()
+      };
+    })
+    .filter((segment) => segment.end > segment.start && segment.text.length > 0);
+}
+
+function normalizeTranscriptWords(raw: NonNullable<RawTranscription["words"]>, durationSec: number) {
+  const safeDuration = Math.max(1, durationSec || 1);
+  return raw
+    .map((word) => {
+      const start = Number(word.start || 0);
+      const end = Number(word.end || word.start || 0);
+      return {
+        start: clamp(Number.isFinite(start) ? start : 0, 0, safeDuration),
+        end: clamp(Number.isFinite(end) ? end : 0, 0, safeDuration),
+        word: String(word.word || "").trim()
+      };
+    })
+    .filter((word) => word.end > word.start && word.word.length > 0);
+}
+
+export function splitTextIntoTranscriptSegments(text: string, durationSec: number) {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (!words.length) return [] as TranscriptSegment[];
+
+  const chunkWords = 8;
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += chunkWords) {
+    chunks.push(words.slice(i, i + chunkWords).join(" "));
+  }
+
+  const safeDuration = Math.max(1, durationSec || 1);
+  const secPerChunk = safeDuration / chunks.length;
+
+  return chunks.map((chunk, idx) => ({
+    start: idx * secPerChunk,
+    end: idx === chunks.length - 1 ? safeDuration : (idx + 1) * secPerChunk,
+    text: chunk
+  }));
+}
+
+function toTranscriptionResult(raw: RawTranscription, options: TranscriptionOptions): TranscriptionResult {
+  const minDuration = options.minDurationSec ?? 1;
+  const durationSec = Number(raw.duration || options.durationSec || minDuration);
+  const text = String(raw.text || "").trim();
+  const normalizedSegments = normalizeTranscriptSegments(raw.segments || [], durationSec);
+  const words = normalizeTranscriptWords(raw.words || [], durationSec);
+  const segments = normalizedSegments.length
+    ? normalizedSegments
+    : splitTextIntoTranscriptSegments(text || "No transcript generated.", Math.max(minDuration, durationSec));
+
+  return {
+    text: text || segments.map((segment) => segment.text).join(" ").trim(),
+    language: normalizeLanguageCode(raw.language) ?? normalizeLanguageCode(options.language),
+    durationSec,
+    segments,
+    words
+  };
+}
+
+function runProcess(command: string, args: string[], label: string) {
+  return new Promise<string>((resolve, reject) => {
+    const child = trackChildProcess(spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] }));
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += String(chunk);
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr += String(chunk);
+    });
+    child.on("error", (err) => reject(err));
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`${label} failed (${code}): ${stderr || stdout}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+function parseJson<T>(raw: string, label: string) {
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`Could not parse ${label} JSON output: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function createStubProvider(): TranscriptionProvider {
+  return {
+    name: "stub",
+    model: null,
+    async transcribe(_audioPath, options) {
+      const fallbackPath = path.join(process.cwd(), "dev", "transcripts", "default.json");
+      const parsed = JSON.parse(await fs.readFile(fallbackPath, "utf8")) as { text?: string };
+      const text = String(parsed.text || "").trim();
+      if (!text) {
+        throw new Error("dev/transcripts/default.json must contain a non-empty \"text\" value.");
+      }
+
+      const durationSec = Math.max(options.minDurationSec ?? 1, Number(options.durationSec || 0));
+      return {
+        text,
+        language: normalizeLanguageCode(options.language),
+        durationSec,
+        segments: splitTextIntoTranscriptSegments(text, durationSec),
+        words: []
+      };
+    }
+  };
+}
+
+function createFasterWhisperProvider(): TranscriptionProvider {
+  const model = process.env.FASTER_WHISPER_MODEL || "small";
+  const computeType = process.env.FASTER_WHISPER_COMPUTE_TYPE || "int8";
+  const scriptPath = path.join(process.cwd(), "worker", "scripts", "faster_whisper_transcribe.py");
+
+  return {
+    name: "faster_whisper",
+    model,
+    async transcribe(audioPath, options) {
+      const stdout = await runProcess(
+        "python3",
+        [
+          scriptPath,
+          "--audio",
+          audioPath,
+          "--model",
+          model,
+          "--language",
+          isAutoLanguage(options.language) ? AUTO_LANGUAGE : options.language,
+          "--compute-type",
+          computeType,
+          ...(options.prompt ? ["--initial-prompt", options.prompt] : []),
+          ...(options.hotwords?.length ? ["--hotwords", options.hotwords.join(" ")] : [])
+        ],
+        "faster_whisper"
+      );
+      return toTranscriptionResult(parseJson<RawTranscription>(stdout, "faster_whisper"), options);
+    }
+  };
+}
+
+type WhisperCppToken = { text?: string; offsets?: { from?: number; to?: number } };
+type WhisperCppOutput = {
+  result?: { language?: string };
+  transcription?: Array<{ text?: string; offsets?: { from?: number; to?: number }; tokens?: WhisperCppToken[] }>;
+};
+
+function whisperCppWords(tokens: WhisperCppToken[]) {
+  const words: Array<{ start: number; end: number; word: string }> = [];
+  for (const token of tokens) {
+    const text = String(token.text || "");
+    if (!text.trim() || /^\[_.*_\]$/.test(text.trim())) continue;
+    const start = Number(token.offsets?.from || 0) / 1000;
+    const end = Number(token.offsets?.to || 0) / 1000;
+    const previous = words[words.length - 1];
+    if (previous && !text.startsWith(" ")) {
+      previous.word += text;
+      previous.end = end;
+      continue;
+    }
+    words.push({ start, end, word: text.trim() });
+  }
+  return words;
+}
+
+function createWhisperCppProvider(): TranscriptionProvider {
+  const bin = process.env.WHISPER_CPP_BIN || "whisper-cli";
+  const model = process.env.WHISPER_CPP_MODEL || "models/ggml-small.bin";
+  const threads = process.env.WHISPER_CPP_THREADS || "4";
+
+  return {
+    name: "whisper_cpp",
+    model: path.basename(model),
+    async transcribe(audioPath, options) {
+      const wavPath = audioPath.replace(/\.[^./]+$/, "") + ".whisper.wav";
+      const outputBase = audioPath.replace(/\.[^./]+$/, "") + ".whisper";
+      await runFfmpeg(["-y", "-i", audioPath, "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", wavPath]);
+      try {
+        await runProcess(
+          bin,
+          [
+            "-m",
+            model,
+            "-f",
+            wavPath,
+            "-l",
+            isAutoLanguage(options.language) ? AUTO_LANGUAGE : options.language,
+            "-t",
+            threads,
+            "-ojf",
+            "-of",
+            outputBase,
+            "-np",
+            ...(options.prompt ? ["--prompt", options.prompt] : [])
+          ],
+          "whisper_cpp"
+        );
+        const output = parseJson<WhisperCppOutput>(await fs.readFile(`${outputBase}.json`, "utf8"), "whisper_cpp");
+        const rows = output.transcription || [];
+        return toTranscriptionResult(
+          {
+            text: rows.map((row) => String(row.text || "").trim()).join(" "),
+            language: output.result?.language,
+            segments: rows.map((row) => ({
+              start: Number(row.offsets?.from || 0) / 1000,
+              end: Number(row.offsets?.to || 0) / 1000,
+              text: row.text
+            })),
+            words: rows.flatMap((row) => whisperCppWords(row.tokens || []))
+          },
+          options
+        );
+      } finally {
+        await fs.rm(wavPath, { force: true }).catch(() => undefined);
+        await fs.rm(`${outputBase}.json`, { force: true }).catch(() => undefined);
+      }
+    }
+  };
+}
+
+function createOpenAiCompatibleProvider(): TranscriptionProvider {
+  const baseUrl = (process.env.TRANSCRIBE_API_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+  const apiKey = process.env.TRANSCRIBE_API_KEY || process.env.OPENAI_API_KEY || "";
+  const model = process.env.TRANSCRIBE_API_MODEL || "whisper-1";
+
+  return {
+    name: "openai_compatible",
+    model,
+    async transcribe(audioPath, options) {
+      const bytes = await fs.readFile(audioPath);
+      const form = new FormData();
+      form.append("file", new Blob([bytes]), path.basename(audioPath));
+      form.append("model", model);
+      if (!isAutoLanguage(options.language)) form.append("language", options.language.split("-")[0]);
+      if (options.prompt) form.append("prompt", options.prompt);
+      form.append("response_format", "verbose_json");
+      form.append("timestamp_granularities[]", "segment");
+      form.append("timestamp_granularities[]", "word");
+
+      const res = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: form
+      });
+      const raw = await res.text();
+      if (!res.ok) throw new Error(`openai_compatible transcription failed (${res.status}): ${raw.slice(0, 500)}`);
+      return toTranscriptionResult(parseJson<RawTranscription>(raw, "openai_compatible"), options);
+    }
+  };
+}
+
+export function getTranscriptionProvider(fallback: TranscriptionProviderName = "stub"): TranscriptionProvider {
+  const value = (process.env.TRANSCRIBE_PROVIDER || fallback).trim().toLowerCase();
+  if (value === "stub") return createStubProvider();
+  if (value === "faster_whisper") return createFasterWhisperProvider();
+  if (value === "whisper_cpp") return createWhisperCppProvider();
+  if (value === "openai_compatible") return createOpenAiCompatibleProvider();
+  throw new Error(`Invalid TRANSCRIBE_PROVIDER "${value}". Use one of: ${TRANSCRIPTION_PROVIDERS.join(", ")}.`);
+}
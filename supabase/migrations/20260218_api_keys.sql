@@ -0,0 +1,52 @@
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null,
+  scopes text[] not null default '{}',
+  rate_limit_per_minute int not null default 60,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_api_keys_hash on public.api_keys(key_hash);
+create index if not exists idx_api_keys_user on public.api_keys(user_id, created_at desc);
+
+alter table public.api_keys enable row level security;
+
+drop policy if exists "api_keys_select_own" on public.api_keys;
+create policy "api_keys_select_own" on public.api_keys
+  for select using (auth.uid() = user_id);
+
+-- Fixed one-window-per-key counters, shared by every app instance.
+create table if not exists public.api_key_rate_limits (
+  key_id uuid primary key references public.api_keys(id) on delete cascade,
+  window_start timestamptz not null,
+  request_count int not null default 0
+);
+
+alter table public.api_key_rate_limits enable row level security;
+
+create or replace function public.consume_api_key_rate_limit(p_key_id uuid, p_window_seconds int)
+returns table (window_start timestamptz, request_count int)
+language sql
+as $$
+  insert into public.api_key_rate_limits as current (key_id, window_start, request_count)
+  values (
+    p_key_id,
+    to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds),
+    1
+  )
+  on conflict (key_id) do update
+    set request_count = case
+          when current.window_start = excluded.window_start then current.request_count + 1
+          else 1
+        end,
+        window_start = excluded.window_start
+  returning current.window_start, current.request_count;
+$$;
+
+revoke all on function public.consume_api_key_rate_limit(uuid, int) from public, anon, authenticated;
+grant execute on function public.consume_api_key_rate_limit(uuid, int) to service_role;
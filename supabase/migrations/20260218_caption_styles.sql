@@ -0,0 +1,29 @@
+create table if not exists public.caption_styles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null,
+  style jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_caption_styles_user_created
+  on public.caption_styles(user_id, created_at desc);
+
+alter table public.caption_styles enable row level security;
+
+drop policy if exists "caption_styles_select_own" on public.caption_styles;
+create policy "caption_styles_select_own" on public.caption_styles
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "caption_styles_insert_own" on public.caption_styles;
+create policy "caption_styles_insert_own" on public.caption_styles
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "caption_styles_update_own" on public.caption_styles;
+create policy "caption_styles_update_own" on public.caption_styles
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "caption_styles_delete_own" on public.caption_styles;
+create policy "caption_styles_delete_own" on public.caption_styles
+  for delete using (auth.uid() = user_id);
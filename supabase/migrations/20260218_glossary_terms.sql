@@ -0,0 +1,30 @@
+create table if not exists public.glossary_terms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  term text not null,
+  aliases text[] not null default '{}',
+  do_not_translate boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_glossary_terms_user_term
+  on public.glossary_terms(user_id, lower(term));
+
+alter table public.glossary_terms enable row level security;
+
+drop policy if exists "glossary_terms_select_own" on public.glossary_terms;
+create policy "glossary_terms_select_own" on public.glossary_terms
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "glossary_terms_insert_own" on public.glossary_terms;
+create policy "glossary_terms_insert_own" on public.glossary_terms
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "glossary_terms_update_own" on public.glossary_terms;
+create policy "glossary_terms_update_own" on public.glossary_terms
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "glossary_terms_delete_own" on public.glossary_terms;
+create policy "glossary_terms_delete_own" on public.glossary_terms
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,4 @@
+alter type public.job_status add value if not exists 'CANCELLED';
+
+alter table public.jobs
+  add column if not exists cancel_requested_at timestamptz;
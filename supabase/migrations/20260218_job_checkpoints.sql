@@ -0,0 +1,13 @@
+create table if not exists public.job_checkpoints (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  stage text not null,
+  data jsonb,
+  artifact_path text
+);
+
+create unique index if not exists idx_job_checkpoints_job_stage on public.job_checkpoints(job_id, stage);
+
+alter table public.job_checkpoints enable row level security;
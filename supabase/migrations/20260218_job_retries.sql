@@ -0,0 +1,7 @@
+alter table public.jobs
+  add column if not exists attempt_count integer not null default 0,
+  add column if not exists max_attempts integer not null default 3,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists retry_history jsonb not null default '[]'::jsonb;
+
+create index if not exists idx_jobs_next_attempt_at on public.jobs(status, next_attempt_at);
@@ -0,0 +1,3 @@
+alter table public.jobs
+  add column if not exists processing_mode text not null default 'FULL'
+  check (processing_mode in ('FULL', 'RESELECT', 'RERENDER'));
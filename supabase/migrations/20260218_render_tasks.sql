@@ -0,0 +1,26 @@
+create table if not exists public.render_tasks (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  job_id uuid not null references public.jobs(id) on delete cascade,
+  clip_id text not null,
+  kind text not null default 'ADJUST',
+  status text not null default 'QUEUED',
+  payload jsonb not null default '{}'::jsonb,
+  processing_stage text,
+  processing_progress int not null default 0,
+  processing_note text,
+  error_message text,
+  processing_started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index if not exists idx_render_tasks_status_created on public.render_tasks(status, created_at asc);
+create index if not exists idx_render_tasks_job_clip on public.render_tasks(job_id, clip_id, created_at desc);
+
+alter table public.render_tasks enable row level security;
+
+drop policy if exists "render_tasks_select_own" on public.render_tasks;
+create policy "render_tasks_select_own" on public.render_tasks
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+alter table public.jobs
+  add column if not exists source_language text,
+  add column if not exists source_language_override text;
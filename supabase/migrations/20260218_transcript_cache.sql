@@ -0,0 +1,18 @@
+create table if not exists public.transcript_cache (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  source_hash text not null,
+  provider text not null,
+  model text not null default '',
+  language text not null,
+  options_signature text not null,
+  transcript_json jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, source_hash, provider, model, language, options_signature)
+);
+
+alter table public.transcript_cache enable row level security;
+
+drop policy if exists "transcript_cache_select_own" on public.transcript_cache;
+create policy "transcript_cache_select_own" on public.transcript_cache
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,2 @@
+alter table public.jobs
+  add column if not exists transcript_words jsonb;
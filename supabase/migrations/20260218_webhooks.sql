@@ -0,0 +1,43 @@
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  url text not null,
+  secret text not null,
+  events text[] not null default '{}',
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_endpoints_user on public.webhook_endpoints(user_id, created_at desc);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references public.webhook_endpoints(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  event text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'PENDING',
+  attempt_count int not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_response_status int,
+  last_error text,
+  attempts jsonb not null default '[]'::jsonb,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhook_deliveries_due on public.webhook_deliveries(status, next_attempt_at asc);
+create index if not exists idx_webhook_deliveries_endpoint on public.webhook_deliveries(endpoint_id, created_at desc);
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+drop policy if exists "webhook_endpoints_select_own" on public.webhook_endpoints;
+create policy "webhook_endpoints_select_own" on public.webhook_endpoints
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "webhook_deliveries_select_own" on public.webhook_deliveries;
+create policy "webhook_deliveries_select_own" on public.webhook_deliveries
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+create table if not exists public.workers (
+  id text primary key,
+  host text not null,
+  version text,
+  providers jsonb not null default '{}'::jsonb,
+  concurrency integer not null default 1,
+  started_at timestamptz not null default now(),
+  last_heartbeat_at timestamptz not null default now()
+);
+
+create index if not exists idx_workers_last_heartbeat on public.workers(last_heartbeat_at);
+
+alter table public.workers enable row level security;
+
+alter table public.jobs
+  add column if not exists claimed_by text;
+
+alter table public.render_tasks
+  add column if not exists claimed_by text;
+
+create index if not exists idx_jobs_claimed_by on public.jobs(claimed_by) where status = 'PROCESSING';
+create index if not exists idx_render_tasks_claimed_by on public.render_tasks(claimed_by) where status = 'PROCESSING';
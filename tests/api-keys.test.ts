@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { NextRequest } from "next/server";
+
+// api-keys pulls in the Supabase client, which validates the environment on import.
+function loadApiKeys() {
+  process.env.SUPABASE_URL ||= "http://127.0.0.1:54321";
+  process.env.SUPABASE_ANON_KEY ||= "anon";
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||= "service-role";
+  process.env.INTERNAL_CRON_SECRET ||= "cron";
+  return import("@/lib/api-keys");
+}
+
+test("hashApiKey is a stable SHA-256 hex digest", async () => {
+  const { hashApiKey } = await loadApiKeys();
+  const expected = crypto.createHash("sha256").update("mk_example").digest("hex");
+  assert.equal(hashApiKey("mk_example"), expected);
+  assert.notEqual(hashApiKey("mk_example2"), expected);
+});
+
+test("generateApiKey returns a prefixed key, its display prefix and its hash", async () => {
+  const { generateApiKey, hashApiKey } = await loadApiKeys();
+  const first = generateApiKey();
+  const second = generateApiKey();
+  assert.match(first.key, /^mk_[A-Za-z0-9_-]{32}$/);
+  assert.equal(first.prefix, first.key.slice(0, 10));
+  assert.equal(first.hash, hashApiKey(first.key));
+  assert.notEqual(first.key, second.key);
+});
+
+test("hasApiKeyScope only grants listed scopes", async () => {
+  const { hasApiKeyScope } = await loadApiKeys();
+  assert.equal(hasApiKeyScope(["jobs:read"], "jobs:read"), true);
+  assert.equal(hasApiKeyScope(["jobs:read"], "jobs:write"), false);
+  assert.equal(hasApiKeyScope(["jobs:read", "jobs:write"], "jobs:write"), true);
+  assert.equal(hasApiKeyScope(null, "jobs:read"), false);
+  assert.equal(hasApiKeyScope("jobs:read", "jobs:read"), false);
+});
+
+test("apiKeyCreateSchema validates scopes and defaults the rate limit", async () => {
+  const { apiKeyCreateSchema } = await loadApiKeys();
+  const parsed = apiKeyCreateSchema.parse({ name: " CI ", scopes: ["jobs:read"] });
+  assert.deepEqual(parsed, { name: "CI", scopes: ["jobs:read"], rateLimitPerMinute: 60 });
+  assert.equal(apiKeyCreateSchema.safeParse({ name: "CI", scopes: ["admin"] }).success, false);
+  assert.equal(apiKeyCreateSchema.safeParse({ name: "CI", scopes: [] }).success, false);
+  assert.equal(apiKeyCreateSchema.safeParse({ name: "CI", scopes: ["jobs:read"], rateLimitPerMinute: 0 }).success, false);
+});
+
+test("authenticateApiKey rejects requests without an mk_ bearer token", async () => {
+  const { authenticateApiKey } = await loadApiKeys();
+  for (const authorization of [undefined, "Bearer session-token", "Basic mk_abc"]) {
+    const request = new NextRequest("http://localhost/api/v1/jobs", {
+      headers: authorization ? { authorization } : {}
+    });
+    assert.deepEqual(await authenticateApiKey(request, "jobs:read"), {
+      ok: false,
+      status: 401,
+      error: "Missing API key"
+    });
+  }
+});
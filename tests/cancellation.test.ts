@@ -0,0 +1,79 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { cancelledJobUpdate, planJobCancellation } from "@/lib/job-cancellation";
+import { JOB_CANCELLED_MESSAGE, watchCancellation } from "../worker/cancellation";
+
+test("queued jobs move straight to CANCELLED", () => {
+  for (const status of ["PENDING", "UPLOADED", "READY_TO_PROCESS"]) {
+    assert.equal(planJobCancellation(status), "CANCEL");
+  }
+  assert.deepEqual(cancelledJobUpdate("2026-02-18T10:00:00.000Z"), {
+    status: "CANCELLED",
+    error_message: null,
+    finished_at: "2026-02-18T10:00:00.000Z",
+    processing_stage: "CANCELLED",
+    processing_progress: 0,
+    processing_note: "Cancelled by user.",
+    updated_at: "2026-02-18T10:00:00.000Z"
+  });
+});
+
+test("processing jobs only get a cancel request", () => {
+  assert.equal(planJobCancellation("PROCESSING"), "REQUEST");
+});
+
+test("finished jobs cannot be cancelled, which the cancel endpoint answers with 409", () => {
+  for (const status of ["DONE", "FAILED", "EXPIRED", "CANCELLED"]) {
+    assert.equal(planJobCancellation(status), null);
+  }
+});
+
+test("throwIfCancelled passes while no cancel was requested", async () => {
+  let cancels = 0;
+  const watch = watchCancellation("job-1", async () => false, () => (cancels += 1), 60_000);
+  try {
+    await watch.throwIfCancelled();
+    assert.equal(watch.cancelled, false);
+    assert.equal(cancels, 0);
+  } finally {
+    watch.stop();
+  }
+});
+
+test("throwIfCancelled throws and stops child work once a cancel is requested", async () => {
+  let requested = false;
+  let cancels = 0;
+  const watch = watchCancellation("job-1", async () => requested, () => (cancels += 1), 60_000);
+  try {
+    await watch.throwIfCancelled();
+    requested = true;
+    await assert.rejects(watch.throwIfCancelled(), { message: JOB_CANCELLED_MESSAGE });
+    await assert.rejects(watch.throwIfCancelled(), { message: JOB_CANCELLED_MESSAGE });
+    assert.equal(watch.cancelled, true);
+    assert.equal(cancels, 1);
+  } finally {
+    watch.stop();
+  }
+});
+
+test("the cancellation poll stops child work without waiting for a checkpoint", async () => {
+  let cancels = 0;
+  const watch = watchCancellation("job-1", async () => true, () => (cancels += 1), 5);
+  try {
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(watch.cancelled, true);
+    assert.equal(cancels, 1);
+  } finally {
+    watch.stop();
+  }
+});
+
+test("a failing cancel lookup in the poll is ignored", async () => {
+  const watch = watchCancellation("job-1", () => Promise.reject(new Error("db down")), () => undefined, 5);
+  try {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(watch.cancelled, false);
+  } finally {
+    watch.stop();
+  }
+});
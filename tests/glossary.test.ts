@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyGlossary,
+  applyGlossaryToText,
+  applyGlossaryToWords,
+  glossaryPrompt,
+  glossaryTermSchema,
+  protectedGlossaryTerms,
+  type GlossaryTerm
+} from "@/lib/glossary";
+
+const terms: GlossaryTerm[] = [
+  { term: "Supabase", aliases: ["supa base", "super base"], doNotTranslate: true },
+  { term: "Next.js", aliases: ["next js"], doNotTranslate: true },
+  { term: "deploy", aliases: ["deployar"], doNotTranslate: false }
+];
+
+test("applyGlossaryToText replaces aliases with the canonical term regardless of case", () => {
+  assert.equal(
+    applyGlossaryToText("We use Super Base with next   js, then deployar.", terms),
+    "We use Supabase with Next.js, then deploy."
+  );
+});
+
+test("applyGlossaryToText only replaces whole words", () => {
+  assert.equal(applyGlossaryToText("supabaseish and supa based", terms), "supabaseish and supa based");
+});
+
+test("applyGlossaryToWords merges multi-word aliases and keeps timing and punctuation", () => {
+  const words = [
+    { start: 0, end: 0.4, word: "Open" },
+    { start: 0.4, end: 0.7, word: "(supa" },
+    { start: 0.7, end: 1.1, word: "base)," },
+    { start: 1.1, end: 1.5, word: "now" }
+  ];
+  assert.deepEqual(applyGlossaryToWords(words, terms), [
+    { start: 0, end: 0.4, word: "Open" },
+    { start: 0.4, end: 1.1, word: "(Supabase)," },
+    { start: 1.1, end: 1.5, word: "now" }
+  ]);
+});
+
+test("applyGlossary corrects text, segments and words together", () => {
+  const transcript = {
+    text: "Deploy on super base.",
+    language: "en",
+    segments: [{ start: 0, end: 2, text: "Deploy on super base.", speaker: "SPEAKER_00" }],
+    words: [
+      { start: 0, end: 0.5, word: "Deploy" },
+      { start: 0.5, end: 0.7, word: "on" },
+      { start: 0.7, end: 1.2, word: "super" },
+      { start: 1.2, end: 2, word: "base." }
+    ]
+  };
+  const corrected = applyGlossary(transcript, terms);
+  assert.equal(corrected.text, "deploy on Supabase.");
+  assert.deepEqual(corrected.segments, [{ start: 0, end: 2, text: "deploy on Supabase.", speaker: "SPEAKER_00" }]);
+  assert.deepEqual(corrected.words.map((word) => word.word), ["deploy", "on", "Supabase."]);
+  assert.equal(corrected.language, "en");
+  assert.equal(applyGlossary(transcript, []), transcript);
+});
+
+test("glossaryPrompt lists canonical terms for the initial prompt and caps its length", () => {
+  assert.equal(glossaryPrompt(terms), "Supabase, Next.js, deploy");
+  assert.equal(glossaryPrompt([]), "");
+  const many = Array.from({ length: 100 }, (_, index) => ({ term: `Term${index}`, aliases: [], doNotTranslate: true }));
+  assert.equal(glossaryPrompt(many).length, 600);
+});
+
+test("protectedGlossaryTerms keeps only do-not-translate terms", () => {
+  assert.deepEqual(protectedGlossaryTerms(terms), ["Supabase", "Next.js"]);
+  assert.deepEqual(protectedGlossaryTerms([]), []);
+});
+
+test("glossary terms are protected from translation by default", () => {
+  assert.deepEqual(glossaryTermSchema.parse({ term: " Vercel " }), { term: "Vercel", aliases: [], doNotTranslate: true });
+});
@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_WEBCAM_RECT,
+  LAYOUT_KEYS,
+  MIN_WEBCAM_RECT_SIZE,
+  getLayout,
+  isLayoutKey,
+  normalizeWebcamRect,
+  recommendedLayoutForGenre,
+  screenRectForWebcam
+} from "@/lib/layouts";
+
+const TARGET = { width: 1080, height: 1920 };
+
+test("normalizeWebcamRect clamps into the frame and falls back on bad input", () => {
+  assert.deepEqual(normalizeWebcamRect({ x: 0.9, y: -1, width: 0.5, height: 2 }), {
+    x: 0.9,
+    y: 0,
+    width: 1 - 0.9,
+    height: 1
+  });
+  assert.deepEqual(normalizeWebcamRect({ x: "0.1", y: "0.2", width: "0.3", height: "0.4" }), {
+    x: 0.1,
+    y: 0.2,
+    width: 0.3,
+    height: 0.4
+  });
+  assert.equal(normalizeWebcamRect({ x: 0.1, y: 0.2, width: 0.001, height: 0.3 }).width, MIN_WEBCAM_RECT_SIZE);
+  assert.deepEqual(normalizeWebcamRect({ x: "", y: 0, width: 0.2, height: 0.2 }), DEFAULT_WEBCAM_RECT);
+  assert.deepEqual(normalizeWebcamRect(null), DEFAULT_WEBCAM_RECT);
+});
+
+test("screenRectForWebcam keeps the largest strip beside the webcam", () => {
+  assert.deepEqual(screenRectForWebcam({ x: 0.7, y: 0.7, width: 0.3, height: 0.3 }), {
+    x: 0,
+    y: 0,
+    width: 0.7,
+    height: 1
+  });
+  assert.deepEqual(screenRectForWebcam({ x: 0, y: 0, width: 1, height: 1 }), { x: 0, y: 0, width: 1, height: 1 });
+});
+
+test("recommendedLayoutForGenre maps talking genres and demos", () => {
+  assert.equal(recommendedLayoutForGenre("Podcast"), "TALKING_HEAD");
+  assert.equal(recommendedLayoutForGenre("Interview"), "TALKING_HEAD");
+  assert.equal(recommendedLayoutForGenre("Demo"), "SCREEN_FACECAM_BUBBLE");
+  assert.equal(recommendedLayoutForGenre("Tutorial"), "TOP_WEBCAM_BOTTOM_SCREEN");
+  assert.equal(recommendedLayoutForGenre(null), "TOP_WEBCAM_BOTTOM_SCREEN");
+});
+
+test("isLayoutKey only accepts known layouts", () => {
+  assert.equal(isLayoutKey("PIP_WEBCAM"), true);
+  assert.equal(isLayoutKey("pip_webcam"), false);
+  assert.equal(isLayoutKey(3), false);
+});
+
+test("every layout builds a filter ending in vout and previews inside the frame", () => {
+  for (const key of LAYOUT_KEYS) {
+    const layout = getLayout(key);
+    const filter = layout.buildFilter({ webcam: DEFAULT_WEBCAM_RECT, targetSize: TARGET });
+    assert.match(filter, /\[vout\]$/, key);
+    for (const region of layout.preview(DEFAULT_WEBCAM_RECT, TARGET)) {
+      assert.ok(region.target.x >= 0 && region.target.y >= 0, key);
+      assert.ok(region.target.x + region.target.width <= 1 + 1e-9, key);
+      assert.ok(region.target.y + region.target.height <= 1 + 1e-9, key);
+    }
+  }
+});
+
+test("stacked layouts split the output into webcam and screen bands", () => {
+  const [webcam, screen] = getLayout("TOP_WEBCAM_BOTTOM_SCREEN").preview(DEFAULT_WEBCAM_RECT, TARGET);
+  assert.equal(webcam.role, "webcam");
+  assert.equal(webcam.target.y, 0);
+  assert.equal(screen.role, "screen");
+  assert.ok(Math.abs(screen.target.y - webcam.target.height) < 1e-9);
+  assert.match(
+    getLayout("TOP_WEBCAM_BOTTOM_SCREEN").buildFilter({ webcam: DEFAULT_WEBCAM_RECT, targetSize: TARGET, postFilter: "fps=30," }),
+    /vstack=inputs=2,fps=30,\[vout\]$/
+  );
+});
@@ -0,0 +1,58 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { classifyFailure, readRetryHistory, retryDelayMs } from "@/lib/retry-policy";
+
+function withEnv(values: Record<string, string | undefined>, run: () => void) {
+  const previous = Object.fromEntries(Object.keys(values).map((key) => [key, process.env[key]]));
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  try {
+    run();
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+}
+
+test("retryDelayMs doubles from the base delay and caps at the max", () => {
+  withEnv({ WORKER_RETRY_BASE_SECONDS: undefined, WORKER_RETRY_MAX_SECONDS: undefined }, () => {
+    assert.deepEqual([1, 2, 3, 4, 5, 6].map(retryDelayMs), [30_000, 60_000, 120_000, 240_000, 480_000, 900_000]);
+    assert.equal(retryDelayMs(0), 30_000);
+  });
+});
+
+test("retryDelayMs reads its base and cap from the environment", () => {
+  withEnv({ WORKER_RETRY_BASE_SECONDS: "5", WORKER_RETRY_MAX_SECONDS: "12" }, () => {
+    assert.deepEqual([1, 2, 3].map(retryDelayMs), [5_000, 10_000, 12_000]);
+  });
+  withEnv({ WORKER_RETRY_BASE_SECONDS: "-1", WORKER_RETRY_MAX_SECONDS: "nope" }, () => {
+    assert.equal(retryDelayMs(1), 30_000);
+  });
+});
+
+test("classifyFailure retries transient errors and fails fast on the rest", () => {
+  for (const message of [
+    "Request timed out",
+    "read ECONNRESET",
+    "socket hang up",
+    "Provider failed (503)",
+    "Too Many Requests",
+    "Could not upload clip_1.mp4"
+  ]) {
+    assert.equal(classifyFailure(message), "retryable", message);
+  }
+  for (const message of ["Source video not found", "Transcript is empty", "Provider failed (400)"]) {
+    assert.equal(classifyFailure(message), "fatal", message);
+  }
+});
+
+test("readRetryHistory ignores anything that is not an array", () => {
+  assert.deepEqual(readRetryHistory(null), []);
+  assert.deepEqual(readRetryHistory({ attempt: 1 }), []);
+  const history = [{ attempt: 1, failedAt: "2026-01-01T00:00:00.000Z", error: "x", retryable: true, nextAttemptAt: null }];
+  assert.deepEqual(readRetryHistory(history), history);
+});
@@ -3,6 +3,7 @@ import assert from "node:assert/strict";
 import { normalizeTranscript } from "@/lib/selection/normalizeTranscript";
 import { generateCandidates } from "@/lib/selection/candidates";
 import { rankCandidates } from "@/lib/selection/select";
+import { scoreCandidate } from "@/lib/selection/score";
 import { DEFAULT_SELECTION_CONFIG, type SelectionConfig } from "@/lib/selection/types";
 
 function baseConfig(overrides?: Partial<SelectionConfig>): SelectionConfig {
@@ -85,3 +86,40 @@ test("include_moment_text boosts matching candidates", () => {
   assert.ok(normalTop && boostedTop);
   assert.ok(boostedTop.text_excerpt.toLowerCase().includes("pricing"));
 });
+
+test("diarized question and answer are scored as an exchange", () => {
+  const segments = [
+    { start: 0, end: 6, text: "Thanks for joining the show today.", speaker: "SPEAKER_00" },
+    { start: 6, end: 12, text: "So why did you decide to leave your job and start the company?", speaker: "SPEAKER_00" },
+    {
+      start: 12.2,
+      end: 24,
+      text: "Honestly I was tired of shipping features nobody used, so I quit and built the tool I wanted myself.",
+      speaker: "SPEAKER_01"
+    },
+    {
+      start: 24.2,
+      end: 36,
+      text: "The first year was brutal because we had no revenue and only a handful of early users.",
+      speaker: "SPEAKER_01"
+    }
+  ];
+  const config = baseConfig({ genre: "podcast", duration_min_s: 20, duration_max_s: 40 });
+
+  const diarized = generateCandidates(normalizeTranscript(segments), config);
+  const exchange = diarized.find((candidate) => candidate.features_summary.has_qa_exchange === true);
+  assert.ok(exchange);
+  assert.equal(exchange.features_summary.speaker_count, 2);
+
+  const anonymous = generateCandidates(
+    normalizeTranscript(segments.map(({ speaker: _speaker, ...segment }) => segment)),
+    config
+  );
+  assert.ok(anonymous.every((candidate) => candidate.features_summary.has_qa_exchange !== true));
+
+  const withoutExchange = {
+    ...exchange,
+    features_summary: { ...exchange.features_summary, has_qa_exchange: false, speaker_count: 0 }
+  };
+  assert.ok(scoreCandidate(exchange, config).score_total > scoreCandidate(withoutExchange, config).score_total);
+});
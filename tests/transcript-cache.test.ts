@@ -0,0 +1,47 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildTranscriptCacheKey, transcriptOptionsSignature } from "../worker/transcript-cache";
+
+const base = {
+  userId: "user-a",
+  sourceHash: "abc123",
+  provider: "local-whisper",
+  model: "small",
+  language: "pt",
+  glossary: [{ term: "Supabase", aliases: ["supa base"], doNotTranslate: true }],
+  diarize: false
+};
+
+test("identical inputs produce the same transcript cache key", () => {
+  assert.deepEqual(buildTranscriptCacheKey(base), buildTranscriptCacheKey({ ...base, glossary: [...base.glossary] }));
+});
+
+test("a different user produces a different cache key", () => {
+  const own = buildTranscriptCacheKey(base);
+  const other = buildTranscriptCacheKey({ ...base, userId: "user-b" });
+  assert.notEqual(own.userId, other.userId);
+  assert.equal(own.optionsSignature, other.optionsSignature);
+});
+
+test("glossary changes produce a different options signature", () => {
+  const own = buildTranscriptCacheKey(base);
+  const added = buildTranscriptCacheKey({
+    ...base,
+    glossary: [...base.glossary, { term: "Next.js", aliases: [], doNotTranslate: false }]
+  });
+  const aliasChanged = buildTranscriptCacheKey({
+    ...base,
+    glossary: [{ term: "Supabase", aliases: ["supabeise"], doNotTranslate: true }]
+  });
+  const empty = buildTranscriptCacheKey({ ...base, glossary: [] });
+  assert.equal(new Set([own, added, aliasChanged, empty].map((key) => key.optionsSignature)).size, 4);
+});
+
+test("the diarize setting produces a different options signature", () => {
+  assert.notEqual(transcriptOptionsSignature(base.glossary, false), transcriptOptionsSignature(base.glossary, true));
+  assert.match(buildTranscriptCacheKey({ ...base, diarize: true }).optionsSignature, /diarize=1$/);
+});
+
+test("a missing model is stored as an empty string", () => {
+  assert.equal(buildTranscriptCacheKey({ ...base, model: undefined }).model, "");
+});
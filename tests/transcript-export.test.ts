@@ -0,0 +1,86 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { chapterTimestamp, detectChapters, renderTranscript, type ExportableTranscript } from "@/lib/transcript-export";
+import type { TimedSegment } from "@/lib/transcript";
+
+function transcript(segments: TimedSegment[]): ExportableTranscript {
+  return {
+    title: "Episode",
+    language: "en",
+    text: segments.map((segment) => segment.text).join(" "),
+    segments,
+    words: []
+  };
+}
+
+test("srt output numbers cues and uses comma milliseconds", () => {
+  const srt = renderTranscript(
+    "srt",
+    transcript([
+      { start: 0, end: 1.5, text: "Hello there." },
+      { start: 3661.25, end: 3662.0004, text: "An hour later." },
+      { start: 3663, end: 3664, text: "" }
+    ])
+  );
+  assert.equal(
+    srt,
+    "1\n00:00:00,000 --> 00:00:01,500\nHello there.\n\n2\n01:01:01,250 --> 01:01:02,000\nAn hour later.\n"
+  );
+});
+
+test("vtt output has a header, dot milliseconds and voice tags", () => {
+  const vtt = renderTranscript(
+    "vtt",
+    transcript([
+      { start: 0.999, end: 2.0005, text: "Welcome.", speaker: "Ana" },
+      { start: 59.9996, end: 61, text: "Next." }
+    ])
+  );
+  assert.equal(
+    vtt,
+    "WEBVTT\n\n00:00:00.999 --> 00:00:02.001\n<v Ana>Welcome.\n\n00:01:00.000 --> 00:01:01.000\nNext.\n"
+  );
+});
+
+test("chapterTimestamp drops the hour when it is zero", () => {
+  assert.equal(chapterTimestamp(0), "00:00");
+  assert.equal(chapterTimestamp(75.4), "01:15");
+  assert.equal(chapterTimestamp(3725), "1:02:05");
+});
+
+test("detectChapters splits on transitions and long pauses once a chapter is long enough", () => {
+  const chapters = detectChapters([
+    { start: 5, end: 20, text: "Today we set up the project." },
+    { start: 20, end: 40, text: "Now let's install the dependencies." },
+    { start: 40, end: 60, text: "It takes a minute." },
+    { start: 61, end: 80, text: "Moving on, configure the database connection string." },
+    { start: 80, end: 110, text: "Copy the URL." },
+    { start: 114, end: 130, text: "Deploying is the last part." }
+  ]);
+  assert.deepEqual(
+    chapters.map((chapter) => [chapter.start, chapter.end, chapter.heading]),
+    [
+      [0, 60, "Today we set up the project"],
+      [61, 110, "Configure the database connection string"],
+      [114, 130, "Deploying is the last part"]
+    ]
+  );
+});
+
+test("detectChapters caps chapters at five minutes and truncates long headings", () => {
+  const segments = Array.from({ length: 12 }, (_, index) => ({
+    start: index * 30,
+    end: index * 30 + 29,
+    text: "one two three four five six seven eight nine ten."
+  }));
+  const chapters = detectChapters(segments);
+  assert.equal(chapters.length, 2);
+  assert.equal(chapters[1].start, 300);
+  assert.equal(chapters[0].heading, "One two three four five six seven eight…");
+});
+
+test("markdown lists chapters only when there is more than one", () => {
+  const single = renderTranscript("md", transcript([{ start: 0, end: 5, text: "Short clip." }]));
+  assert.ok(!single.includes("## Chapters"));
+  assert.ok(single.includes("## [00:00] Short clip"));
+});
@@ -0,0 +1,88 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { applySegmentEdits, readTranscriptSegments } from "@/lib/transcript";
+
+const segments = [
+  { start: 0, end: 2, text: "hello world", speaker: "SPEAKER_00" },
+  { start: 2, end: 4, text: "this is fine" },
+  { start: 4, end: 6, text: "goodbye now" }
+];
+
+const words = [
+  { start: 0, end: 1, word: "hello" },
+  { start: 1, end: 2, word: "world" },
+  { start: 2, end: 2.6, word: "this" },
+  { start: 2.6, end: 3.2, word: "is" },
+  { start: 3.2, end: 4, word: "fine" },
+  { start: 4, end: 5, word: "goodbye" },
+  { start: 5, end: 6, word: "now" }
+];
+
+test("applySegmentEdits merges several edits into the transcript text and keeps segment fields", () => {
+  const result = applySegmentEdits(segments, words, [
+    { index: 0, text: "  Hello,   world! " },
+    { index: 2, text: "Goodbye for now" }
+  ]);
+  assert.deepEqual(result.segments[0], { start: 0, end: 2, text: "Hello, world!", speaker: "SPEAKER_00" });
+  assert.equal(result.segments[1], segments[1]);
+  assert.equal(result.text, "Hello, world! this is fine Goodbye for now");
+  assert.deepEqual(
+    result.changed.map((segment) => segment.text),
+    ["Hello, world!", "Goodbye for now"]
+  );
+  assert.deepEqual(
+    result.words.map((word) => word.word),
+    ["Hello,", "world!", "this", "is", "fine", "Goodbye", "for", "now"]
+  );
+  assert.equal(segments[0].text, "hello world");
+});
+
+test("applySegmentEdits keeps word timings when the word count is unchanged", () => {
+  const result = applySegmentEdits(segments, words, [{ index: 1, text: "this was fine" }]);
+  assert.deepEqual(result.words.slice(2, 5), [
+    { start: 2, end: 2.6, word: "this" },
+    { start: 2.6, end: 3.2, word: "was" },
+    { start: 3.2, end: 4, word: "fine" }
+  ]);
+});
+
+test("applySegmentEdits re-times words evenly across the segment when the word count changes", () => {
+  const result = applySegmentEdits(segments, words, [{ index: 1, text: "all good" }]);
+  assert.deepEqual(result.words, [
+    words[0],
+    words[1],
+    { start: 2, end: 3, word: "all" },
+    { start: 3, end: 4, word: "good" },
+    words[5],
+    words[6]
+  ]);
+});
+
+test("applySegmentEdits rejects out-of-range and no-op edits without touching the transcript", () => {
+  const result = applySegmentEdits(segments, words, [
+    { index: 3, text: "does not exist" },
+    { index: 1, text: "this  is fine" }
+  ]);
+  assert.deepEqual(result.changed, []);
+  assert.deepEqual(result.segments, segments);
+  assert.deepEqual(result.words, words);
+});
+
+test("applySegmentEdits leaves words empty when the transcript has none", () => {
+  const result = applySegmentEdits(segments, [], [{ index: 0, text: "hi there" }]);
+  assert.deepEqual(result.words, []);
+  assert.equal(result.changed.length, 1);
+});
+
+test("readTranscriptSegments drops malformed rows and normalizes whitespace", () => {
+  assert.deepEqual(
+    readTranscriptSegments([
+      { start: 0, end: 1, text: " a   b ", speaker: "S1" },
+      { start: 2, end: 1, text: "backwards" },
+      { start: "x", end: 3, text: "bad" },
+      null
+    ]),
+    [{ start: 0, end: 1, text: "a b", speaker: "S1" }]
+  );
+  assert.deepEqual(readTranscriptSegments("nope"), []);
+});
@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { detectWebcamFromFrames } from "../worker/webcam-detection";
+
+const WIDTH = 64;
+const HEIGHT = 36;
+
+// Static grey frames with a moving skin-toned block in the bottom-right corner.
+function frame(index: number, withWebcam = true) {
+  const buffer = Buffer.alloc(WIDTH * HEIGHT * 3, 90);
+  if (!withWebcam) return buffer;
+  const shift = index % 2 ? 12 : -12;
+  for (let y = 24; y < HEIGHT; y += 1) {
+    for (let x = 48; x < WIDTH; x += 1) {
+      const offset = (y * WIDTH + x) * 3;
+      buffer[offset] = 200 + shift;
+      buffer[offset + 1] = 150 + shift;
+      buffer[offset + 2] = 120 + shift;
+    }
+  }
+  return buffer;
+}
+
+test("detectWebcamFromFrames finds a moving skin-toned corner region", () => {
+  const detected = detectWebcamFromFrames(Array.from({ length: 6 }, (_, index) => frame(index)));
+  assert.ok(detected);
+  assert.ok(detected.confidence >= 0.2);
+  assert.ok(detected.rect.x <= 0.75 && detected.rect.x >= 0.5);
+  assert.ok(detected.rect.y <= 2 / 3 && detected.rect.y >= 0.4);
+  assert.ok(detected.rect.x + detected.rect.width >= 0.99);
+  assert.ok(detected.rect.y + detected.rect.height >= 0.99);
+});
+
+test("detectWebcamFromFrames returns null for static frames", () => {
+  assert.equal(detectWebcamFromFrames(Array.from({ length: 6 }, (_, index) => frame(index, false))), null);
+});
+
+test("detectWebcamFromFrames needs at least two frames", () => {
+  assert.equal(detectWebcamFromFrames([frame(0)]), null);
+  assert.equal(detectWebcamFromFrames([]), null);
+});
@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import {
+  isBlockedWebhookHost,
+  isPrivateAddress,
+  signWebhookBody,
+  verifyWebhookSignature,
+  webhookEndpointSchema
+} from "@/lib/webhooks";
+
+const SECRET = "whsec_test";
+const BODY = JSON.stringify({ id: "d1", event: "job.done", data: { jobId: "j1" } });
+
+test("signWebhookBody signs the timestamp and body with HMAC-SHA256", () => {
+  const expected = crypto.createHmac("sha256", SECRET).update(`1700000000.${BODY}`).digest("hex");
+  assert.equal(signWebhookBody(SECRET, BODY, 1700000000), `t=1700000000,v1=${expected}`);
+});
+
+test("verifyWebhookSignature accepts a fresh signature", () => {
+  assert.equal(verifyWebhookSignature(SECRET, BODY, signWebhookBody(SECRET, BODY)), true);
+});
+
+test("verifyWebhookSignature rejects tampered bodies, wrong secrets and malformed headers", () => {
+  const header = signWebhookBody(SECRET, BODY);
+  assert.equal(verifyWebhookSignature(SECRET, `${BODY} `, header), false);
+  assert.equal(verifyWebhookSignature("whsec_other", BODY, header), false);
+  const flipped = `${header.slice(0, -1)}${header.endsWith("0") ? "1" : "0"}`;
+  assert.equal(verifyWebhookSignature(SECRET, BODY, flipped), false);
+  assert.equal(verifyWebhookSignature(SECRET, BODY, "v1=abc"), false);
+  assert.equal(verifyWebhookSignature(SECRET, BODY, "t=now,v1=abc"), false);
+  assert.equal(verifyWebhookSignature(SECRET, BODY, ""), false);
+});
+
+test("verifyWebhookSignature rejects signatures outside the tolerance window", () => {
+  const stale = Math.floor(Date.now() / 1000) - 301;
+  assert.equal(verifyWebhookSignature(SECRET, BODY, signWebhookBody(SECRET, BODY, stale)), false);
+  assert.equal(verifyWebhookSignature(SECRET, BODY, signWebhookBody(SECRET, BODY, stale), 600), true);
+});
+
+test("isPrivateAddress blocks loopback, private, link-local and metadata ranges", () => {
+  const blocked = [
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1"
+  ];
+  for (const address of blocked) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test("isBlockedWebhookHost blocks local hostnames and private literals", () => {
+  const blocked = ["localhost", "api.localhost", "printer.local", "metadata.google.internal", "127.0.0.1", "LOCALHOST.", ""];
+  for (const host of blocked) {
+    assert.equal(isBlockedWebhookHost(host), true, host);
+  }
+  assert.equal(isBlockedWebhookHost("hooks.example.com"), false);
+});
+
+test("webhookEndpointSchema rejects private targets and non-http schemes", () => {
+  const parse = (url: string) => webhookEndpointSchema.safeParse({ url, events: ["job.done"] }).success;
+  assert.equal(parse("https://hooks.example.com/macet"), true);
+  assert.equal(parse("http://localhost:4010"), false);
+  assert.equal(parse("http://169.254.169.254/latest/meta-data"), false);
+  assert.equal(parse("http://[::1]:8080/"), false);
+  assert.equal(parse("ftp://hooks.example.com"), false);
+});
@@ -0,0 +1,40 @@
+export const JOB_CANCELLED_MESSAGE = "Job cancelled.";
+
+const CANCEL_POLL_INTERVAL_MS = 2000;
+
+export function watchCancellation(
+  jobId: string,
+  isRequested: () => Promise<boolean>,
+  onCancel: () => void,
+  pollMs = CANCEL_POLL_INTERVAL_MS
+) {
+  const state = { cancelled: false };
+  const markCancelled = () => {
+    if (state.cancelled) return;
+    state.cancelled = true;
+    console.log(`[worker] cancellation requested for job ${jobId}, stopping child processes`);
+    onCancel();
+  };
+  const timer = setInterval(() => {
+    isRequested()
+      .then((requested) => {
+        if (requested) markCancelled();
+      })
+      .catch(() => undefined);
+  }, pollMs);
+
+  return {
+    get cancelled() {
+      return state.cancelled;
+    },
+    async throwIfCancelled() {
+      if (!state.cancelled && (await isRequested())) markCancelled();
+      if (state.cancelled) throw new Error(JOB_CANCELLED_MESSAGE);
+    },
+    stop() {
+      clearInterval(timer);
+    }
+  };
+}
+
+export type CancellationWatch = ReturnType<typeof watchCancellation>;
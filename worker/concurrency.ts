@@ -0,0 +1,40 @@
+export type Limiter = {
+  readonly max: number;
+  readonly active: number;
+  run<T>(task: () => Promise<T>): Promise<T>;
+};
+
+function readLimit(name: string, fallback: number) {
+  const parsed = Number(process.env[name] || "");
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : fallback;
+}
+
+export function createLimiter(max: number): Limiter {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  function release() {
+    const next = waiting.shift();
+    if (next) next();
+    else active -= 1;
+  }
+
+  return {
+    max,
+    get active() {
+      return active;
+    },
+    async run<T>(task: () => Promise<T>) {
+      if (active >= max) await new Promise<void>((resolve) => waiting.push(resolve));
+      else active += 1;
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    }
+  };
+}
+
+export const transcriptionSlots = createLimiter(readLimit("WORKER_TRANSCRIBE_CONCURRENCY", 1));
+export const renderSlots = createLimiter(readLimit("WORKER_RENDER_CONCURRENCY", 2));
@@ -5,57 +5,19 @@ import os from "node:os";
 import { spawn } from "node:child_process";
 import dns from "node:dns";
 import { createClient } from "@supabase/supabase-js";
+import {
+  WORKER_API_PATHS,
+  type HeartbeatResponse,
+  type ProgressResponse,
+  type Segment,
+  type SegmentsResponse,
+  type StartResponse,
+  type TranscribeResponse,
+  type TranscriptSegment
+} from "@/lib/worker-protocol";
 
 dns.setDefaultResultOrder("ipv4first");
 
-type StartResponse = {
-  job: {
-    id: string;
-    userId: string;
-    status: string;
-    webcamCrop?: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      captionPreset?: "BOLD" | "CLEAN";
-    };
-    captionStyle?: "BOLD" | "CLEAN";
-  };
-  source: {
-    signedUrl: string;
-    path: string;
-    durationSec?: number;
-    width?: number | null;
-    height?: number | null;
-  };
-  limits: {
-    maxSegments: number;
-    minSegSec: number;
-    maxSegSec: number;
-  };
-};
-
-type Segment = {
-  start_sec: number;
-  end_sec: number;
-  title: string;
-  hook: string;
-  reason: string;
-};
-
-type TranscriptSegment = { start: number; end: number; text: string };
-
-type TranscribeResponse = {
-  text: string;
-  segments?: TranscriptSegment[];
-  durationSec?: number;
-};
-
-type SegmentsResponse = {
-  segments: Segment[];
-};
-
 const DEFAULT_MAX_TRANSCRIBE_AUDIO_MB = 20;
 const DEFAULT_TRANSCRIBE_CHUNK_SECONDS = 45;
 
@@ -197,25 +159,27 @@ async function postInternal(pathname: string, payload: Record<string, unknown>,
   return data;
 }
 
-async function persistTranscriptForJob(supabase: any, jobId: string, transcript: string) {
-  const nowIso = new Date().toISOString();
-
-  let { error } = await supabase
-    .from("jobs")
-    .update({ transcript, updated_at: nowIso })
-    .eq("id", jobId);
-
-  if (error?.message?.includes("transcript")) {
-    const fallback = await supabase
-      .from("jobs")
-      .update({ updated_at: nowIso })
-      .eq("id", jobId);
-    error = fallback.error;
-  }
+async function reportProgress(
+  jobId: string,
+  stage: string,
+  progress: number,
+  note: string,
+  secret: string,
+  base: string
+) {
+  const data = (await postInternal(WORKER_API_PATHS.progress, { jobId, stage, progress, note }, secret, base)) as ProgressResponse;
+  if (data.cancelRequested) throw new Error("Job cancelled.");
+}
 
-  if (error) {
-    console.warn(`[worker:transcribe] could not persist transcript: ${error.message}`);
-  }
+function startHeartbeat(workerId: string, register: () => Promise<unknown>, secret: string, base: string) {
+  const intervalMs = parsePositiveNumber(process.env.WORKER_HEARTBEAT_SECONDS, 15) * 1000;
+  const timer = setInterval(() => {
+    (postInternal(WORKER_API_PATHS.heartbeat, { workerId }, secret, base) as Promise<HeartbeatResponse>)
+      .then((data) => (data.registered ? undefined : register()))
+      .catch((error) => log("heartbeat", `failed: ${getErrorMessage(error)}`));
+  }, intervalMs);
+  timer.unref();
+  return timer;
 }
 
 async function transcribeInChunks(params: {
@@ -273,7 +237,7 @@ async function transcribeInChunks(params: {
 
     log("transcribe", `requesting chunk ${i + 1}/${chunkFiles.length} offset=${offsetSec.toFixed(2)}s`);
     const chunkTranscription = (await postInternal(
-      "/api/internal/ai/transcribe",
+      WORKER_API_PATHS.transcribe,
       {
         jobId,
         audioPath: chunkStoragePath,
@@ -323,16 +287,37 @@ async function main() {
     auth: { autoRefreshToken: false, persistSession: false }
   });
 
+  const workerId =
+    process.env.WORKER_ID || `gh-actions:${process.env.GITHUB_RUN_ID || os.hostname()}:${process.pid}`;
+  const register = () =>
+    postInternal(
+      WORKER_API_PATHS.register,
+      {
+        workerId,
+        host: os.hostname(),
+        version: process.env.WORKER_VERSION || null,
+        providers: { runner: "github-actions" },
+        concurrency: 1
+      },
+      WORKER_SECRET,
+      INTERNAL_API_BASE_URL
+    );
+  await register().catch((error) => log("heartbeat", `could not register: ${getErrorMessage(error)}`));
+  const heartbeat = startHeartbeat(workerId, register, WORKER_SECRET, INTERNAL_API_BASE_URL);
+
   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "splitshorts-gh-"));
   const sourcePath = path.join(tmpDir, "source.mp4");
   const audioPath = path.join(tmpDir, "audio.mp3");
   const outDir = path.join(tmpDir, "out");
   await fs.mkdir(outDir, { recursive: true });
 
+  const progress = (stage: string, value: number, note: string) =>
+    reportProgress(JOB_ID, stage, value, note, WORKER_SECRET, INTERNAL_API_BASE_URL);
+
   const failSafe = async (message: string) => {
     try {
       await postInternal(
-        "/api/internal/worker/fail",
+        WORKER_API_PATHS.fail,
         { jobId: JOB_ID, errorMessage: message.slice(0, 4000) },
         WORKER_SECRET,
         INTERNAL_API_BASE_URL
@@ -345,13 +330,14 @@ async function main() {
   try {
     log("start", `claiming job ${JOB_ID}`);
     const startData = (await postInternal(
-      "/api/internal/worker/start",
-      { jobId: JOB_ID },
+      WORKER_API_PATHS.start,
+      { jobId: JOB_ID, workerId },
       WORKER_SECRET,
       INTERNAL_API_BASE_URL
     )) as StartResponse;
 
     log("download", "downloading source video");
+    await progress("DOWNLOADING_SOURCE", 5, "Downloading source video.");
     const srcRes = await fetch(startData.source.signedUrl);
     if (!srcRes.ok) throw new Error(`Download failed (${srcRes.status})`);
     await fs.writeFile(sourcePath, Buffer.from(await srcRes.arrayBuffer()));
@@ -374,6 +360,7 @@ async function main() {
     const duration = Number(probe?.format?.duration || startData.source.durationSec || 60);
 
     log("audio", "extracting audio track");
+    await progress("EXTRACTING_AUDIO", 15, "Extracting audio.");
     await run("ffmpeg", [
       "-y",
       "-i",
@@ -401,6 +388,7 @@ async function main() {
     });
     if (audioUpload.error) throw audioUpload.error;
 
+    await progress("TRANSCRIBING", 25, "Transcribing audio.");
     let transcript: TranscribeResponse;
     if (audioSizeMb > MAX_TRANSCRIBE_AUDIO_MB) {
       log(
@@ -417,12 +405,11 @@ async function main() {
         baseUrl: INTERNAL_API_BASE_URL,
         supabase
       });
-      await persistTranscriptForJob(supabase, startData.job.id, transcript.text || "");
     } else {
       try {
         log("transcribe", "requesting transcript from internal API");
         transcript = (await postInternal(
-          "/api/internal/ai/transcribe",
+          WORKER_API_PATHS.transcribe,
           { jobId: startData.job.id, audioPath: audioStoragePath },
           WORKER_SECRET,
           INTERNAL_API_BASE_URL
@@ -444,8 +431,7 @@ async function main() {
           baseUrl: INTERNAL_API_BASE_URL,
           supabase
         });
-        await persistTranscriptForJob(supabase, startData.job.id, transcript.text || "");
-      }
+        }
     }
 
     const transcriptText = (transcript.text || "").trim();
@@ -453,9 +439,10 @@ async function main() {
     const transcriptSegments = (transcript.segments || []) as TranscriptSegment[];
 
     log("segment", "requesting clip segments from internal API");
+    await progress("SELECTING_CLIPS", 50, "Selecting highlights.");
     const segmentsRes = (await postInternal(
-      "/api/internal/ai/segments",
-      { jobId: startData.job.id, transcriptText },
+      WORKER_API_PATHS.segments,
+      { jobId: startData.job.id, transcriptText, transcriptSegments },
       WORKER_SECRET,
       INTERNAL_API_BASE_URL
     )) as SegmentsResponse;
@@ -499,6 +486,11 @@ async function main() {
         `[stack]subtitles='${escapeFilterPath(srtLocal)}'[v]`;
 
       log("render", `rendering ${clipId}`);
+      await progress(
+        "RENDERING_EXPORTS",
+        60 + Math.round((i / segments.length) * 30),
+        `Rendering clip ${i + 1}/${segments.length}.`
+      );
       await run("ffmpeg", [
         "-y",
         "-ss",
@@ -558,11 +550,13 @@ async function main() {
     }
 
     log("finish", `sending ${exportsPayload.length} exports`);
+    await progress("FINALIZING", 95, "Finalizing exports.");
     await postInternal(
-      "/api/internal/worker/finish",
+      WORKER_API_PATHS.finish,
       {
         jobId: startData.job.id,
         measuredDurationSec: transcript.durationSec || duration,
+        transcript: { text: transcriptText, segments: transcriptSegments },
         exports: exportsPayload
       },
       WORKER_SECRET,
@@ -574,8 +568,12 @@ async function main() {
     const message = err?.message || "Unknown worker error";
     console.error(err);
     await failSafe(message);
-    process.exit(1);
+    process.exitCode = 1;
   } finally {
+    clearInterval(heartbeat);
+    await postInternal(WORKER_API_PATHS.unregister, { workerId }, WORKER_SECRET, INTERNAL_API_BASE_URL).catch(
+      (error) => log("heartbeat", `could not unregister: ${getErrorMessage(error)}`)
+    );
     await fs.rm(tmpDir, { recursive: true, force: true });
   }
 }
@@ -1,7 +1,27 @@
+import { parseCaptionStyle, type CaptionStyle } from "@/lib/caption-styles";
+import type { GlossaryTerm } from "@/lib/glossary";
+import type { JobRetryAttempt } from "@/lib/types";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { enqueueWebhookEvent } from "@/lib/webhook-queue";
+import type { WebhookDeliveryAttempt, WebhookEvent } from "@/lib/webhooks";
 import { prisma } from "@/lib/prisma";
+import { readRetryHistory } from "@/lib/retry-policy";
 
 const prismaClient = prisma as any;
 
+let webhookClient: SupabaseClient | null = null;
+
+// Created on first use because the worker loads its .env files after the imports run.
+function queueWebhookEvent(userId: string, event: WebhookEvent, data: Record<string, unknown>) {
+  const url = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) return Promise.resolve();
+  webhookClient ??= createClient(url, serviceRoleKey, { auth: { autoRefreshToken: false, persistSession: false } });
+  return enqueueWebhookEvent(webhookClient, userId, event, data).catch((error: unknown) =>
+    console.error(`[webhooks] could not enqueue ${event}:`, error)
+  );
+}
+
 export type WorkerJob = {
   id: string;
   userId: string;
@@ -10,8 +30,19 @@ export type WorkerJob = {
   sourceDurationSec: number;
   cropConfig: unknown;
   transcript: string | null;
+  transcriptSegments?: unknown;
+  transcriptWords?: unknown;
+  transcriptEditedAt?: Date | null;
+  suggestions?: unknown;
+  processingMode?: string | null;
+  attemptCount?: number;
+  maxAttempts?: number;
+  retryHistory?: unknown;
   clipStyle?: string | null;
   genre?: string | null;
+  autoHook?: boolean | null;
+  sourceLanguage?: string | null;
+  sourceLanguageOverride?: string | null;
   desiredClipCount?: number | null;
   clipLengthMaxS?: number | null;
   includeMomentText?: string | null;
@@ -36,25 +67,110 @@ export type FinalizeExport = {
   expiresAt: Date;
 };
 
-export async function recoverStaleProcessingJobs(staleTimeoutMinutes: number) {
+export type WorkerRegistration = {
+  id: string;
+  host: string;
+  version: string | null;
+  providers: Record<string, unknown>;
+  concurrency: number;
+};
+
+export async function registerWorker(worker: WorkerRegistration, pruneAfterHours = 24) {
   const now = new Date();
-  const staleCutoff = new Date(now.getTime() - staleTimeoutMinutes * 60 * 1000);
+  await prismaClient.worker.deleteMany({
+    where: { lastHeartbeatAt: { lt: new Date(now.getTime() - pruneAfterHours * 3600 * 1000) } }
+  });
+  await prismaClient.worker.upsert({
+    where: { id: worker.id },
+    create: { ...worker, startedAt: now, lastHeartbeatAt: now },
+    update: { ...worker, startedAt: now, lastHeartbeatAt: now }
+  });
+}
 
-  await prismaClient.job.updateMany({
+export async function heartbeatWorker(workerId: string) {
+  const result = await prismaClient.worker.updateMany({
+    where: { id: workerId },
+    data: { lastHeartbeatAt: new Date() }
+  });
+  return result.count > 0;
+}
+
+export async function unregisterWorker(workerId: string) {
+  await prismaClient.worker.deleteMany({ where: { id: workerId } });
+}
+
+export async function findLiveWorkerIds(heartbeatTimeoutSeconds: number): Promise<string[]> {
+  const cutoff = new Date(Date.now() - heartbeatTimeoutSeconds * 1000);
+  const rows: Array<{ id: string }> = await prismaClient.worker.findMany({
+    where: { lastHeartbeatAt: { gte: cutoff } },
+    select: { id: true }
+  });
+  return rows.map((row) => row.id);
+}
+
+type StaleJob = {
+  id: string;
+  userId: string;
+  claimedBy: string | null;
+  attemptCount: number;
+  maxAttempts: number;
+  retryHistory: unknown;
+};
+
+export async function recoverStaleProcessingJobs(
+  staleTimeoutMinutes: number,
+  liveWorkerIds: string[],
+  activeJobIds: string[] = []
+) {
+  const now = new Date();
+  const staleCutoff = new Date(now.getTime() - staleTimeoutMinutes * 60 * 1000);
+  const stale: StaleJob[] = await prismaClient.job.findMany({
     where: {
+      id: { notIn: activeJobIds },
       status: "PROCESSING",
-      processingStartedAt: { lt: staleCutoff }
+      OR: [
+        { claimedBy: { not: null, notIn: liveWorkerIds } },
+        { claimedBy: null, processingStartedAt: { lt: staleCutoff } }
+      ]
     },
-    data: {
-      status: "READY_TO_PROCESS",
-      errorMessage: null,
-      processingStage: "QUEUED",
-      processingProgress: 1,
-      processingNote: `Recovered stale PROCESSING job after ${staleTimeoutMinutes} minutes.`,
-      processingStartedAt: null,
-      updatedAt: now
-    }
+    select: { id: true, userId: true, claimedBy: true, attemptCount: true, maxAttempts: true, retryHistory: true }
   });
+
+  for (const job of stale) {
+    const error = job.claimedBy
+      ? "Recovered job after its worker stopped sending heartbeats."
+      : `Recovered stale PROCESSING job after ${staleTimeoutMinutes} minutes.`;
+    const exhausted = job.attemptCount >= job.maxAttempts;
+    const retryHistory: JobRetryAttempt[] = [
+      ...readRetryHistory(job.retryHistory),
+      { attempt: job.attemptCount, failedAt: now.toISOString(), error, retryable: true, nextAttemptAt: null }
+    ];
+    const data = exhausted
+      ? {
+          status: "FAILED",
+          errorMessage: `${error} No attempts left (${job.attemptCount}/${job.maxAttempts}).`,
+          finishedAt: now,
+          processingStage: "FAILED",
+          processingProgress: 0,
+          processingNote: `${error} No attempts left (${job.attemptCount}/${job.maxAttempts}).`
+        }
+      : {
+          status: "READY_TO_PROCESS",
+          errorMessage: null,
+          processingStage: "QUEUED",
+          processingProgress: 1,
+          processingNote: error,
+          processingStartedAt: null
+        };
+
+    const result = await prismaClient.job.updateMany({
+      where: { id: job.id, status: "PROCESSING", claimedBy: job.claimedBy },
+      data: { ...data, claimedBy: null, nextAttemptAt: null, retryHistory, updatedAt: now }
+    });
+    if (result.count && exhausted) {
+      await queueWebhookEvent(job.userId, "job.failed", { jobId: job.id, status: "FAILED", errorMessage: data.errorMessage });
+    }
+  }
 }
 
 export async function findNextReadyJob() {
@@ -62,13 +178,14 @@ export async function findNextReadyJob() {
   return prismaClient.job.findFirst({
     where: {
       status: "READY_TO_PROCESS",
-      expiresAt: { gt: now }
+      expiresAt: { gt: now },
+      OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }]
     },
     orderBy: { createdAt: "asc" }
   });
 }
 
-export async function claimJob(jobId: string) {
+export async function claimJob(jobId: string, workerId: string) {
   const now = new Date();
   const claim = await prismaClient.job.updateMany({
     where: {
@@ -81,12 +198,32 @@ export async function claimJob(jobId: string) {
       processingStage: "PROCESSING",
       processingProgress: 2,
       processingNote: "Local worker claimed this job.",
+      claimedBy: workerId,
+      attemptCount: { increment: 1 },
+      nextAttemptAt: null,
       updatedAt: now
     }
   });
 
   if (claim.count === 0) return null;
-  return prismaClient.job.findUnique({ where: { id: jobId } });
+  const job = await prismaClient.job.findUnique({ where: { id: jobId } });
+  if (job) await queueWebhookEvent(job.userId, "job.processing", { jobId, status: "PROCESSING" });
+  return job;
+}
+
+export async function releaseJob(jobId: string, note: string) {
+  await prismaClient.job.updateMany({
+    where: { id: jobId, status: "PROCESSING" },
+    data: {
+      status: "READY_TO_PROCESS",
+      processingStage: "QUEUED",
+      processingProgress: 1,
+      processingNote: note,
+      processingStartedAt: null,
+      attemptCount: { decrement: 1 },
+      updatedAt: new Date()
+    }
+  });
 }
 
 export async function updateJobProgress(jobId: string, stage: string, progress: number, note?: string) {
@@ -105,10 +242,12 @@ export async function finalizeJob(
   jobId: string,
   exportsRows: FinalizeExport[],
   suggestions: unknown,
-  transcriptText: string
+  transcriptText: string,
+  transcriptSegments: unknown,
+  transcriptWords: unknown
 ) {
   const now = new Date();
-  await prismaClient.$transaction(async (tx: any) => {
+  const job = await prismaClient.$transaction(async (tx: any) => {
     await tx.jobExport.deleteMany({ where: { jobId } });
 
     if (exportsRows.length) {
@@ -130,27 +269,281 @@ export async function finalizeJob(
       });
     }
 
-    await tx.job.update({
+    return tx.job.update({
       where: { id: jobId },
       data: {
         status: "DONE",
         suggestions: suggestions as object,
         transcript: transcriptText,
+        transcriptSegments: transcriptSegments as object,
+        transcriptWords: transcriptWords as object,
         finishedAt: now,
         processingStage: "DONE",
         processingProgress: 100,
         processingNote: "Local worker finished processing.",
         errorMessage: null,
+        nextAttemptAt: null,
         updatedAt: now
       }
     });
   });
+  await prismaClient.jobCheckpoint.deleteMany({ where: { jobId } }).catch(() => undefined);
+  await queueWebhookEvent(job.userId, "job.done", {
+    jobId,
+    status: "DONE",
+    clips: exportsRows.map((item) => ({
+      clipId: item.clipId,
+      clipUrl: item.clipUrl,
+      title: item.title,
+      hook: item.hook,
+      expiresAt: item.expiresAt
+    }))
+  });
+}
+
+export async function failJob(jobId: string, errorMessage: string, retryHistory: JobRetryAttempt[]) {
+  const now = new Date();
+  const job = await prismaClient.job.update({
+    where: { id: jobId },
+    data: {
+      status: "FAILED",
+      errorMessage,
+      finishedAt: now,
+      processingStage: "FAILED",
+      processingProgress: 0,
+      processingNote: errorMessage,
+      nextAttemptAt: null,
+      retryHistory,
+      updatedAt: now
+    }
+  });
+  await queueWebhookEvent(job.userId, "job.failed", { jobId, status: "FAILED", errorMessage });
+}
+
+export async function scheduleJobRetry(jobId: string, nextAttemptAt: Date, note: string, retryHistory: JobRetryAttempt[]) {
+  await prismaClient.job.update({
+    where: { id: jobId },
+    data: {
+      status: "READY_TO_PROCESS",
+      errorMessage: null,
+      processingStage: "RETRY_SCHEDULED",
+      processingProgress: 1,
+      processingNote: note,
+      processingStartedAt: null,
+      nextAttemptAt,
+      retryHistory,
+      updatedAt: new Date()
+    }
+  });
+}
+
+export async function isJobCancelRequested(jobId: string) {
+  const row = await prismaClient.job
+    .findUnique({ where: { id: jobId }, select: { cancelRequestedAt: true } })
+    .catch(() => null);
+  return Boolean(row?.cancelRequestedAt);
+}
+
+export async function cancelJob(jobId: string) {
+  const now = new Date();
+  await prismaClient.job.update({
+    where: { id: jobId },
+    data: {
+      status: "CANCELLED",
+      errorMessage: null,
+      finishedAt: now,
+      processingStage: "CANCELLED",
+      processingProgress: 0,
+      processingNote: "Cancelled by user.",
+      updatedAt: now
+    }
+  });
+  await prismaClient.jobCheckpoint.deleteMany({ where: { jobId } }).catch(() => undefined);
 }
 
-export async function failJob(jobId: string, errorMessage: string) {
+export async function findNextJobAwaitingWebcamDetection(
+  needsDetection: (cropConfig: unknown) => boolean
+): Promise<WorkerJob | null> {
   const now = new Date();
+  const candidates: WorkerJob[] = await prismaClient.job.findMany({
+    where: {
+      status: "UPLOADED",
+      expiresAt: { gt: now }
+    },
+    orderBy: { createdAt: "asc" },
+    take: 20
+  });
+  return candidates.find((job) => needsDetection(job.cropConfig)) || null;
+}
+
+export async function updateJobSourceLanguage(jobId: string, sourceLanguage: string) {
   await prismaClient.job.update({
     where: { id: jobId },
+    data: { sourceLanguage, updatedAt: new Date() }
+  });
+}
+
+export async function updateJobCropConfig(jobId: string, update: (cropConfig: unknown) => unknown, maxTries = 5) {
+  for (let attempt = 0; attempt < maxTries; attempt += 1) {
+    const current = await prismaClient.job.findUnique({ where: { id: jobId }, select: { cropConfig: true, updatedAt: true } });
+    if (!current) return null;
+
+    const cropConfig = update(current.cropConfig);
+    const saved = await prismaClient.job.updateMany({
+      where: { id: jobId, updatedAt: current.updatedAt },
+      data: { cropConfig: cropConfig as object, updatedAt: new Date() }
+    });
+    if (saved.count) return cropConfig;
+  }
+  throw new Error(`Could not update crop config for job ${jobId}: it kept changing.`);
+}
+
+export type WorkerRenderTask = {
+  id: string;
+  userId: string;
+  jobId: string;
+  clipId: string;
+  kind: string;
+  status: string;
+  payload: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export async function recoverStaleRenderTasks(
+  staleTimeoutMinutes: number,
+  liveWorkerIds: string[],
+  activeTaskIds: string[] = []
+) {
+  const now = new Date();
+  const staleCutoff = new Date(now.getTime() - staleTimeoutMinutes * 60 * 1000);
+  const requeue = {
+    status: "QUEUED",
+    processingStage: "QUEUED",
+    processingProgress: 1,
+    processingStartedAt: null,
+    claimedBy: null,
+    updatedAt: now
+  };
+
+  await prismaClient.renderTask.updateMany({
+    where: {
+      id: { notIn: activeTaskIds },
+      status: "PROCESSING",
+      claimedBy: { not: null, notIn: liveWorkerIds }
+    },
+    data: { ...requeue, processingNote: "Recovered render task after its worker stopped sending heartbeats." }
+  });
+
+  await prismaClient.renderTask.updateMany({
+    where: {
+      id: { notIn: activeTaskIds },
+      status: "PROCESSING",
+      claimedBy: null,
+      processingStartedAt: { lt: staleCutoff }
+    },
+    data: { ...requeue, processingNote: `Recovered stale render task after ${staleTimeoutMinutes} minutes.` }
+  });
+}
+
+export async function findNextQueuedRenderTask(): Promise<WorkerRenderTask | null> {
+  return prismaClient.renderTask.findFirst({
+    where: { status: "QUEUED" },
+    orderBy: { createdAt: "asc" }
+  });
+}
+
+export async function claimRenderTask(taskId: string, workerId: string): Promise<WorkerRenderTask | null> {
+  const now = new Date();
+  const claim = await prismaClient.renderTask.updateMany({
+    where: {
+      id: taskId,
+      status: "QUEUED"
+    },
+    data: {
+      status: "PROCESSING",
+      processingStartedAt: now,
+      processingStage: "PROCESSING",
+      processingProgress: 2,
+      processingNote: "Local worker claimed this render task.",
+      claimedBy: workerId,
+      updatedAt: now
+    }
+  });
+
+  if (claim.count === 0) return null;
+  return prismaClient.renderTask.findUnique({ where: { id: taskId } });
+}
+
+export async function releaseRenderTask(taskId: string, note: string) {
+  await prismaClient.renderTask.updateMany({
+    where: { id: taskId, status: "PROCESSING" },
+    data: {
+      status: "QUEUED",
+      processingStage: "QUEUED",
+      processingProgress: 1,
+      processingNote: note,
+      processingStartedAt: null,
+      updatedAt: new Date()
+    }
+  });
+}
+
+export async function updateRenderTaskProgress(taskId: string, stage: string, progress: number, note?: string) {
+  await prismaClient.renderTask.update({
+    where: { id: taskId },
+    data: {
+      processingStage: stage,
+      processingProgress: progress,
+      processingNote: note || null,
+      updatedAt: new Date()
+    }
+  });
+}
+
+export async function finalizeRenderTask(
+  taskId: string,
+  clip: { jobId: string; clipId: string; clipUrl: string; providerMetadata: Record<string, unknown> }
+) {
+  const now = new Date();
+  const task = await prismaClient.$transaction(async (tx: any) => {
+    await tx.jobExport.update({
+      where: { jobId_clipId: { jobId: clip.jobId, clipId: clip.clipId } },
+      data: {
+        clipUrl: clip.clipUrl,
+        providerMetadata: clip.providerMetadata
+      }
+    });
+
+    return tx.renderTask.update({
+      where: { id: taskId },
+      data: {
+        status: "DONE",
+        finishedAt: now,
+        processingStage: "DONE",
+        processingProgress: 100,
+        processingNote: "Local worker finished rendering.",
+        errorMessage: null,
+        updatedAt: now
+      },
+      select: { userId: true, payload: true }
+    });
+  });
+
+  await queueWebhookEvent(task.userId, "clip.adjusted", {
+    jobId: clip.jobId,
+    clipId: clip.clipId,
+    renderTaskId: taskId,
+    clipUrl: clip.clipUrl,
+    startSec: task.payload?.startSec ?? null,
+    endSec: task.payload?.endSec ?? null
+  });
+}
+
+export async function failRenderTask(taskId: string, errorMessage: string) {
+  const now = new Date();
+  await prismaClient.renderTask.update({
+    where: { id: taskId },
     data: {
       status: "FAILED",
       errorMessage,
@@ -162,3 +555,119 @@ export async function failJob(jobId: string, errorMessage: string) {
     }
   });
 }
+
+export type WorkerJobExport = {
+  id: string;
+  jobId: string;
+  userId: string;
+  clipId: string;
+  clipPath: string;
+  clipUrl: string;
+  hook?: string | null;
+  providerMetadata: unknown;
+};
+
+export async function findJobExport(jobId: string, clipId: string): Promise<WorkerJobExport | null> {
+  return prismaClient.jobExport.findUnique({ where: { jobId_clipId: { jobId, clipId } } });
+}
+
+export async function findJob(jobId: string): Promise<WorkerJob | null> {
+  return prismaClient.job.findUnique({ where: { id: jobId } });
+}
+
+export async function findCaptionStyle(styleId: string | null, userId: string): Promise<CaptionStyle | null> {
+  if (!styleId) return null;
+  const row = await prismaClient.captionStyle.findFirst({ where: { id: styleId, userId }, select: { style: true } });
+  return row ? parseCaptionStyle(row.style) : null;
+}
+
+export async function findGlossaryTerms(userId: string): Promise<GlossaryTerm[]> {
+  const rows = await prismaClient.glossaryTerm
+    .findMany({ where: { userId }, orderBy: { term: "asc" }, select: { term: true, aliases: true, doNotTranslate: true } })
+    .catch(() => []);
+  return rows.map((row: { term: string; aliases: string[] | null; doNotTranslate: boolean }) => ({
+    term: row.term,
+    aliases: row.aliases || [],
+    doNotTranslate: row.doNotTranslate
+  }));
+}
+
+export type JobCheckpoint = {
+  stage: string;
+  data: unknown;
+  artifactPath: string | null;
+};
+
+export async function findJobCheckpoints(jobId: string): Promise<Map<string, JobCheckpoint>> {
+  const rows: JobCheckpoint[] = await prismaClient.jobCheckpoint
+    .findMany({ where: { jobId }, select: { stage: true, data: true, artifactPath: true } })
+    .catch(() => []);
+  return new Map(rows.map((row) => [row.stage, row]));
+}
+
+export async function saveJobCheckpoint(jobId: string, stage: string, data: unknown, artifactPath: string | null = null) {
+  const now = new Date();
+  await prismaClient.jobCheckpoint.upsert({
+    where: { jobId_stage: { jobId, stage } },
+    create: { jobId, stage, data: data as object, artifactPath },
+    update: { data: data as object, artifactPath, updatedAt: now }
+  });
+}
+
+export type WorkerWebhookDelivery = {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  attemptCount: number;
+  attempts: unknown;
+  endpoint: { url: string; secret: string; enabled: boolean };
+};
+
+export async function claimDueWebhookDeliveries(limit: number, leaseSeconds: number): Promise<WorkerWebhookDelivery[]> {
+  const now = new Date();
+  const due: WorkerWebhookDelivery[] = await prismaClient.webhookDelivery
+    .findMany({
+      where: { status: "PENDING", nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: limit,
+      include: { endpoint: { select: { url: true, secret: true, enabled: true } } }
+    })
+    .catch(() => []);
+
+  const claimed: WorkerWebhookDelivery[] = [];
+  for (const delivery of due) {
+    const claim = await prismaClient.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: "PENDING", attemptCount: delivery.attemptCount },
+      data: {
+        attemptCount: { increment: 1 },
+        nextAttemptAt: new Date(now.getTime() + leaseSeconds * 1000),
+        updatedAt: now
+      }
+    });
+    if (claim.count) claimed.push({ ...delivery, attemptCount: delivery.attemptCount + 1 });
+  }
+  return claimed;
+}
+
+export async function recordWebhookDeliveryAttempt(
+  deliveryId: string,
+  status: "PENDING" | "DELIVERED" | "FAILED",
+  attempts: WebhookDeliveryAttempt[],
+  nextAttemptAt: Date | null
+) {
+  const now = new Date();
+  const last = attempts[attempts.length - 1];
+  await prismaClient.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      attempts,
+      lastResponseStatus: last?.responseStatus ?? null,
+      lastError: last?.error ?? null,
+      ...(nextAttemptAt ? { nextAttemptAt } : {}),
+      ...(status === "DELIVERED" ? { deliveredAt: now } : {}),
+      updatedAt: now
+    }
+  });
+}
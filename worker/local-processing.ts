@@ -1,4 +1,5 @@
 import fs from "node:fs/promises";
+import { createReadStream } from "node:fs";
 import path from "node:path";
 import { createHash } from "node:crypto";
 import { spawn } from "node:child_process";
@@ -16,26 +17,44 @@ import {
 } from "@/lib/selection/types";
 import { scoreSegment } from "@/worker/segment-scoring";
 import { isLocalSourcePath, toLocalFilePath } from "@/lib/source-path";
-import { FinalizeExport, WorkerJob, updateJobProgress } from "./local-db";
-
-type TranscriptSegment = {
-  start: number;
-  end: number;
-  text: string;
-};
-
-type TranscriptWord = {
-  start: number;
-  end: number;
-  word: string;
-};
-
-type TranscriptionResult = {
-  text: string;
-  durationSec: number;
-  segments: TranscriptSegment[];
-  words: TranscriptWord[];
-};
+import { applyGlossary, glossaryPrompt, protectedGlossaryTerms, type GlossaryTerm } from "@/lib/glossary";
+import { readTranscriptSegments, readTranscriptWords } from "@/lib/transcript";
+import { metadataCopy, samePrimaryLanguage } from "@/lib/metadata-copy";
+import { JOB_PROCESSING_MODES, type JobProcessingMode } from "@/lib/types";
+import { writeAssForClip, writeSrtForClip } from "@/worker/captions";
+import { diarizeSegments, shouldDiarize } from "@/worker/diarization";
+import {
+  AUTO_LANGUAGE,
+  getTranscriptionProvider,
+  normalizeLanguageCode,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+  type TranscriptSegment,
+  type TranscriptWord
+} from "@/worker/transcription";
+import { OUTPUT_DIMENSIONS, parseCropConfig, renderClip, type CaptionLanguage } from "@/worker/render";
+import {
+  FinalizeExport,
+  WorkerJob,
+  findCaptionStyle,
+  findGlossaryTerms,
+  findJobCheckpoints,
+  isJobCancelRequested,
+  saveJobCheckpoint,
+  type JobCheckpoint,
+  updateJobCropConfig,
+  updateJobProgress,
+  updateJobSourceLanguage
+} from "./local-db";
+import { detectWebcamRegion, hasWebcamDetection, withWebcamDetection } from "./webcam-detection";
+import { renderSlots, transcriptionSlots } from "./concurrency";
+import { JOB_CANCELLED_MESSAGE, watchCancellation, type CancellationWatch } from "./cancellation";
+import {
+  buildTranscriptCacheKey,
+  TRANSCRIPT_CACHE_CONFLICT_COLUMNS,
+  type TranscriptCacheKey
+} from "./transcript-cache";
+import { createChildProcessScope, trackChildProcess } from "@/worker/child-processes";
 
 type ClipSegment = {
   clip_id: string;
@@ -51,6 +70,7 @@ type ClipSegment = {
 };
 
 type SegmentSelectionConfig = {
+  language: string;
   clipStyle?: string | null;
   genre?: string | null;
   clipCount?: number | null;
@@ -61,6 +81,7 @@ type SegmentSelectionConfig = {
 };
 
 type EffectiveSelectionConfig = {
+  language: string;
   style: ClipStyleKey;
   genre: GenreKey;
   clipCount: number | null;
@@ -72,79 +93,6 @@ type EffectiveSelectionConfig = {
 
 type SelectionStageCallback = (stage: string, progress: number) => Promise<void> | void;
 
-type CaptionPreset = "BOLD" | "CLEAN" | "MODERN" | "MINIMAL";
-type OutputPreset = "INSTAGRAM_REELS" | "YOUTUBE_SHORTS" | "TIKTOK" | "INSTAGRAM_FEED";
-type CaptionLanguage =
-  | "source"
-  | "en"
-  | "es"
-  | "pt"
-  | "fr"
-  | "de"
-  | "it"
-  | "nl"
-  | "sv"
-  | "no"
-  | "da"
-  | "fi"
-  | "pl"
-  | "tr"
-  | "cs"
-  | "ro"
-  | "hu"
-  | "uk"
-  | "ru"
-  | "ar"
-  | "hi"
-  | "id"
-  | "ms"
-  | "th"
-  | "vi"
-  | "ja"
-  | "ko"
-  | "zh";
-
-const OUTPUT_DIMENSIONS: Record<OutputPreset, { width: number; height: number }> = {
-  INSTAGRAM_REELS: { width: 1080, height: 1920 },
-  YOUTUBE_SHORTS: { width: 1080, height: 1920 },
-  TIKTOK: { width: 1080, height: 1920 },
-  INSTAGRAM_FEED: { width: 1080, height: 1350 }
-};
-
-const DEFAULT_OUTPUT_PRESET: OutputPreset = "INSTAGRAM_REELS";
-const DEFAULT_CAPTION_PRESET: CaptionPreset = "BOLD";
-const DEFAULT_CAPTION_LANGUAGE: CaptionLanguage = "source";
-const CAPTION_LANGUAGE_SET = new Set<CaptionLanguage>([
-  "source",
-  "en",
-  "es",
-  "pt",
-  "fr",
-  "de",
-  "it",
-  "nl",
-  "sv",
-  "no",
-  "da",
-  "fi",
-  "pl",
-  "tr",
-  "cs",
-  "ro",
-  "hu",
-  "uk",
-  "ru",
-  "ar",
-  "hi",
-  "id",
-  "ms",
-  "th",
-  "vi",
-  "ja",
-  "ko",
-  "zh"
-]);
-
 function readPositiveIntEnv(name: string, fallback: number) {
   const raw = Number(process.env[name]);
   return Number.isFinite(raw) && raw > 0 ? Math.round(raw) : fallback;
@@ -158,8 +106,10 @@ const TARGET_SEGMENT_SEC = Math.max(
 );
 const MAX_CLIPS = readPositiveIntEnv("CLIP_MAX_COUNT", 3);
 const CLIP_SELECTION_QUALITY = (process.env.CLIP_SELECTION_QUALITY || "high").toLowerCase();
-const OUTPUT_LANGUAGE = process.env.AI_OUTPUT_LANGUAGE || "pt-BR";
-const TRANSCRIBE_LANGUAGE = process.env.TRANSCRIBE_LANGUAGE || "pt";
+const TRANSCRIBE_LANGUAGE = process.env.TRANSCRIBE_LANGUAGE || AUTO_LANGUAGE;
+// Used only when the job has no override and the provider did not report a language.
+const FALLBACK_SOURCE_LANGUAGE =
+  normalizeLanguageCode(TRANSCRIBE_LANGUAGE) || normalizeLanguageCode(process.env.SOURCE_LANGUAGE_FALLBACK) || "pt";
 const EXPORT_TTL_SECONDS = 72 * 3600;
 
 const FILLER_WORDS = new Set([
@@ -183,12 +133,11 @@ function effectiveMaxClips(durationSec: number) {
   return Math.min(MAX_CLIPS, maxClipCapForDuration(durationSec));
 }
 
-function getTranscribeProvider() {
-  const value = (process.env.TRANSCRIBE_PROVIDER || "stub").trim().toLowerCase();
-  if (value !== "stub" && value !== "faster_whisper") {
-    throw new Error(`Invalid TRANSCRIBE_PROVIDER "${value}". Use "stub" or "faster_whisper".`);
-  }
-  return value;
+let cachedTranscriptionProvider: TranscriptionProvider | null = null;
+
+function transcriptionProvider() {
+  if (!cachedTranscriptionProvider) cachedTranscriptionProvider = getTranscriptionProvider();
+  return cachedTranscriptionProvider;
 }
 
 function getSegmentProvider() {
@@ -248,68 +197,12 @@ async function detectFfmpegSubtitlesSupport() {
   return ffmpegSubtitlesSupport;
 }
 
-async function fasterWhisperTranscribeAudio(filePath: string) {
-  const scriptPath = path.join(process.cwd(), "worker", "scripts", "faster_whisper_transcribe.py");
-  const model = process.env.FASTER_WHISPER_MODEL || "small";
-  const computeType = process.env.FASTER_WHISPER_COMPUTE_TYPE || "int8";
-
-  return new Promise<{
-    text?: string;
-    duration?: number;
-    segments?: Array<{ start?: number; end?: number; text?: string }>;
-    words?: Array<{ start?: number; end?: number; word?: string }>;
-  }>((resolve, reject) => {
-    const args = [
-      scriptPath,
-      "--audio",
-      filePath,
-      "--model",
-      model,
-      "--language",
-      TRANSCRIBE_LANGUAGE,
-      "--compute-type",
-      computeType
-    ];
-    const child = spawn("python3", args, { stdio: ["ignore", "pipe", "pipe"] });
-    let stdout = "";
-    let stderr = "";
-    child.stdout.on("data", (chunk) => {
-      stdout += String(chunk);
-    });
-    child.stderr.on("data", (chunk) => {
-      stderr += String(chunk);
-    });
-    child.on("error", (err) => reject(err));
-    child.on("close", (code) => {
-      if (code !== 0) {
-        reject(new Error(`faster_whisper failed (${code}): ${stderr || stdout}`));
-        return;
-      }
-      try {
-        resolve(JSON.parse(stdout) as {
-          text?: string;
-          duration?: number;
-          segments?: Array<{ start?: number; end?: number; text?: string }>;
-          words?: Array<{ start?: number; end?: number; word?: string }>;
-        });
-      } catch (error) {
-        reject(new Error(`Could not parse faster_whisper JSON output: ${getErrorMessage(error)}`));
-      }
-    });
-  });
-}
-
 type TranslationProvider = "ollama";
 
 function getTranslationProvider(): TranslationProvider {
   return "ollama";
 }
 
-function samePrimaryLanguage(a?: string | null, b?: string | null) {
-  if (!a || !b) return false;
-  return a.toLowerCase().split("-")[0] === b.toLowerCase().split("-")[0];
-}
-
 function normalizeCaptionLanguage(value: CaptionLanguage) {
   if (value === "source") return "source";
   return value;
@@ -318,6 +211,7 @@ function normalizeCaptionLanguage(value: CaptionLanguage) {
 async function ollamaTranslateCaptionChunk(input: {
   rows: Array<{ i: number; text: string }>;
   targetLanguage: string;
+  protectedTerms: string[];
 }) {
   const baseUrl = (process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/$/, "");
   const model = process.env.OLLAMA_TRANSLATE_MODEL || process.env.OLLAMA_MODEL || "qwen2.5:7b-instruct";
@@ -333,7 +227,10 @@ async function ollamaTranslateCaptionChunk(input: {
         {
           role: "system",
           content:
-            `Translate subtitle lines into ${input.targetLanguage}. Return ONLY JSON: {"segments":[{"i":number,"text":string}]}. Keep concise subtitle style and punctuation.`
+            `Translate subtitle lines into ${input.targetLanguage}. Return ONLY JSON: {"segments":[{"i":number,"text":string}]}. Keep concise subtitle style and punctuation.` +
+            (input.protectedTerms.length
+              ? ` Do not translate these terms, keep them exactly as written: ${input.protectedTerms.join(", ")}.`
+              : "")
         },
         {
           role: "user",
@@ -370,16 +267,18 @@ async function ollamaTranslateCaptionChunk(input: {
     .filter((row) => Number.isInteger(row.i) && row.i >= 0 && row.text.trim().length > 0);
 }
 
-async function translateCaptionSegments(
+export async function translateCaptionSegments(
   transcriptSegments: TranscriptSegment[],
-  selectedSegments: ClipSegment[],
-  captionLanguage: CaptionLanguage
+  selectedSegments: Array<{ start: number; end: number }>,
+  captionLanguage: CaptionLanguage,
+  sourceLanguage: string,
+  protectedTerms: string[]
 ) {
   const targetLanguage = normalizeCaptionLanguage(captionLanguage);
   const provider = getTranslationProvider();
   const model = process.env.OLLAMA_TRANSLATE_MODEL || process.env.OLLAMA_MODEL || "qwen2.5:7b-instruct";
   if (targetLanguage === "source") return { translated: false, segments: transcriptSegments, provider, model };
-  if (samePrimaryLanguage(targetLanguage, TRANSCRIBE_LANGUAGE)) {
+  if (samePrimaryLanguage(targetLanguage, sourceLanguage)) {
     return { translated: false, segments: transcriptSegments, provider, model };
   }
 
@@ -399,7 +298,7 @@ async function translateCaptionSegments(
   for (let i = 0; i < rows.length; i += chunkSize) {
     const chunk = rows.slice(i, i + chunkSize);
     try {
-      const translatedRows = await ollamaTranslateCaptionChunk({ rows: chunk, targetLanguage });
+      const translatedRows = await ollamaTranslateCaptionChunk({ rows: chunk, targetLanguage, protectedTerms });
       for (const row of translatedRows) {
         translatedByIndex.set(row.i, row.text.trim());
       }
@@ -487,6 +386,7 @@ function parseSelectionConfig(input: SegmentSelectionConfig): EffectiveSelection
   const bounds = resolveStyleBounds(style, clipLengthMaxS);
   const includeMomentText = String(input.includeMomentText || "").trim();
   return {
+    language: input.language,
     style,
     genre,
     clipCount,
@@ -542,135 +442,11 @@ function genrePromptInstruction(genre: GenreKey) {
   return "Apply minimal genre bias.";
 }
 
-function parseCropConfig(input: unknown): {
-  captionPreset: CaptionPreset;
-  outputPreset: OutputPreset;
-  captionLanguage: CaptionLanguage;
-} {
-  if (!input || typeof input !== "object") {
-    return {
-      captionPreset: DEFAULT_CAPTION_PRESET,
-      outputPreset: DEFAULT_OUTPUT_PRESET,
-      captionLanguage: DEFAULT_CAPTION_LANGUAGE
-    };
-  }
-
-  const raw = input as Record<string, unknown>;
-  const captionPreset = (["BOLD", "CLEAN", "MODERN", "MINIMAL"] as const).includes(raw.captionPreset as CaptionPreset)
-    ? (raw.captionPreset as CaptionPreset)
-    : DEFAULT_CAPTION_PRESET;
-  const outputPreset = (["INSTAGRAM_REELS", "YOUTUBE_SHORTS", "TIKTOK", "INSTAGRAM_FEED"] as const).includes(
-    raw.outputPreset as OutputPreset
-  )
-    ? (raw.outputPreset as OutputPreset)
-    : DEFAULT_OUTPUT_PRESET;
-  const captionLanguage =
-    typeof raw.captionLanguage === "string" && CAPTION_LANGUAGE_SET.has(raw.captionLanguage as CaptionLanguage)
-      ? (raw.captionLanguage as CaptionLanguage)
-      : DEFAULT_CAPTION_LANGUAGE;
-
-  return { captionPreset, outputPreset, captionLanguage };
-}
-
-function toSrtTs(sec: number) {
-  const ms = Math.floor((sec % 1) * 1000);
-  const total = Math.floor(sec);
-  const s = total % 60;
-  const m = Math.floor(total / 60) % 60;
-  const h = Math.floor(total / 3600);
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")},${String(ms).padStart(3, "0")}`;
-}
-
-function toAssTs(sec: number) {
-  const safe = Math.max(0, sec);
-  const totalCs = Math.floor(safe * 100);
-  const cs = totalCs % 100;
-  const total = Math.floor(totalCs / 100);
-  const s = total % 60;
-  const m = Math.floor(total / 60) % 60;
-  const h = Math.floor(total / 3600);
-  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}.${String(cs).padStart(2, "0")}`;
-}
-
-function escapeForFilterPath(input: string) {
-  return input.replace(/\\/g, "\\\\").replace(/:/g, "\\:").replace(/'/g, "\\'");
-}
-
-function splitTextIntoTranscriptSegments(text: string, durationSec: number) {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  if (!words.length) return [] as TranscriptSegment[];
-
-  const chunkWords = 8;
-  const chunks: string[] = [];
-  for (let i = 0; i < words.length; i += chunkWords) {
-    chunks.push(words.slice(i, i + chunkWords).join(" "));
-  }
-
-  const safeDuration = Math.max(MIN_SEGMENT_SEC, durationSec || MIN_SEGMENT_SEC);
-  const secPerChunk = safeDuration / chunks.length;
-
-  return chunks.map((chunk, idx) => {
-    const start = idx * secPerChunk;
-    const end = idx === chunks.length - 1 ? safeDuration : (idx + 1) * secPerChunk;
-    return {
-      start,
-      end,
-      text: chunk
-    };
-  });
-}
-
-function assStyleLine(preset: CaptionPreset, height: number) {
-  if (preset === "MINIMAL") {
-    return `Style: Default,Arial,38,&H00FFFFFF,&H000000FF,&H00202020,&H50000000,0,0,0,0,100,100,0,0,1,1.2,0,2,24,24,${Math.max(110, Math.round(height * 0.095))},1`;
-  }
-  if (preset === "MODERN") {
-    return `Style: Default,Arial Rounded MT Bold,50,&H00FFFFFF,&H00D7FF00,&H00101010,&H70000000,1,0,0,0,100,100,0,0,3,2.0,0,2,24,24,${Math.max(126, Math.round(height * 0.105))},1`;
-  }
-  if (preset === "CLEAN") {
-    return `Style: Default,Arial,44,&H00FFFFFF,&H000000FF,&H00202020,&H64000000,0,0,0,0,100,100,0,0,1,1.6,0,2,28,28,${Math.max(120, Math.round(height * 0.1))},1`;
-  }
-  return `Style: Default,Arial Bold,56,&H00FFFFFF,&H0000D7FF,&H00121212,&H78000000,1,0,0,0,100,100,0,0,3,2.4,0,2,28,28,${Math.max(140, Math.round(height * 0.115))},1`;
-}
-
-function escapeAssText(text: string) {
-  return text.replace(/[{}]/g, "").replace(/\r?\n/g, "\\N").replace(/\\/g, "\\\\");
-}
-
-function assAnimationTag(preset: CaptionPreset) {
-  if (preset === "MINIMAL") {
-    return "{\\fad(40,80)}";
-  }
-  if (preset === "MODERN") {
-    return "{\\fad(85,120)\\t(0,180,\\fscx108\\fscy108)\\t(180,360,\\fscx100\\fscy100)}";
-  }
-  if (preset === "CLEAN") {
-    return "{\\fad(70,120)\\t(0,180,\\fscx104\\fscy104)\\t(180,320,\\fscx100\\fscy100)}";
-  }
-  return "{\\fad(90,140)\\t(0,220,\\fscx110\\fscy110)\\t(220,420,\\fscx100\\fscy100)}";
-}
-
-function wrapCaptionText(text: string, maxCharsPerLine = 36) {
-  const words = text.trim().split(/\s+/).filter(Boolean);
-  if (!words.length) return text.trim();
-  const lines: string[] = [];
-  let current = "";
-  for (const word of words) {
-    const next = current ? `${current} ${word}` : word;
-    if (next.length > maxCharsPerLine && current) {
-      lines.push(current);
-      current = word;
-      continue;
-    }
-    current = next;
-  }
-  if (current) lines.push(current);
-  return lines.join("\\N");
-}
-
-function normalizePortugueseTitle(value: string, index: number) {
+function normalizeMetadataTitle(value: string, index: number, language: string) {
   const trimmed = value.trim();
-  if (!trimmed) return `Clipe ${index}`;
+  const copy = metadataCopy(language);
+  if (!trimmed) return `${copy.clip} ${index}`;
+  if (!samePrimaryLanguage(language, "pt")) return trimmed;
 
   const normalized = trimmed
     .replace(/^clip\b[:\s-]*/i, "Clipe ")
@@ -682,55 +458,20 @@ function normalizePortugueseTitle(value: string, index: number) {
   return normalized;
 }
 
-function normalizePortugueseSentence(value: string, fallback: string) {
+function normalizeMetadataSentence(value: string, fallback: string, language: string) {
   const trimmed = value.trim();
   if (!trimmed) return fallback;
+  if (!samePrimaryLanguage(language, "pt")) return trimmed;
   return trimmed
     .replace(/why this clip works[:\s-]*/gi, "Por que este clipe funciona: ")
     .replace(/this clip/gi, "este clipe")
     .replace(/\bclip\b/gi, "clipe");
 }
 
-function normalizeTranscriptSegments(
-  raw: Array<{ start?: number; end?: number; text?: string }>,
-  durationSec: number
-) {
-  const safeDuration = Math.max(1, durationSec || 1);
-  return raw
-    .map((segment) => {
-      const start = Number(segment.start || 0);
-      const end = Number(segment.end || segment.start || 0);
-      return {
-        start: clamp(Number.isFinite(start) ? start : 0, 0, safeDuration),
-        end: clamp(Number.isFinite(end) ? end : 0, 0, safeDuration),
-        text: String(segment.text || "").trim()
-      };
-    })
-    .filter((segment) => segment.end > segment.start && segment.text.length > 0);
-}
-
-function normalizeTranscriptWords(
-  raw: Array<{ start?: number; end?: number; word?: string }>,
-  durationSec: number
-) {
-  const safeDuration = Math.max(1, durationSec || 1);
-  return raw
-    .map((word) => {
-      const start = Number(word.start || 0);
-      const end = Number(word.end || word.start || 0);
-      return {
-        start: clamp(Number.isFinite(start) ? start : 0, 0, safeDuration),
-        end: clamp(Number.isFinite(end) ? end : 0, 0, safeDuration),
-        word: String(word.word || "").trim()
-      };
-    })
-    .filter((word) => word.end > word.start && word.word.length > 0);
-}
-
 async function detectSilenceBoundaries(audioPath: string) {
   return new Promise<number[]>((resolve) => {
     const args = ["-hide_banner", "-i", audioPath, "-af", "silencedetect=noise=-35dB:d=0.25", "-f", "null", "-"];
-    const child = spawn(FFMPEG_BIN, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const child = trackChildProcess(spawn(FFMPEG_BIN, args, { stdio: ["ignore", "pipe", "pipe"] }));
     let stderr = "";
     child.stderr.on("data", (chunk) => {
       stderr += String(chunk);
@@ -755,50 +496,17 @@ async function detectSilenceBoundaries(audioPath: string) {
   });
 }
 
-async function loadStubTranscription(durationSec: number) {
-  const fallbackPath = path.join(process.cwd(), "dev", "transcripts", "default.json");
-  const raw = await fs.readFile(fallbackPath, "utf8");
-  const parsed = JSON.parse(raw) as { text?: string };
-  const text = String(parsed.text || "").trim();
-  if (!text) {
-    throw new Error("dev/transcripts/default.json must contain a non-empty \"text\" value.");
-  }
-
-  const normalizedDuration = Math.max(MIN_SEGMENT_SEC, Number(durationSec || MIN_SEGMENT_SEC));
-  const segments = splitTextIntoTranscriptSegments(text, normalizedDuration);
-  return { text, durationSec: normalizedDuration, segments, words: [] } satisfies TranscriptionResult;
-}
-
-async function transcribeAudio(audioPath: string, sourceDurationSec: number) {
-  const provider = getTranscribeProvider();
-
-  if (provider === "stub") {
-    return loadStubTranscription(sourceDurationSec);
-  }
-
-  const transcription = await fasterWhisperTranscribeAudio(audioPath);
-
-  const durationSec = Number(transcription.duration || sourceDurationSec || MIN_SEGMENT_SEC);
-  const text = String(transcription.text || "").trim();
-  const normalizedSegments = normalizeTranscriptSegments(
-    ((transcription.segments || []) as Array<{ start?: number; end?: number; text?: string }>) || [],
-    durationSec
-  );
-  const normalizedWords = normalizeTranscriptWords(
-    ((transcription.words || []) as Array<{ start?: number; end?: number; word?: string }>) || [],
-    durationSec
+async function transcribeAudio(audioPath: string, sourceDurationSec: number, language: string, glossary: GlossaryTerm[]) {
+  const result = await transcriptionSlots.run(() =>
+    transcriptionProvider().transcribe(audioPath, {
+      language,
+      durationSec: sourceDurationSec,
+      minDurationSec: MIN_SEGMENT_SEC,
+      prompt: glossaryPrompt(glossary),
+      hotwords: glossary.map((term) => term.term)
+    })
   );
-
-  const segments = normalizedSegments.length
-    ? normalizedSegments
-    : splitTextIntoTranscriptSegments(text || "No transcript generated.", durationSec);
-
-  return {
-    text: text || segments.map((segment) => segment.text).join(" ").trim(),
-    durationSec,
-    segments,
-    words: normalizedWords
-  } satisfies TranscriptionResult;
+  return applyGlossary(result, glossary);
 }
 
 function parseJsonObject(input: string) {
@@ -1150,9 +858,11 @@ function heuristicBestSegments(
   transcriptSegments: TranscriptSegment[],
   durationSec: number,
   transcriptText: string,
-  bounds: SegmentDurationBounds
+  bounds: SegmentDurationBounds,
+  language: string
 ) {
   const maxClips = effectiveMaxClips(durationSec);
+  const copy = metadataCopy(language);
   const safeDuration =
     Number.isFinite(durationSec) && durationSec > 0 ? Math.max(bounds.minSec, durationSec) : bounds.maxSec;
 
@@ -1162,9 +872,9 @@ function heuristicBestSegments(
       {
         start: 0,
         end,
-        title: "Momento-chave do tutorial",
-        hook: transcriptText.trim().slice(0, 120) || "Trecho com alto valor para engajamento",
-        reason: "Segmento selecionado por fallback com base na transcrição."
+        title: copy.keyMomentTitle,
+        hook: transcriptText.trim().slice(0, 120) || copy.engagementHook,
+        reason: copy.fallbackReason
       }
     ];
   }
@@ -1203,9 +913,9 @@ function heuristicBestSegments(
     picks.push({
       start,
       end,
-      title: sourceText.slice(0, 70) || `Clipe ${picks.length + 1}`,
-      hook: sourceText.slice(0, 140) || "Trecho com grande potencial de retenção",
-      reason: "Momento de alto engajamento selecionado por pontuação de contexto e palavras-chave."
+      title: sourceText.slice(0, 70) || `${copy.clip} ${picks.length + 1}`,
+      hook: sourceText.slice(0, 140) || copy.retentionHook,
+      reason: copy.heuristicReason
     });
 
     if (picks.length >= maxClips) break;
@@ -1216,9 +926,9 @@ function heuristicBestSegments(
     picks.push({
       start: 0,
       end: fallbackEnd,
-      title: "Momento-chave do tutorial",
-      hook: transcriptText.trim().slice(0, 120) || "Trecho com alto valor para engajamento",
-      reason: "Segmento selecionado por fallback com base na transcrição."
+      title: copy.keyMomentTitle,
+      hook: transcriptText.trim().slice(0, 120) || copy.engagementHook,
+      reason: copy.fallbackReason
     });
   }
 
@@ -1391,12 +1101,16 @@ function sanitizeSegments(
   transcriptSegments: TranscriptSegment[],
   transcriptWords: TranscriptWord[],
   silencePoints: number[],
-  bounds: SegmentDurationBounds
+  bounds: SegmentDurationBounds,
+  language: string
 ) {
   const maxClips = effectiveMaxClips(durationSec);
+  const copy = metadataCopy(language);
   const candidates: Array<Record<string, unknown>> = input.length
     ? input
-    : heuristicBestSegments(transcriptSegments, durationSec, transcriptText, bounds).map((segment) => ({ ...segment }));
+    : heuristicBestSegments(transcriptSegments, durationSec, transcriptText, bounds, language).map((segment) => ({
+        ...segment
+      }));
   const safeDuration =
     Number.isFinite(durationSec) && durationSec > 0 ? Math.max(bounds.minSec, durationSec) : bounds.maxSec;
   const wordBoundaries = sentenceBoundaryPointsFromWords(transcriptWords);
@@ -1438,15 +1152,9 @@ function sanitizeSegments(
       clip_id: `clip_${normalized.length + 1}`,
       start,
       end,
-      title: normalizePortugueseTitle(String(candidate.title || ""), normalized.length + 1),
-      hook: normalizePortugueseSentence(
-        String(candidate.hook || ""),
-        "Trecho útil com alto potencial de retenção"
-      ),
-      reason: normalizePortugueseSentence(
-        String(candidate.reason || ""),
-        "Momento educativo relevante para publicação"
-      ),
+      title: normalizeMetadataTitle(String(candidate.title || ""), normalized.length + 1, language),
+      hook: normalizeMetadataSentence(String(candidate.hook || ""), copy.usefulHook, language),
+      reason: normalizeMetadataSentence(String(candidate.reason || ""), copy.educationalReason, language),
       text_excerpt: String(candidate.text_excerpt || "").slice(0, 240) || undefined,
       score_total: Number.isFinite(Number(candidate.score_total)) ? Number(candidate.score_total) : undefined,
       score_grade:
@@ -1554,9 +1262,10 @@ function cacheBoundsSignature(params: {
   timeframeStartS: number | null;
   timeframeEndS: number | null;
   includeMomentText: string;
+  language: string;
 }) {
   const momentHash = createHash("sha1").update(params.includeMomentText || "").digest("hex").slice(0, 10);
-  return `min=${params.bounds.minSec};target=${params.bounds.targetSec};max=${params.bounds.maxSec};count=${params.maxClips};style=${params.style};genre=${params.genre};time=${params.timeframeStartS ?? "auto"}-${params.timeframeEndS ?? "auto"};moment=${momentHash}`;
+  return `min=${params.bounds.minSec};target=${params.bounds.targetSec};max=${params.bounds.maxSec};count=${params.maxClips};style=${params.style};genre=${params.genre};time=${params.timeframeStartS ?? "auto"}-${params.timeframeEndS ?? "auto"};moment=${momentHash};lang=${params.language}`;
 }
 
 async function readSegmentSuggestionCache(params: {
@@ -1595,6 +1304,78 @@ async function writeSegmentSuggestionCache(params: {
   });
 }
 
+type SourceAnalysis = TranscriptionResult & {
+  speakerCount: number;
+  silencePoints: number[];
+};
+
+type CheckpointContext = {
+  supabase: SupabaseClient;
+  job: WorkerJob;
+  checkpoints: Map<string, JobCheckpoint>;
+  sourcePath: string;
+  audioPath: string;
+  audioReady: boolean;
+};
+
+async function hashFile(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+function readSilencePoints(value: unknown) {
+  return Array.isArray(value) ? value.map(Number).filter((point) => Number.isFinite(point)) : [];
+}
+
+function readSourceAnalysis(input: unknown): SourceAnalysis | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const value = input as Record<string, unknown>;
+  const segments = readTranscriptSegments(value.segments);
+  if (!segments.length || typeof value.text !== "string") return null;
+  return {
+    text: value.text,
+    language: typeof value.language === "string" ? value.language : null,
+    durationSec: readNumber(value.durationSec, 0),
+    segments,
+    words: readTranscriptWords(value.words),
+    speakerCount: readNumber(value.speakerCount, 0),
+    silencePoints: readSilencePoints(value.silencePoints)
+  };
+}
+
+async function readTranscriptCache(supabase: SupabaseClient, key: TranscriptCacheKey): Promise<SourceAnalysis | null> {
+  const { data, error } = await supabase
+    .from("transcript_cache")
+    .select("transcript_json")
+    .eq("user_id", key.userId)
+    .eq("source_hash", key.sourceHash)
+    .eq("provider", key.provider)
+    .eq("model", key.model)
+    .eq("language", key.language)
+    .eq("options_signature", key.optionsSignature)
+    .maybeSingle<{ transcript_json: unknown }>();
+  if (error || !data) return null;
+
+  return readSourceAnalysis(data.transcript_json);
+}
+
+async function writeTranscriptCache(supabase: SupabaseClient, key: TranscriptCacheKey, analysis: SourceAnalysis) {
+  await supabase.from("transcript_cache").upsert(
+    {
+      user_id: key.userId,
+      source_hash: key.sourceHash,
+      provider: key.provider,
+      model: key.model,
+      language: key.language,
+      options_signature: key.optionsSignature,
+      transcript_json: analysis,
+      created_at: new Date().toISOString()
+    },
+    { onConflict: TRANSCRIPT_CACHE_CONFLICT_COLUMNS }
+  );
+}
+
 function buildSelectionConfig(effective: EffectiveSelectionConfig, durationSec: number): SelectionConfig {
   const clipCap = effectiveMaxClips(durationSec);
   const requested = effective.clipCount === null ? clipCap : Math.min(clipCap, effective.clipCount);
@@ -1631,13 +1412,15 @@ function deterministicMetadataFromCandidate(candidate: {
   score_total: number;
   grade: "A" | "B" | "C" | "D";
   score_metrics: Record<string, number>;
-}) {
+}, language: string) {
+  const copy = metadataCopy(language);
   const firstSentence = candidate.text_excerpt.split(/[.!?]/)[0]?.trim() || candidate.text_excerpt.slice(0, 110);
-  const title = normalizePortugueseTitle(firstSentence, Number(candidate.id.replace(/\D/g, "")) || 1);
-  const hook = normalizePortugueseSentence(firstSentence.slice(0, 140), "Trecho relevante para alto engajamento");
-  const reason = normalizePortugueseSentence(
-    `Pontuação ${candidate.score_total.toFixed(1)} (${candidate.grade}) com foco em gancho e clareza.`,
-    "Seleção por pontuação determinística."
+  const title = normalizeMetadataTitle(firstSentence, Number(candidate.id.replace(/\D/g, "")) || 1, language);
+  const hook = normalizeMetadataSentence(firstSentence.slice(0, 140), copy.relevantHook, language);
+  const reason = normalizeMetadataSentence(
+    copy.scoreReason(candidate.score_total.toFixed(1), candidate.grade),
+    copy.deterministicReason,
+    language
   );
   return { start: candidate.start_s, end: candidate.end_s, title, hook, reason, score_total: candidate.score_total, score_grade: candidate.grade, score_metrics: candidate.score_metrics, text_excerpt: candidate.text_excerpt };
 }
@@ -1655,6 +1438,7 @@ async function refineWithLlmShortlist(params: {
   selectionConfig: SelectionConfig;
   maxClips: number;
   durationSec: number;
+  language: string;
 }) {
   const llmEnabled = (process.env.SELECTION_LLM_REFINEMENT || "1") !== "0";
   if (!llmEnabled || !params.shortlist.length) return null;
@@ -1683,7 +1467,7 @@ async function refineWithLlmShortlist(params: {
         {
           role: "system",
           content:
-            `Return ONLY JSON: {"segments":[{"id":"c1","start":number,"end":number,"title":string,"hook":string,"reason":string}]}. Pick up to ${params.maxClips}. Keep start/end within original candidate ±3s.`
+            `Return ONLY JSON: {"segments":[{"id":"c1","start":number,"end":number,"title":string,"hook":string,"reason":string}]}. Pick up to ${params.maxClips}. Keep start/end within original candidate ±3s. Write title, hook and reason in the video language (${params.language}).`
         },
         {
           role: "user",
@@ -1732,7 +1516,12 @@ async function selectSegments(
   );
   await options?.onStage?.("Normalizing transcript…", 52);
   const normalizedBlocks = normalizeTranscript(
-    scoped.scopedSegments.map((segment) => ({ start: segment.start, end: segment.end, text: segment.text })),
+    scoped.scopedSegments.map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      speaker: segment.speaker
+    })),
     { minBlockSec: selectionConfig.block_min_s, maxBlockSec: selectionConfig.block_max_s }
   );
   await writeSelectionDebugArtifact(options?.jobId, "normalized_blocks.json", normalizedBlocks);
@@ -1765,7 +1554,8 @@ async function selectSegments(
     genre: effectiveConfig.genre,
     timeframeStartS: effectiveConfig.timeframeStartS,
     timeframeEndS: effectiveConfig.timeframeEndS,
-    includeMomentText: effectiveConfig.includeMomentText
+    includeMomentText: effectiveConfig.includeMomentText,
+    language: effectiveConfig.language
   });
 
   const cachedRaw = await readSegmentSuggestionCache({
@@ -1782,7 +1572,8 @@ async function selectSegments(
       scoped.scopedSegments,
       scoped.scopedWords,
       scoped.scopedSilencePoints,
-      effectiveConfig.bounds
+      effectiveConfig.bounds,
+      effectiveConfig.language
     );
     if (cachedSanitized.length) {
       await writeSelectionDebugArtifact(options?.jobId, "final_selection.json", cachedSanitized);
@@ -1823,7 +1614,8 @@ async function selectSegments(
     shortlist: shortlistForLlm,
     selectionConfig,
     maxClips,
-    durationSec
+    durationSec,
+    language: effectiveConfig.language
   }).catch(() => null);
 
   let raw: Array<Record<string, unknown>> = [];
@@ -1857,7 +1649,9 @@ async function selectSegments(
       .filter((row): row is NonNullable<typeof row> => row !== null)
       .map((row) => row as Record<string, unknown>);
   } else {
-    raw = shortlistForLlm.map((candidate) => deterministicMetadataFromCandidate(candidate) as Record<string, unknown>);
+    raw = shortlistForLlm.map(
+      (candidate) => deterministicMetadataFromCandidate(candidate, effectiveConfig.language) as Record<string, unknown>
+    );
   }
 
   await writeSegmentSuggestionCache({ supabase, transcriptHash, provider, boundsSignature, suggestions: raw }).catch(() => undefined);
@@ -1868,7 +1662,8 @@ async function selectSegments(
     scoped.scopedSegments,
     scoped.scopedWords,
     scoped.scopedSilencePoints,
-    effectiveConfig.bounds
+    effectiveConfig.bounds,
+    effectiveConfig.language
   );
   const finalSelection = (sanitized.length
     ? sanitized
@@ -1879,107 +1674,280 @@ async function selectSegments(
         scoped.scopedSegments,
         scoped.scopedWords,
         scoped.scopedSilencePoints,
-        effectiveConfig.bounds
+        effectiveConfig.bounds,
+        effectiveConfig.language
       )).slice(0, maxClips);
   await writeSelectionDebugArtifact(options?.jobId, "final_selection.json", finalSelection);
   return finalSelection;
 }
 
-async function writeSrtForClip(
-  outputPath: string,
-  fullTranscriptSegments: TranscriptSegment[],
-  clipStart: number,
-  clipEnd: number
-) {
-  const rows = fullTranscriptSegments
-    .filter((segment) => segment.end > clipStart && segment.start < clipEnd)
-    .map((segment, index) => {
-      const start = Math.max(0, segment.start - clipStart);
-      const end = Math.max(start + 0.2, Math.min(clipEnd - clipStart, segment.end - clipStart));
-      return `${index + 1}\n${toSrtTs(start)} --> ${toSrtTs(end)}\n${segment.text}\n`;
-    });
-
-  const safeRows = rows.length
-    ? rows
-    : [`1\n${toSrtTs(0)} --> ${toSrtTs(Math.max(1, clipEnd - clipStart))}\nLegenda indisponível\n`];
-  await fs.writeFile(outputPath, safeRows.join("\n"), "utf8");
-}
-
-async function writeAssForClip(
-  outputPath: string,
-  fullTranscriptSegments: TranscriptSegment[],
-  clipStart: number,
-  clipEnd: number,
-  preset: CaptionPreset,
-  videoHeight: number
-) {
-  const subtitleSegments = fullTranscriptSegments
-    .filter((segment) => segment.end > clipStart && segment.start < clipEnd)
-    .map((segment) => ({
-      start: Math.max(0, segment.start - clipStart),
-      end: Math.max(0.2, Math.min(clipEnd - clipStart, segment.end - clipStart)),
-      text: wrapCaptionText(escapeAssText(segment.text), 34)
-    }))
-    .filter((segment) => segment.end > segment.start);
-
-  const safeSegments = subtitleSegments.length
-    ? subtitleSegments
-    : [
-        {
-          start: 0,
-          end: Math.max(1, clipEnd - clipStart),
-          text: "Legenda indisponível"
-        }
-      ];
-
-  const header = [
-    "[Script Info]",
-    "ScriptType: v4.00+",
-    "PlayResX: 1080",
-    `PlayResY: ${videoHeight}`,
-    "WrapStyle: 2",
-    "ScaledBorderAndShadow: yes",
-    "",
-    "[V4+ Styles]",
-    "Format: Name,Fontname,Fontsize,PrimaryColour,SecondaryColour,OutlineColour,BackColour,Bold,Italic,Underline,StrikeOut,ScaleX,ScaleY,Spacing,Angle,BorderStyle,Outline,Shadow,Alignment,MarginL,MarginR,MarginV,Encoding",
-    assStyleLine(preset, videoHeight),
-    "",
-    "[Events]",
-    "Format: Layer,Start,End,Style,Name,MarginL,MarginR,MarginV,Effect,Text"
-  ];
-
-  const body = safeSegments.map((segment) => {
-    const tag = assAnimationTag(preset);
-    return `Dialogue: 0,${toAssTs(segment.start)},${toAssTs(segment.end)},Default,,0,0,0,,${tag}${segment.text}`;
-  });
-
-  await fs.writeFile(outputPath, [...header, ...body, ""].join("\n"), "utf8");
-}
-
-function hashtagsForText(text: string) {
+function hashtagsForText(text: string, language: string) {
   const lower = text.toLowerCase();
+  const copy = metadataCopy(language);
   if (lower.includes("react") || lower.includes("typescript") || lower.includes("javascript")) {
-    return ["#programacao", "#dev", "#javascript", "#tutorial", "#aprendizado"];
+    return copy.devHashtags;
   }
-  return ["#tutorial", "#cortes", "#educacao", "#aprender", "#criador"];
+  return copy.defaultHashtags;
 }
 
 type ProcessJobResult = {
   exportsRows: FinalizeExport[];
   transcriptText: string;
+  transcriptSegments: TranscriptSegment[];
+  transcriptWords: TranscriptWord[];
   suggestions: ClipSegment[];
 };
 
+function resolveProcessingMode(value: unknown): JobProcessingMode {
+  const mode = String(value || "").toUpperCase();
+  return (JOB_PROCESSING_MODES as readonly string[]).includes(mode) ? (mode as JobProcessingMode) : "FULL";
+}
+
+async function extractAudio(job: WorkerJob, sourcePath: string, audioPath: string) {
+  await updateJobProgress(job.id, "EXTRACTING_AUDIO", 20, "Extracting mono 16kHz audio.");
+  await runFfmpeg([
+    "-y",
+    "-i",
+    sourcePath,
+    "-vn",
+    "-ac",
+    "1",
+    "-ar",
+    "16000",
+    "-b:a",
+    "16k",
+    audioPath
+  ]);
+}
+
+function storedAnalysis(job: WorkerJob): SourceAnalysis {
+  const segments = readTranscriptSegments(job.transcriptSegments);
+  if (!segments.length) throw new Error("Stored transcript not found. Run a full generation first.");
+  const speakers = new Set(segments.map((segment) => segment.speaker).filter(Boolean));
+  return {
+    text: job.transcript || segments.map((segment) => segment.text).join(" "),
+    language: job.sourceLanguage || null,
+    durationSec: Number(job.sourceDurationSec || 0) || segments[segments.length - 1].end,
+    segments,
+    words: readTranscriptWords(job.transcriptWords),
+    speakerCount: speakers.size > 1 ? speakers.size : 0,
+    silencePoints: []
+  };
+}
+
+function readClipSegments(value: unknown): ClipSegment[] {
+  const stored = Array.isArray(value) ? value : [];
+  const segments = stored.filter(
+    (entry): entry is ClipSegment =>
+      typeof entry === "object" &&
+      entry !== null &&
+      typeof entry.clip_id === "string" &&
+      Number.isFinite(entry.start) &&
+      Number.isFinite(entry.end) &&
+      entry.end > entry.start
+  );
+  return segments.map((segment) => ({
+    ...segment,
+    title: String(segment.title || ""),
+    hook: String(segment.hook || ""),
+    reason: String(segment.reason || "")
+  }));
+}
+
+function storedSelection(job: WorkerJob): ClipSegment[] {
+  const segments = readClipSegments(job.suggestions);
+  if (!segments.length) throw new Error("Stored clip selection not found. Run a full generation first.");
+  return segments;
+}
+
+function readExportCheckpoint(input: unknown): FinalizeExport | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const value = input as Record<string, unknown>;
+  if (typeof value.clipId !== "string" || typeof value.clipPath !== "string" || typeof value.clipUrl !== "string") return null;
+  if (typeof value.jobId !== "string" || typeof value.userId !== "string") return null;
+  const expiresAt = new Date(typeof value.expiresAt === "string" || typeof value.expiresAt === "number" ? value.expiresAt : NaN);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) return null;
+  const providerMetadata = value.providerMetadata;
+  return {
+    jobId: value.jobId,
+    userId: value.userId,
+    clipId: value.clipId,
+    clipPath: value.clipPath,
+    clipUrl: value.clipUrl,
+    title: String(value.title || ""),
+    description: String(value.description || ""),
+    hashtags: Array.isArray(value.hashtags) ? value.hashtags.map(String) : [],
+    hook: String(value.hook || ""),
+    reason: String(value.reason || ""),
+    providerMetadata:
+      providerMetadata && typeof providerMetadata === "object" && !Array.isArray(providerMetadata)
+        ? (providerMetadata as Record<string, unknown>)
+        : {},
+    expiresAt
+  };
+}
+
+function checkpointArtifactPath(job: WorkerJob, name: string) {
+  return `${job.userId}/${job.id}/checkpoints/${name}`;
+}
+
+async function recordCheckpoint(ctx: CheckpointContext, stage: string, data: unknown, artifactPath: string | null = null) {
+  await saveJobCheckpoint(ctx.job.id, stage, data, artifactPath).catch((error) => {
+    console.warn(`[worker] checkpoint ${stage} not saved for job ${ctx.job.id}: ${getErrorMessage(error)}`);
+  });
+  ctx.checkpoints.set(stage, { stage, data, artifactPath });
+}
+
+async function ensureAudio(ctx: CheckpointContext) {
+  if (ctx.audioReady) return;
+  const checkpoint = ctx.checkpoints.get("audio");
+  if (checkpoint) {
+    const local = await fs.stat(ctx.audioPath).catch(() => null);
+    if (local?.size) {
+      ctx.audioReady = true;
+      return;
+    }
+    if (checkpoint.artifactPath) {
+      const { data } = await ctx.supabase.storage.from("exports").download(checkpoint.artifactPath);
+      if (data) {
+        await fs.writeFile(ctx.audioPath, Buffer.from(await data.arrayBuffer()));
+        ctx.audioReady = true;
+        return;
+      }
+    }
+  }
+
+  await extractAudio(ctx.job, ctx.sourcePath, ctx.audioPath);
+  const artifactPath = checkpointArtifactPath(ctx.job, "audio.mp3");
+  const upload = await ctx.supabase.storage
+    .from("exports")
+    .upload(artifactPath, await fs.readFile(ctx.audioPath), { contentType: "audio/mpeg", upsert: true });
+  await recordCheckpoint(ctx, "audio", null, upload.error ? null : artifactPath);
+  ctx.audioReady = true;
+}
+
+async function detectSilences(ctx: CheckpointContext) {
+  const checkpoint = ctx.checkpoints.get("silence");
+  if (checkpoint && Array.isArray(checkpoint.data)) return readSilencePoints(checkpoint.data);
+  await ensureAudio(ctx);
+  const silencePoints = await detectSilenceBoundaries(ctx.audioPath);
+  await recordCheckpoint(ctx, "silence", silencePoints);
+  return silencePoints;
+}
+
+async function transcribeSource(
+  ctx: CheckpointContext,
+  language: string,
+  glossary: GlossaryTerm[],
+  diarize: boolean
+): Promise<SourceAnalysis> {
+  const checkpointed = readSourceAnalysis(ctx.checkpoints.get("transcript")?.data);
+  if (checkpointed) return checkpointed;
+
+  const { job, audioPath } = ctx;
+  await ensureAudio(ctx);
+  await updateJobProgress(job.id, "TRANSCRIBING", 35, "Transcribing audio.");
+  const transcribed = await transcribeAudio(audioPath, Number(job.sourceDurationSec || 0), language, glossary);
+  let speakerCount = 0;
+  let transcription = transcribed;
+  if (diarize) {
+    await updateJobProgress(job.id, "TRANSCRIBING", 44, "Identifying speakers.");
+    const diarized = await transcriptionSlots.run(() => diarizeSegments(audioPath, transcribed.segments)).catch((error) => {
+      console.warn(`[worker] diarization skipped for job ${job.id}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    });
+    if (diarized?.speakerCount) {
+      speakerCount = diarized.speakerCount;
+      transcription = { ...transcribed, segments: diarized.segments };
+    }
+  }
+  const result = { ...transcription, speakerCount, silencePoints: [] };
+  await recordCheckpoint(ctx, "transcript", result);
+  return result;
+}
+
+async function analyzeSource(
+  ctx: CheckpointContext,
+  language: string,
+  glossary: GlossaryTerm[],
+  diarize: boolean
+): Promise<SourceAnalysis> {
+  const transcription = await transcribeSource(ctx, language, glossary, diarize);
+  return { ...transcription, silencePoints: await detectSilences(ctx) };
+}
+
+async function selectClipsForJob(
+  supabase: SupabaseClient,
+  job: WorkerJob,
+  transcription: TranscriptionResult,
+  silencePoints: number[],
+  language: string,
+  transcriptCacheHit: boolean
+) {
+  await updateJobProgress(
+    job.id,
+    "SELECTING_CLIPS",
+    50,
+    transcriptCacheHit ? "Cached transcript reused; normalizing transcript…" : "Normalizing transcript…"
+  );
+  return selectSegments(
+    supabase,
+    transcription.text,
+    transcription.durationSec,
+    transcription.segments,
+    transcription.words,
+    silencePoints,
+    {
+      language,
+      clipStyle: job.clipStyle,
+      genre: job.genre,
+      clipCount: job.desiredClipCount,
+      clipLengthMaxS: job.clipLengthMaxS,
+      includeMomentText: job.includeMomentText,
+      timeframeStartS: job.timeframeStartS,
+      timeframeEndS: job.timeframeEndS
+    },
+    {
+      jobId: job.id,
+      onStage: async (stage, progress) => {
+        await updateJobProgress(job.id, "SELECTING_CLIPS", progress, stage);
+      }
+    }
+  );
+}
+
 export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob): Promise<ProcessJobResult> {
+  const processes = createChildProcessScope();
+  const cancellation = watchCancellation(job.id, () => isJobCancelRequested(job.id), () => processes.killAll());
+  try {
+    return await processes.run(() => runJobPipeline(supabase, job, cancellation));
+  } catch (error) {
+    if (cancellation.cancelled) throw new Error(JOB_CANCELLED_MESSAGE);
+    throw error;
+  } finally {
+    cancellation.stop();
+  }
+}
+
+async function runJobPipeline(
+  supabase: SupabaseClient,
+  job: WorkerJob,
+  cancellation: CancellationWatch
+): Promise<ProcessJobResult> {
   const tmpDir = path.join("/tmp", job.id);
   const sourcePath = path.join(tmpDir, "source.mp4");
   const audioPath = path.join(tmpDir, "audio.mp3");
   const supportsSubtitles = await detectFfmpegSubtitlesSupport();
-  const cropConfig = parseCropConfig(job.cropConfig);
+  let cropConfig = parseCropConfig(job.cropConfig);
   const targetSize = OUTPUT_DIMENSIONS[cropConfig.outputPreset];
 
-  await fs.rm(tmpDir, { recursive: true, force: true });
+  const checkpoints = await findJobCheckpoints(job.id);
+  if (!checkpoints.size) await fs.rm(tmpDir, { recursive: true, force: true });
   await fs.mkdir(tmpDir, { recursive: true });
+  const ctx: CheckpointContext = { supabase, job, checkpoints, sourcePath, audioPath, audioReady: false };
+  if (checkpoints.size) {
+    console.log(`[worker] resuming job ${job.id} from checkpoints: ${Array.from(checkpoints.keys()).join(", ")}`);
+  }
 
   try {
     if (!supportsSubtitles) {
@@ -2003,59 +1971,72 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
       }
       await fs.writeFile(sourcePath, Buffer.from(await sourceData.arrayBuffer()));
     }
+    await cancellation.throwIfCancelled();
 
-    await updateJobProgress(job.id, "EXTRACTING_AUDIO", 20, "Extracting mono 16kHz audio.");
-    await runFfmpeg([
-      "-y",
-      "-i",
-      sourcePath,
-      "-vn",
-      "-ac",
-      "1",
-      "-ar",
-      "16000",
-      "-b:a",
-      "16k",
-      audioPath
-    ]);
-
-    await updateJobProgress(job.id, "TRANSCRIBING", 35, "Transcribing audio.");
-    const transcription = await transcribeAudio(audioPath, Number(job.sourceDurationSec || 0));
-    const silencePoints = await detectSilenceBoundaries(audioPath);
-
-    await updateJobProgress(job.id, "SELECTING_CLIPS", 50, "Normalizing transcript…");
-    const selectedSegments = await selectSegments(
-      supabase,
-      transcription.text,
-      transcription.durationSec,
-      transcription.segments,
-      transcription.words,
-      silencePoints,
-      {
-        clipStyle: job.clipStyle,
-        genre: job.genre,
-        clipCount: job.desiredClipCount,
-        clipLengthMaxS: job.clipLengthMaxS,
-        includeMomentText: job.includeMomentText,
-        timeframeStartS: job.timeframeStartS,
-        timeframeEndS: job.timeframeEndS
-      },
-      {
-        jobId: job.id,
-        onStage: async (stage, progress) => {
-          await updateJobProgress(job.id, "SELECTING_CLIPS", progress, stage);
-        }
+    if (!hasWebcamDetection(job.cropConfig)) {
+      await updateJobProgress(job.id, "DETECTING_WEBCAM", 14, "Detecting webcam region.");
+      const detection = await detectWebcamRegion(sourcePath, Number(job.sourceDurationSec || 0));
+      const detectedCropConfig = await updateJobCropConfig(job.id, (current) => withWebcamDetection(current, detection));
+      cropConfig = parseCropConfig(detectedCropConfig);
+    }
+
+    await cancellation.throwIfCancelled();
+    const mode = resolveProcessingMode(job.processingMode);
+    const glossary = await findGlossaryTerms(job.userId);
+    let transcriptCacheHit = false;
+    let analysis: SourceAnalysis | null = null;
+    if (mode === "FULL") {
+      const diarize = shouldDiarize(normalizeGenreKey(job.genre));
+      const cacheKey = buildTranscriptCacheKey({
+        userId: job.userId,
+        sourceHash: await hashFile(sourcePath),
+        provider: transcriptionProvider().name,
+        model: transcriptionProvider().model,
+        language: job.sourceLanguageOverride || TRANSCRIBE_LANGUAGE,
+        glossary,
+        diarize
+      });
+      analysis = await readTranscriptCache(supabase, cacheKey);
+      transcriptCacheHit = Boolean(analysis);
+      if (analysis) {
+        console.log(`[worker] transcript cache hit for job ${job.id} (${cacheKey.sourceHash.slice(0, 12)})`);
+      } else {
+        analysis = await analyzeSource(ctx, cacheKey.language, glossary, diarize);
+        await writeTranscriptCache(supabase, cacheKey, analysis).catch(() => undefined);
       }
-    );
+    } else {
+      console.log(`[worker] ${mode} job ${job.id} reusing stored transcript`);
+      analysis = storedAnalysis(job);
+      if (mode === "RESELECT") analysis.silencePoints = await detectSilences(ctx);
+    }
+    const { speakerCount, silencePoints, ...transcription } = analysis;
+    const sourceLanguage = job.sourceLanguageOverride || transcription.language || FALLBACK_SOURCE_LANGUAGE;
+    await updateJobSourceLanguage(job.id, sourceLanguage);
+    await cancellation.throwIfCancelled();
+
+    const checkpointedSelection = readClipSegments(checkpoints.get("selection")?.data);
+    let selectedSegments: ClipSegment[];
+    if (mode === "RERENDER") {
+      selectedSegments = storedSelection(job);
+    } else if (checkpointedSelection.length) {
+      selectedSegments = checkpointedSelection;
+    } else {
+      selectedSegments = await selectClipsForJob(supabase, job, transcription, silencePoints, sourceLanguage, transcriptCacheHit);
+      await recordCheckpoint(ctx, "selection", selectedSegments);
+    }
     if (!selectedSegments.length) {
       throw new Error("No valid segments were produced after validation.");
     }
+    await cancellation.throwIfCancelled();
     const translatedCaptions = await translateCaptionSegments(
       transcription.segments,
       selectedSegments,
-      cropConfig.captionLanguage
+      cropConfig.captionLanguage,
+      sourceLanguage,
+      protectedGlossaryTerms(glossary)
     );
     const captionSegments = translatedCaptions.segments;
+    const captionStyle = await findCaptionStyle(cropConfig.captionStyleId, job.userId);
 
     const exportsRows: FinalizeExport[] = [];
     const subtitlesBurned = true;
@@ -2063,6 +2044,12 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
     for (let index = 0; index < selectedSegments.length; index += 1) {
       const segment = selectedSegments[index];
       const clipNumber = index + 1;
+      const clipCheckpoint = readExportCheckpoint(checkpoints.get(`clip:${segment.clip_id}`)?.data);
+      if (clipCheckpoint) {
+        exportsRows.push(clipCheckpoint);
+        continue;
+      }
+      await cancellation.throwIfCancelled();
       const progress = Math.min(92, 55 + Math.round((clipNumber / selectedSegments.length) * 35));
       await updateJobProgress(job.id, "RENDERING_EXPORTS", progress, `Rendering clip ${clipNumber}/${selectedSegments.length}.`);
 
@@ -2070,44 +2057,27 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
       const assPath = path.join(tmpDir, `${segment.clip_id}.ass`);
       const mp4Path = path.join(tmpDir, `${segment.clip_id}.mp4`);
       await writeSrtForClip(srtPath, captionSegments, segment.start, segment.end);
-      await writeAssForClip(assPath, captionSegments, segment.start, segment.end, cropConfig.captionPreset, targetSize.height);
+      await writeAssForClip(assPath, captionSegments, segment.start, segment.end, cropConfig.captionPreset, targetSize.height, {
+        mode: cropConfig.captionMode,
+        words: translatedCaptions.translated ? [] : transcription.words,
+        style: captionStyle,
+        hook: job.autoHook ? segment.hook : null,
+        speakerColors: cropConfig.captionSpeakerColors
+      });
 
-      const filterWithSubtitles = `[0:v]setpts=PTS-STARTPTS,scale=${targetSize.width}:${targetSize.height}:force_original_aspect_ratio=increase,crop=${targetSize.width}:${targetSize.height},boxblur=18:2[bg];` +
-        `[0:v]setpts=PTS-STARTPTS,scale=${targetSize.width}:${targetSize.height}:force_original_aspect_ratio=decrease[fg];` +
-        `[bg][fg]overlay=(W-w)/2:(H-h)/2,ass='${escapeForFilterPath(assPath)}'[vout]`;
       const clipDuration = Math.max(0.3, segment.end - segment.start);
 
-      const renderArgs = (filter: string) => [
-        "-y",
-        "-ss",
-        String(segment.start),
-        "-t",
-        String(clipDuration),
-        "-i",
-        sourcePath,
-        "-filter_complex",
-        filter,
-        "-map",
-        "[vout]",
-        "-map",
-        "0:a?",
-        "-c:v",
-        "libx264",
-        "-preset",
-        "veryfast",
-        "-crf",
-        "24",
-        "-c:a",
-        "aac",
-        "-b:a",
-        "96k",
-        "-movflags",
-        "+faststart",
-        mp4Path
-      ];
-
       try {
-        await runFfmpeg(renderArgs(filterWithSubtitles));
+        await renderSlots.run(() =>
+          renderClip({
+            sourcePath,
+            startSec: segment.start,
+            endSec: segment.end,
+            cropConfig,
+            assPath,
+            outputPath: mp4Path
+          })
+        );
       } catch (error) {
         if (isMissingSubtitlesFilterError(error)) {
           throw new Error(
@@ -2174,7 +2144,7 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
         startSec: segment.start,
         endSec: segment.end
       });
-      const hashtags = hashtagsForText(`${segment.title} ${transcription.text.slice(0, 200)}`);
+      const hashtags = hashtagsForText(`${segment.title} ${transcription.text.slice(0, 200)}`, sourceLanguage);
       exportsRows.push({
         jobId: job.id,
         userId: job.userId,
@@ -2182,7 +2152,7 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
         clipPath: clipObjectPath,
         clipUrl: signed.data.signedUrl,
         title: segment.title,
-        description: `${segment.hook}\n\nPor que este clipe funciona: ${segment.reason}`,
+        description: `${segment.hook}\n\n${metadataCopy(sourceLanguage).whyItWorks}: ${segment.reason}`,
         hashtags,
         hook: segment.hook,
         reason: segment.reason,
@@ -2204,32 +2174,53 @@ export async function processClaimedJob(supabase: SupabaseClient, job: WorkerJob
           subtitles_ass_path: assObjectPath,
           subtitles_burned: subtitlesBurned,
           subtitles_animated: true,
+          hook_overlay: Boolean(job.autoHook && segment.hook.trim()),
           silence_points_count: silencePoints.length,
           transcript_word_count: transcription.words.length,
           caption_preset: cropConfig.captionPreset,
+          caption_mode: translatedCaptions.translated ? "SEGMENT" : cropConfig.captionMode,
+          caption_speaker_colors: cropConfig.captionSpeakerColors,
+          speaker_count: speakerCount,
+          ...(captionStyle ? { caption_style_id: cropConfig.captionStyleId, caption_style: captionStyle } : {}),
           caption_language: cropConfig.captionLanguage,
-          caption_source_language: TRANSCRIBE_LANGUAGE,
+          caption_source_language: sourceLanguage,
           caption_translated: translatedCaptions.translated,
           ...(translatedCaptions.translated
             ? {
+                caption_translated_at: new Date().toISOString(),
                 caption_translation_provider: translatedCaptions.provider,
-                caption_translation_model: translatedCaptions.model
+                caption_translation_model: translatedCaptions.model,
+                caption_segments: captionSegments.filter((s) => s.end > segment.start && s.start < segment.end)
               }
             : {}),
+          processing_mode: mode,
           output_preset: cropConfig.outputPreset,
+          layout: cropConfig.layout,
+          webcam_crop: cropConfig.webcam,
           providers: {
-            transcription: getTranscribeProvider(),
+            transcription: transcriptionProvider().name,
+            transcription_model: transcriptionProvider().model,
+            glossary_terms: glossary.length,
+            transcript_cache: transcriptCacheHit ? "hit" : "miss",
             segments: getSegmentProvider()
           }
         },
         expiresAt: new Date(Date.now() + EXPORT_TTL_SECONDS * 1000)
       });
+      await recordCheckpoint(ctx, `clip:${segment.clip_id}`, exportsRows[exportsRows.length - 1]);
     }
 
+    await cancellation.throwIfCancelled();
     await updateJobProgress(job.id, "FINALIZING", 98, "Saving metadata.");
+    await supabase.storage
+      .from("exports")
+      .remove([checkpointArtifactPath(job, "audio.mp3")])
+      .catch(() => undefined);
     return {
       exportsRows,
       transcriptText: transcription.text,
+      transcriptSegments: transcription.segments,
+      transcriptWords: transcription.words,
       suggestions: selectedSegments
     };
   } catch (error) {
@@ -0,0 +1,251 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isLocalSourcePath, toLocalFilePath } from "@/lib/source-path";
+import { writeAssForClip, writeSrtForClip, type CaptionSegment, type CaptionWord } from "@/worker/captions";
+import { OUTPUT_DIMENSIONS, parseCropConfig, renderClip } from "@/worker/render";
+import { parseCaptionStyle } from "@/lib/caption-styles";
+import { protectedGlossaryTerms } from "@/lib/glossary";
+import {
+  findCaptionStyle,
+  findGlossaryTerms,
+  findJob,
+  findJobExport,
+  updateRenderTaskProgress,
+  type WorkerJob,
+  type WorkerRenderTask
+} from "./local-db";
+import { translateCaptionSegments } from "./local-processing";
+import { renderSlots } from "./concurrency";
+
+const EXPORT_TTL_SECONDS = 72 * 3600;
+const MIN_CLIP_SECONDS = 0.3;
+
+type RenderTaskResult = {
+  jobId: string;
+  clipId: string;
+  clipUrl: string;
+  providerMetadata: Record<string, unknown>;
+};
+
+function readNumber(value: unknown, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, max));
+}
+
+function readRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function readCaptionSegments(input: unknown): CaptionSegment[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((item) => ({
+      start: Number(item?.start),
+      end: Number(item?.end),
+      text: typeof item?.text === "string" ? item.text.trim() : "",
+      speaker: typeof item?.speaker === "string" ? item.speaker : null
+    }))
+    .filter((item) => Number.isFinite(item.start) && Number.isFinite(item.end) && item.end > item.start && item.text);
+}
+
+function readCaptionWords(input: unknown): CaptionWord[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map((item) => ({
+      start: Number(item?.start),
+      end: Number(item?.end),
+      word: typeof item?.word === "string" ? item.word.trim() : ""
+    }))
+    .filter((item) => Number.isFinite(item.start) && Number.isFinite(item.end) && item.end > item.start && item.word);
+}
+
+function applyTranslatedCaptions(segments: CaptionSegment[], translated: CaptionSegment[]) {
+  if (!translated.length) return segments;
+  return segments.map((segment) => {
+    const match = translated.find(
+      (item) => Math.abs(item.start - segment.start) < 0.01 && Math.abs(item.end - segment.end) < 0.01
+    );
+    return match ? { ...segment, text: match.text } : segment;
+  });
+}
+
+// A stored translation was made from the transcript as it was at processing time;
+// once the transcript is edited afterwards, the translated text no longer matches it.
+function isTranslationStale(job: WorkerJob, metadata: Record<string, unknown>) {
+  if (metadata.caption_translated !== true || !job.transcriptEditedAt) return false;
+  const translatedAt = typeof metadata.caption_translated_at === "string" ? Date.parse(metadata.caption_translated_at) : NaN;
+  return !Number.isFinite(translatedAt) || new Date(job.transcriptEditedAt).getTime() > translatedAt;
+}
+
+async function uploadExport(supabase: SupabaseClient, objectPath: string, localPath: string, contentType: string) {
+  const bytes = await fs.readFile(localPath);
+  const upload = await supabase.storage.from("exports").upload(objectPath, bytes, { contentType, upsert: true });
+  if (upload.error) throw new Error(`Could not upload ${objectPath}: ${upload.error.message}`);
+}
+
+export async function processRenderTask(supabase: SupabaseClient, task: WorkerRenderTask): Promise<RenderTaskResult> {
+  if (task.kind !== "ADJUST" && task.kind !== "CAPTIONS") throw new Error(`Unsupported render task kind ${task.kind}.`);
+
+  const [job, clip] = await Promise.all([findJob(task.jobId), findJobExport(task.jobId, task.clipId)]);
+  if (!job) throw new Error("Job not found for render task.");
+  if (!clip) throw new Error("Clip not found for render task.");
+
+  const payload = readRecord(task.payload);
+  const sourceDuration = Math.max(MIN_CLIP_SECONDS, Number(job.sourceDurationSec || 0));
+  const safeStart = clamp(readNumber(payload.startSec, 0), 0, Math.max(0, sourceDuration - MIN_CLIP_SECONDS));
+  const safeEnd = clamp(readNumber(payload.endSec, sourceDuration), safeStart + MIN_CLIP_SECONDS, sourceDuration);
+
+  const previousMetadata = readRecord(clip.providerMetadata);
+  const cropConfig = parseCropConfig({
+    ...readRecord(job.cropConfig),
+    ...readRecord(previousMetadata.webcam_crop),
+    ...(previousMetadata.layout ? { layout: previousMetadata.layout } : {}),
+    ...(previousMetadata.caption_preset ? { captionPreset: previousMetadata.caption_preset } : {}),
+    ...(previousMetadata.caption_mode ? { captionMode: previousMetadata.caption_mode } : {}),
+    ...(typeof previousMetadata.caption_speaker_colors === "boolean"
+      ? { captionSpeakerColors: previousMetadata.caption_speaker_colors }
+      : {}),
+    ...(previousMetadata.output_preset ? { outputPreset: previousMetadata.output_preset } : {})
+  });
+  const targetSize = OUTPUT_DIMENSIONS[cropConfig.outputPreset];
+  const transcriptSegments = readCaptionSegments(job.transcriptSegments);
+  const retranslated = isTranslationStale(job, previousMetadata)
+    ? await translateCaptionSegments(
+        transcriptSegments,
+        [{ start: safeStart, end: safeEnd }],
+        cropConfig.captionLanguage,
+        String(previousMetadata.caption_source_language || job.sourceLanguage || ""),
+        protectedGlossaryTerms(await findGlossaryTerms(job.userId))
+      )
+    : null;
+  const captionSegments = retranslated
+    ? retranslated.segments
+    : applyTranslatedCaptions(transcriptSegments, readCaptionSegments(previousMetadata.caption_segments));
+  const captionTranslated = retranslated ? retranslated.translated : previousMetadata.caption_translated === true;
+  const hasCaptions = captionSegments.length > 0;
+  const captionWords = captionTranslated ? [] : readCaptionWords(job.transcriptWords);
+  const captionStyle =
+    parseCaptionStyle(previousMetadata.caption_style) ?? (await findCaptionStyle(cropConfig.captionStyleId, job.userId));
+
+  const clipPath = clip.clipPath || `${job.userId}/${job.id}/${clip.clipId}.mp4`;
+  const srtPath = String(previousMetadata.subtitles_path || clipPath.replace(/\.mp4$/, ".srt"));
+  const assPath = String(previousMetadata.subtitles_ass_path || clipPath.replace(/\.mp4$/, ".ass"));
+  const tmpDir = path.join("/tmp", `render-task-${task.id}`);
+  const sourceLocalPath = path.join(tmpDir, "source.mp4");
+  const outputLocalPath = path.join(tmpDir, `${clip.clipId}.mp4`);
+  const srtLocalPath = path.join(tmpDir, `${clip.clipId}.srt`);
+  const assLocalPath = path.join(tmpDir, `${clip.clipId}.ass`);
+
+  await fs.rm(tmpDir, { recursive: true, force: true });
+  await fs.mkdir(tmpDir, { recursive: true });
+
+  try {
+    if (isLocalSourcePath(job.sourcePath)) {
+      const localPath = toLocalFilePath(job.sourcePath);
+      if (!localPath) throw new Error("Invalid local source path.");
+      await updateRenderTaskProgress(task.id, "DOWNLOADING_SOURCE", 10, "Loading source video from local disk.");
+      const bytes = await fs.readFile(localPath).catch(() => null);
+      if (!bytes) throw new Error("Source video not found in local upload path.");
+      await fs.writeFile(sourceLocalPath, bytes);
+    } else {
+      await updateRenderTaskProgress(task.id, "DOWNLOADING_SOURCE", 10, "Downloading source video from Supabase.");
+      const { data: sourceData, error: sourceError } = await supabase.storage.from("uploads").download(job.sourcePath);
+      if (sourceError || !sourceData) {
+        throw new Error(sourceError?.message || "Source video not found in uploads bucket.");
+      }
+      await fs.writeFile(sourceLocalPath, Buffer.from(await sourceData.arrayBuffer()));
+    }
+
+    if (hasCaptions) {
+      await writeSrtForClip(srtLocalPath, captionSegments, safeStart, safeEnd);
+      await writeAssForClip(assLocalPath, captionSegments, safeStart, safeEnd, cropConfig.captionPreset, targetSize.height, {
+        mode: cropConfig.captionMode,
+        words: captionWords,
+        style: captionStyle,
+        hook: previousMetadata.hook_overlay ? clip.hook : null,
+        speakerColors: cropConfig.captionSpeakerColors
+      });
+    }
+
+    await updateRenderTaskProgress(task.id, "RENDERING_EXPORTS", 35, `Rendering clip ${clip.clipId}.`);
+    await renderSlots.run(() =>
+      renderClip({
+        sourcePath: sourceLocalPath,
+        startSec: safeStart,
+        endSec: safeEnd,
+        cropConfig,
+        assPath: hasCaptions ? assLocalPath : null,
+        outputPath: outputLocalPath
+      })
+    );
+
+    await updateRenderTaskProgress(task.id, "UPLOADING_EXPORTS", 85, `Uploading clip ${clip.clipId}.`);
+    await uploadExport(supabase, clipPath, outputLocalPath, "video/mp4");
+    if (hasCaptions) {
+      await uploadExport(supabase, srtPath, srtLocalPath, "application/x-subrip");
+      await uploadExport(supabase, assPath, assLocalPath, "text/x-ass");
+    }
+
+    const signed = await supabase.storage.from("exports").createSignedUrl(clipPath, EXPORT_TTL_SECONDS);
+    if (signed.error || !signed.data?.signedUrl) {
+      throw new Error(signed.error?.message || "Could not sign adjusted clip");
+    }
+
+    const carriedMetadata = retranslated
+      ? Object.fromEntries(Object.entries(previousMetadata).filter(([key]) => key !== "caption_segments"))
+      : previousMetadata;
+    const aiStartSec = readNumber(previousMetadata.ai_start_sec, readNumber(previousMetadata.start_sec, safeStart));
+    const aiEndSec = readNumber(previousMetadata.ai_end_sec, readNumber(previousMetadata.end_sec, safeEnd));
+    return {
+      jobId: job.id,
+      clipId: clip.clipId,
+      clipUrl: signed.data.signedUrl,
+      providerMetadata: {
+        ...carriedMetadata,
+        ...(retranslated
+          ? {
+              caption_translated: retranslated.translated,
+              ...(retranslated.translated
+                ? {
+                    caption_translated_at: new Date().toISOString(),
+                    caption_translation_provider: retranslated.provider,
+                    caption_translation_model: retranslated.model,
+                    caption_segments: retranslated.segments.filter((s) => s.end > safeStart && s.start < safeEnd)
+                  }
+                : {})
+            }
+          : {}),
+        ai_start_sec: aiStartSec,
+        ai_end_sec: aiEndSec,
+        start_sec: safeStart,
+        end_sec: safeEnd,
+        duration_sec: safeEnd - safeStart,
+        ...(hasCaptions
+          ? { subtitles_path: srtPath, subtitles_ass_path: assPath, subtitles_burned: true }
+          : { subtitles_burned: false }),
+        layout: cropConfig.layout,
+        webcam_crop: cropConfig.webcam,
+        caption_preset: cropConfig.captionPreset,
+        caption_mode: cropConfig.captionMode,
+        caption_speaker_colors: cropConfig.captionSpeakerColors,
+        ...(captionStyle ? { caption_style: captionStyle } : {}),
+        output_preset: cropConfig.outputPreset,
+        ...(task.kind === "CAPTIONS"
+          ? { captions_rerendered_at: new Date().toISOString() }
+          : {
+              manual_adjusted: true,
+              manual_adjusted_at: new Date().toISOString(),
+              adjusted_from_start_sec: readNumber(previousMetadata.start_sec, safeStart),
+              adjusted_from_end_sec: readNumber(previousMetadata.end_sec, safeEnd)
+            })
+      }
+    };
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
@@ -1,15 +1,45 @@
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import dns from "node:dns";
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import {
+  cancelJob,
   claimJob,
+  claimRenderTask,
   failJob,
+  failRenderTask,
   finalizeJob,
+  finalizeRenderTask,
+  findNextJobAwaitingWebcamDetection,
+  findNextQueuedRenderTask,
+  findLiveWorkerIds,
   findNextReadyJob,
-  recoverStaleProcessingJobs
+  heartbeatWorker,
+  isJobCancelRequested,
+  recoverStaleProcessingJobs,
+  recoverStaleRenderTasks,
+  registerWorker,
+  releaseJob,
+  releaseRenderTask,
+  scheduleJobRetry,
+  unregisterWorker,
+  updateJobCropConfig,
+  type WorkerJob,
+  type WorkerRegistration,
+  type WorkerRenderTask
 } from "./local-db";
+import { renderSlots, transcriptionSlots } from "./concurrency";
 import { processClaimedJob } from "./local-processing";
+import { processRenderTask } from "./local-render-tasks";
+import { classifyFailure, readRetryHistory, retryDelayMs } from "@/lib/retry-policy";
+import {
+  detectWebcamForJob,
+  failedWebcamDetection,
+  needsWebcamDetection,
+  withWebcamDetection
+} from "./webcam-detection";
+import { runWebhookDeliveryPass } from "./webhook-delivery";
 
 dns.setDefaultResultOrder("ipv4first");
 
@@ -53,45 +83,272 @@ function getStaleTimeoutMinutes() {
   return Math.max(10, parsePositiveInt("WORKER_STALE_TIMEOUT_MINUTES", 45));
 }
 
+function getConcurrency() {
+  return Math.min(8, parsePositiveInt("WORKER_CONCURRENCY", 1));
+}
+
+function getShutdownGraceMs() {
+  return parsePositiveInt("WORKER_SHUTDOWN_GRACE_SECONDS", 120) * 1000;
+}
+
+function getHeartbeatIntervalMs() {
+  return parsePositiveInt("WORKER_HEARTBEAT_SECONDS", 15) * 1000;
+}
+
+function getHeartbeatTimeoutSeconds() {
+  const intervalSeconds = getHeartbeatIntervalMs() / 1000;
+  return Math.max(intervalSeconds * 3, parsePositiveInt("WORKER_HEARTBEAT_TIMEOUT_SECONDS", 90));
+}
+
+function readWorkerVersion() {
+  if (process.env.WORKER_VERSION) return process.env.WORKER_VERSION;
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), "package.json"), "utf8"));
+    return typeof pkg.version === "string" ? pkg.version : null;
+  } catch {
+    return null;
+  }
+}
+
+const workerId = process.env.WORKER_ID || `${os.hostname()}:${process.pid}`;
+
+function buildWorkerRegistration(concurrency: number): WorkerRegistration {
+  return {
+    id: workerId,
+    host: os.hostname(),
+    version: readWorkerVersion(),
+    providers: {
+      transcription: process.env.TRANSCRIBE_PROVIDER || "stub",
+      segment: process.env.SEGMENT_PROVIDER || "ollama",
+      diarization: process.env.DIARIZATION_MODE || "auto",
+      transcribe_slots: transcriptionSlots.max,
+      render_slots: renderSlots.max
+    },
+    concurrency
+  };
+}
+
+function startHeartbeat(registration: WorkerRegistration) {
+  const timer = setInterval(() => {
+    heartbeatWorker(registration.id)
+      .then((alive) => (alive ? undefined : registerWorker(registration)))
+      .catch((error) => {
+        console.warn(`[worker] heartbeat failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }, getHeartbeatIntervalMs());
+  timer.unref();
+  return timer;
+}
+
 function createSupabaseAdminClient() {
   return createClient(requiredEnv("SUPABASE_URL"), requiredEnv("SUPABASE_SERVICE_ROLE_KEY"), {
     auth: { autoRefreshToken: false, persistSession: false }
   });
 }
 
+type ClaimedWork = { kind: "job"; job: WorkerJob } | { kind: "render"; task: WorkerRenderTask };
+
 type TickResult =
   | { processed: 0; skipped: string }
   | { processed: 0; queue: string }
   | { processed: 1; jobId: string; ok: true; clips: number }
-  | { processed: 1; jobId: string; ok: false; error: string };
+  | { processed: 1; jobId: string; ok: false; error: string }
+  | { processed: 1; renderTaskId: string; ok: true; clipId: string }
+  | { processed: 1; renderTaskId: string; ok: false; error: string };
 
-export async function runLocalWorkerTick(supabase: SupabaseClient): Promise<TickResult> {
-  const staleMinutes = getStaleTimeoutMinutes();
-  await recoverStaleProcessingJobs(staleMinutes);
+const inFlight = new Map<string, { work: ClaimedWork; promise: Promise<void> }>();
+let shuttingDown = false;
 
-  const nextJob = await findNextReadyJob();
-  if (!nextJob) return { processed: 0, queue: "no READY_TO_PROCESS jobs" };
+let webcamDetectionPass: Promise<void> | null = null;
 
-  const claimed = await claimJob(nextJob.id);
-  if (!claimed) return { processed: 0, skipped: "job already claimed by another worker" };
+async function runWebcamDetectionPass(supabase: SupabaseClient) {
+  const job = await findNextJobAwaitingWebcamDetection((cropConfig) => needsWebcamDetection(cropConfig));
+  if (!job) return;
+
+  try {
+    const detection = await renderSlots.run(() => detectWebcamForJob(supabase, job));
+    await updateJobCropConfig(job.id, (current) => withWebcamDetection(current, detection));
+    console.log(`[worker] webcam detection job ${job.id} confidence=${detection.confidence}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await updateJobCropConfig(job.id, (current) =>
+      withWebcamDetection(current, failedWebcamDetection(current, message))
+    ).catch(() => undefined);
+    console.error(`[worker] webcam detection failed for job ${job.id}: ${message}`);
+  }
+}
 
+function startWebcamDetectionPass(supabase: SupabaseClient) {
+  if (webcamDetectionPass) return;
+  webcamDetectionPass = runWebcamDetectionPass(supabase)
+    .catch((error) => console.error("[worker] webcam detection pass failed", error))
+    .finally(() => {
+      webcamDetectionPass = null;
+    });
+}
+
+async function runRenderTask(supabase: SupabaseClient, claimed: WorkerRenderTask): Promise<TickResult> {
+  const startedAt = Date.now();
+  console.log(`[worker] claimed render task ${claimed.id} (job=${claimed.jobId} clip=${claimed.clipId})`);
+
+  try {
+    const outcome = await processRenderTask(supabase, claimed);
+    await finalizeRenderTask(claimed.id, outcome);
+    const tookSeconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+    console.log(`[worker] DONE render task ${claimed.id} in ${tookSeconds}s`);
+    return { processed: 1, renderTaskId: claimed.id, ok: true, clipId: claimed.clipId };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await failRenderTask(claimed.id, message);
+    console.error(`[worker] FAILED render task ${claimed.id}: ${message}`);
+    return { processed: 1, renderTaskId: claimed.id, ok: false, error: message };
+  }
+}
+
+async function runJob(supabase: SupabaseClient, claimed: WorkerJob): Promise<TickResult> {
   const startedAt = Date.now();
   console.log(`[worker] claimed job ${claimed.id} (user=${claimed.userId})`);
 
   try {
     const outcome = await processClaimedJob(supabase, claimed);
-    await finalizeJob(claimed.id, outcome.exportsRows, outcome.suggestions, outcome.transcriptText);
+    await finalizeJob(
+      claimed.id,
+      outcome.exportsRows,
+      outcome.suggestions,
+      outcome.transcriptText,
+      outcome.transcriptSegments,
+      outcome.transcriptWords
+    );
     const tookSeconds = ((Date.now() - startedAt) / 1000).toFixed(1);
     console.log(`[worker] DONE job ${claimed.id} in ${tookSeconds}s with ${outcome.exportsRows.length} clips`);
     return { processed: 1, jobId: claimed.id, ok: true, clips: outcome.exportsRows.length };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    await failJob(claimed.id, message);
-    console.error(`[worker] FAILED job ${claimed.id}: ${message}`);
+    if (await isJobCancelRequested(claimed.id)) {
+      await cancelJob(claimed.id);
+      console.log(`[worker] CANCELLED job ${claimed.id}`);
+      return { processed: 1, jobId: claimed.id, ok: false, error: "cancelled" };
+    }
+    const attempt = claimed.attemptCount || 1;
+    const maxAttempts = claimed.maxAttempts || 1;
+    const retryable = classifyFailure(message) === "retryable";
+    const nextAttemptAt = retryable && attempt < maxAttempts ? new Date(Date.now() + retryDelayMs(attempt)) : null;
+    const retryHistory = [
+      ...readRetryHistory(claimed.retryHistory),
+      {
+        attempt,
+        failedAt: new Date().toISOString(),
+        error: message,
+        retryable,
+        nextAttemptAt: nextAttemptAt ? nextAttemptAt.toISOString() : null
+      }
+    ];
+    if (nextAttemptAt) {
+      await scheduleJobRetry(
+        claimed.id,
+        nextAttemptAt,
+        `Attempt ${attempt} of ${maxAttempts} failed; retrying at ${nextAttemptAt.toISOString()}.`,
+        retryHistory
+      );
+      console.warn(`[worker] RETRY job ${claimed.id} (attempt ${attempt}/${maxAttempts}): ${message}`);
+      return { processed: 1, jobId: claimed.id, ok: false, error: message };
+    }
+    await failJob(claimed.id, message, retryHistory);
+    console.error(`[worker] FAILED job ${claimed.id} after ${attempt} attempt(s): ${message}`);
     return { processed: 1, jobId: claimed.id, ok: false, error: message };
   }
 }
 
+async function claimNextWork(): Promise<ClaimedWork | TickResult> {
+  const nextTask = await findNextQueuedRenderTask();
+  if (nextTask) {
+    const claimed = await claimRenderTask(nextTask.id, workerId);
+    if (!claimed) return { processed: 0, skipped: "render task already claimed by another worker" };
+    return { kind: "render", task: claimed };
+  }
+
+  const nextJob = await findNextReadyJob();
+  if (!nextJob) return { processed: 0, queue: "no READY_TO_PROCESS jobs" };
+
+  const claimed = await claimJob(nextJob.id, workerId);
+  if (!claimed) return { processed: 0, skipped: "job already claimed by another worker" };
+  return { kind: "job", job: claimed };
+}
+
+function startWork(supabase: SupabaseClient, work: ClaimedWork) {
+  const key = work.kind === "job" ? `job:${work.job.id}` : `render:${work.task.id}`;
+  const promise = (work.kind === "job" ? runJob(supabase, work.job) : runRenderTask(supabase, work.task))
+    .then((result) => {
+      console.log(`[worker] tick result ${JSON.stringify(result)}`);
+    })
+    .finally(() => {
+      inFlight.delete(key);
+    });
+  inFlight.set(key, { work, promise });
+}
+
+export async function runLocalWorkerTick(supabase: SupabaseClient, concurrency: number): Promise<TickResult | null> {
+  const staleMinutes = getStaleTimeoutMinutes();
+  const active = Array.from(inFlight.values()).map((entry) => entry.work);
+  const liveWorkerIds = await findLiveWorkerIds(getHeartbeatTimeoutSeconds());
+  await recoverStaleProcessingJobs(
+    staleMinutes,
+    liveWorkerIds,
+    active.flatMap((work) => (work.kind === "job" ? [work.job.id] : []))
+  );
+  await recoverStaleRenderTasks(
+    staleMinutes,
+    liveWorkerIds,
+    active.flatMap((work) => (work.kind === "render" ? [work.task.id] : []))
+  );
+  startWebcamDetectionPass(supabase);
+  void runWebhookDeliveryPass();
+
+  while (!shuttingDown && inFlight.size < concurrency) {
+    const next = await claimNextWork();
+    if (!("kind" in next)) return inFlight.size ? null : next;
+    startWork(supabase, next);
+  }
+  return null;
+}
+
+async function releaseInFlight(reason: string) {
+  for (const { work } of Array.from(inFlight.values())) {
+    if (work.kind === "job") {
+      await releaseJob(work.job.id, reason).catch(() => undefined);
+      console.warn(`[worker] released job ${work.job.id}`);
+    } else {
+      await releaseRenderTask(work.task.id, reason).catch(() => undefined);
+      console.warn(`[worker] released render task ${work.task.id}`);
+    }
+  }
+}
+
+async function drainInFlight(graceMs: number) {
+  if (!inFlight.size) return;
+  console.log(`[worker] waiting up to ${Math.round(graceMs / 1000)}s for ${inFlight.size} in-flight task(s)`);
+  const settled = Promise.allSettled(Array.from(inFlight.values()).map((entry) => entry.promise)).then(() => true);
+  const finished = await Promise.race([settled, sleep(graceMs).then(() => false)]);
+  if (!finished) await releaseInFlight("Released by worker shutdown before finishing.");
+}
+
+function installShutdownHandlers() {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.warn(`[worker] ${signal} received again, releasing in-flight claims now`);
+      releaseInFlight(`Released by worker shutdown (${signal}).`)
+        .then(() => unregisterWorker(workerId))
+        .catch(() => undefined)
+        .finally(() => process.exit(1));
+      return;
+    }
+    shuttingDown = true;
+    console.log(`[worker] ${signal} received, no longer claiming new work`);
+  };
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
+
 async function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -100,21 +357,35 @@ async function main() {
   const supabase = createSupabaseAdminClient();
   const once = process.argv.includes("--once");
   const pollIntervalMs = getPollIntervalMs();
+  const concurrency = getConcurrency();
+  installShutdownHandlers();
+  const registration = buildWorkerRegistration(concurrency);
+  await registerWorker(registration);
+  const heartbeat = startHeartbeat(registration);
 
   console.log(
-    `[worker] local worker started poll=${pollIntervalMs}ms transcribe=${process.env.TRANSCRIBE_PROVIDER || "stub"} segment=${process.env.SEGMENT_PROVIDER || "ollama"}`
+    `[worker] local worker ${workerId} started poll=${pollIntervalMs}ms concurrency=${concurrency} transcribe_slots=${transcriptionSlots.max} render_slots=${renderSlots.max} transcribe=${process.env.TRANSCRIBE_PROVIDER || "stub"} segment=${process.env.SEGMENT_PROVIDER || "ollama"}`
   );
 
   do {
     const tickStarted = Date.now();
-    const result = await runLocalWorkerTick(supabase);
-    console.log(`[worker] tick result ${JSON.stringify(result)}`);
+    const idle = await runLocalWorkerTick(supabase, concurrency);
+    if (idle) console.log(`[worker] tick result ${JSON.stringify(idle)}`);
     if (once) break;
 
     const elapsed = Date.now() - tickStarted;
     const waitMs = Math.max(0, pollIntervalMs - elapsed);
     await sleep(waitMs);
-  } while (true);
+  } while (!shuttingDown);
+
+  if (once) await Promise.allSettled(Array.from(inFlight.values()).map((entry) => entry.promise));
+  await drainInFlight(getShutdownGraceMs());
+  await webcamDetectionPass;
+  await runWebhookDeliveryPass();
+  clearInterval(heartbeat);
+  await unregisterWorker(workerId).catch(() => undefined);
+  console.log("[worker] stopped");
+  process.exit(0);
 }
 
 main().catch((error) => {
@@ -11,6 +11,8 @@ def main() -> int:
     parser.add_argument("--model", default="small")
     parser.add_argument("--language", default="pt")
     parser.add_argument("--compute-type", default="int8")
+    parser.add_argument("--initial-prompt", default="")
+    parser.add_argument("--hotwords", default="")
     args = parser.parse_args()
 
     try:
@@ -29,14 +31,22 @@ def main() -> int:
 
     try:
         model = WhisperModel(args.model, compute_type=args.compute_type)
-        segments, info = model.transcribe(
-            args.audio,
-            language=args.language,
-            vad_filter=True,
-            word_timestamps=True,
-            beam_size=5,
-            best_of=5
-        )
+        options: dict[str, Any] = {
+            "language": None if args.language in ("", "auto") else args.language,
+            "vad_filter": True,
+            "word_timestamps": True,
+            "beam_size": 5,
+            "best_of": 5,
+            "initial_prompt": args.initial_prompt or None,
+        }
+        if args.hotwords:
+            options["hotwords"] = args.hotwords
+        try:
+            segments, info = model.transcribe(args.audio, **options)
+        except TypeError:
+            # hotwords requires faster-whisper >= 1.0.2
+            options.pop("hotwords", None)
+            segments, info = model.transcribe(args.audio, **options)
     except Exception as exc:
         print(json.dumps({"error": f"transcribe failed: {exc}"}), file=sys.stderr)
         return 3
@@ -75,6 +85,7 @@ def main() -> int:
         "segments": out_segments,
         "words": out_words,
         "language": getattr(info, "language", args.language),
+        "language_probability": float(getattr(info, "language_probability", 0.0) or 0.0),
     }
     print(json.dumps(payload, ensure_ascii=False))
     return 0
@@ -0,0 +1,37 @@
+import { createHash } from "node:crypto";
+import type { GlossaryTerm } from "@/lib/glossary";
+
+export type TranscriptCacheKey = {
+  userId: string;
+  sourceHash: string;
+  provider: string;
+  model: string;
+  language: string;
+  optionsSignature: string;
+};
+
+export const TRANSCRIPT_CACHE_CONFLICT_COLUMNS = "user_id,source_hash,provider,model,language,options_signature";
+
+export function transcriptOptionsSignature(glossary: GlossaryTerm[], diarize: boolean) {
+  const glossaryHash = createHash("sha1").update(JSON.stringify(glossary)).digest("hex").slice(0, 10);
+  return `glossary=${glossaryHash};diarize=${diarize ? 1 : 0}`;
+}
+
+export function buildTranscriptCacheKey(input: {
+  userId: string;
+  sourceHash: string;
+  provider: string;
+  model?: string | null;
+  language: string;
+  glossary: GlossaryTerm[];
+  diarize: boolean;
+}): TranscriptCacheKey {
+  return {
+    userId: input.userId,
+    sourceHash: input.sourceHash,
+    provider: input.provider,
+    model: input.model || "",
+    language: input.language,
+    optionsSignature: transcriptOptionsSignature(input.glossary, input.diarize)
+  };
+}
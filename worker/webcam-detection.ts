@@ -0,0 +1,259 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { runFfmpegToBuffer } from "@/worker/ffmpeg";
+import { DEFAULT_WEBCAM_RECT, MIN_WEBCAM_RECT_SIZE, normalizeWebcamRect, type NormalizedRect } from "@/lib/layouts";
+import { isLocalSourcePath, toLocalFilePath } from "@/lib/source-path";
+import type { WebcamDetection } from "@/lib/types";
+import type { WorkerJob } from "./local-db";
+
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const SAMPLE_COUNT = readPositiveIntEnv("WEBCAM_DETECT_SAMPLES", 8);
+const GRID_COLS = 16;
+const GRID_ROWS = 9;
+const MOTION_WEIGHT = 0.6;
+const SKIN_WEIGHT = 0.4;
+const MAX_WEBCAM_AREA = 0.45;
+const MIN_CONFIDENCE = 0.2;
+const MAX_DETECTION_ATTEMPTS = readPositiveIntEnv("WEBCAM_DETECT_MAX_ATTEMPTS", 3);
+const DETECTION_RETRY_MS = 5 * 60 * 1000;
+
+type SampledFrame = Buffer;
+
+type CellStats = {
+  motion: number;
+  skin: number;
+  score: number;
+};
+
+function readPositiveIntEnv(name: string, fallback: number) {
+  const parsed = Number(process.env[name] || "");
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : fallback;
+}
+
+function clamp01(value: number) {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function sampleTimestamps(durationSec: number) {
+  const safeDuration = Math.max(1, durationSec);
+  const start = safeDuration * 0.05;
+  const span = safeDuration * 0.9;
+  return Array.from({ length: SAMPLE_COUNT }, (_, index) => start + (span * (index + 0.5)) / SAMPLE_COUNT);
+}
+
+async function sampleFrame(input: string, atSec: number): Promise<SampledFrame | null> {
+  const expectedBytes = SAMPLE_WIDTH * SAMPLE_HEIGHT * 3;
+  const buffer = await runFfmpegToBuffer([
+    "-hide_banner",
+    "-loglevel",
+    "error",
+    "-ss",
+    atSec.toFixed(2),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-vf",
+    `scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}`,
+    "-f",
+    "rawvideo",
+    "-pix_fmt",
+    "rgb24",
+    "pipe:1"
+  ]).catch(() => null);
+  if (!buffer || buffer.length < expectedBytes) return null;
+  return buffer.subarray(0, expectedBytes);
+}
+
+function luma(frame: SampledFrame, offset: number) {
+  return 0.299 * frame[offset] + 0.587 * frame[offset + 1] + 0.114 * frame[offset + 2];
+}
+
+function isSkinTone(frame: SampledFrame, offset: number) {
+  const r = frame[offset];
+  const g = frame[offset + 1];
+  const b = frame[offset + 2];
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 && r > 60;
+}
+
+function computeCellStats(frames: SampledFrame[]): CellStats[] {
+  const cellWidth = SAMPLE_WIDTH / GRID_COLS;
+  const cellHeight = SAMPLE_HEIGHT / GRID_ROWS;
+  const raw: Array<{ motion: number; skin: number }> = [];
+
+  for (let row = 0; row < GRID_ROWS; row += 1) {
+    for (let col = 0; col < GRID_COLS; col += 1) {
+      let motion = 0;
+      let skin = 0;
+      let pixels = 0;
+
+      for (let py = Math.floor(row * cellHeight); py < Math.floor((row + 1) * cellHeight); py += 1) {
+        for (let px = Math.floor(col * cellWidth); px < Math.floor((col + 1) * cellWidth); px += 1) {
+          const offset = (py * SAMPLE_WIDTH + px) * 3;
+          for (let index = 0; index < frames.length; index += 1) {
+            if (isSkinTone(frames[index], offset)) skin += 1;
+            if (index > 0) motion += Math.abs(luma(frames[index], offset) - luma(frames[index - 1], offset));
+          }
+          pixels += 1;
+        }
+      }
+
+      raw.push({
+        motion: motion / Math.max(1, pixels * (frames.length - 1)),
+        skin: skin / Math.max(1, pixels * frames.length)
+      });
+    }
+  }
+
+  const maxMotion = Math.max(1, ...raw.map((cell) => cell.motion));
+  return raw.map((cell) => {
+    const motion = cell.motion / maxMotion;
+    return { motion, skin: cell.skin, score: MOTION_WEIGHT * motion + SKIN_WEIGHT * cell.skin };
+  });
+}
+
+function growRegion(cells: CellStats[], seed: number, threshold: number) {
+  const visited = new Set<number>([seed]);
+  const queue = [seed];
+
+  while (queue.length) {
+    const current = queue.shift() as number;
+    const row = Math.floor(current / GRID_COLS);
+    const col = current % GRID_COLS;
+    const neighbours = [
+      row > 0 ? current - GRID_COLS : -1,
+      row < GRID_ROWS - 1 ? current + GRID_COLS : -1,
+      col > 0 ? current - 1 : -1,
+      col < GRID_COLS - 1 ? current + 1 : -1
+    ];
+    for (const next of neighbours) {
+      if (next < 0 || visited.has(next) || cells[next].score < threshold) continue;
+      visited.add(next);
+      queue.push(next);
+    }
+  }
+
+  return visited;
+}
+
+function boundingRect(region: Set<number>): NormalizedRect {
+  const rows = Array.from(region, (index) => Math.floor(index / GRID_COLS));
+  const cols = Array.from(region, (index) => index % GRID_COLS);
+  const minRow = Math.max(0, Math.min(...rows) - 1);
+  const maxRow = Math.min(GRID_ROWS - 1, Math.max(...rows) + 1);
+  const minCol = Math.max(0, Math.min(...cols) - 1);
+  const maxCol = Math.min(GRID_COLS - 1, Math.max(...cols) + 1);
+  return {
+    x: minCol / GRID_COLS,
+    y: minRow / GRID_ROWS,
+    width: (maxCol - minCol + 1) / GRID_COLS,
+    height: (maxRow - minRow + 1) / GRID_ROWS
+  };
+}
+
+function isInsideRect(index: number, rect: NormalizedRect) {
+  const x = (index % GRID_COLS) / GRID_COLS;
+  const y = Math.floor(index / GRID_COLS) / GRID_ROWS;
+  return x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+}
+
+export function detectWebcamFromFrames(frames: SampledFrame[]): { rect: NormalizedRect; confidence: number } | null {
+  if (frames.length < 2) return null;
+
+  const cells = computeCellStats(frames);
+  const seed = cells.reduce((best, cell, index) => (cell.score > cells[best].score ? index : best), 0);
+  if (cells[seed].score <= 0) return null;
+
+  const region = growRegion(cells, seed, cells[seed].score * 0.5);
+  const rect = boundingRect(region);
+  if (rect.width * rect.height > MAX_WEBCAM_AREA) return null;
+  if (rect.width < MIN_WEBCAM_RECT_SIZE || rect.height < MIN_WEBCAM_RECT_SIZE) return null;
+
+  const inside = cells.filter((_, index) => isInsideRect(index, rect));
+  const outside = cells.filter((_, index) => !isInsideRect(index, rect));
+  const mean = (items: CellStats[], key: keyof CellStats) =>
+    items.length ? items.reduce((sum, item) => sum + item[key], 0) / items.length : 0;
+
+  const contrast = clamp01((mean(inside, "score") - mean(outside, "score")) * 2);
+  const skinPresence = clamp01(mean(inside, "skin") * 4);
+  const confidence = round2(contrast * (0.5 + 0.5 * skinPresence));
+  if (confidence < MIN_CONFIDENCE) return null;
+
+  return { rect: normalizeWebcamRect(rect), confidence };
+}
+
+export async function detectWebcamRegion(input: string, durationSec: number): Promise<WebcamDetection> {
+  const frames: SampledFrame[] = [];
+  for (const atSec of sampleTimestamps(durationSec)) {
+    const frame = await sampleFrame(input, atSec);
+    if (frame) frames.push(frame);
+  }
+
+  const detected = detectWebcamFromFrames(frames);
+  return {
+    rect: detected?.rect ?? null,
+    confidence: detected?.confidence ?? 0,
+    detectedAt: new Date().toISOString()
+  };
+}
+
+function readDetection(cropConfig: unknown) {
+  if (!cropConfig || typeof cropConfig !== "object") return null;
+  const detection = (cropConfig as Record<string, unknown>).detection;
+  return detection && typeof detection === "object" ? (detection as WebcamDetection) : null;
+}
+
+export function hasWebcamDetection(cropConfig: unknown) {
+  const detection = readDetection(cropConfig);
+  return Boolean(detection && !detection.error);
+}
+
+export function needsWebcamDetection(cropConfig: unknown, now = Date.now()) {
+  const detection = readDetection(cropConfig);
+  if (!detection) return true;
+  if (!detection.error) return false;
+
+  const attempts = detection.attempts || 1;
+  if (attempts >= MAX_DETECTION_ATTEMPTS) return false;
+  return now - new Date(detection.detectedAt).getTime() >= DETECTION_RETRY_MS * attempts;
+}
+
+export function failedWebcamDetection(cropConfig: unknown, message: string): WebcamDetection {
+  return {
+    rect: null,
+    confidence: 0,
+    detectedAt: new Date().toISOString(),
+    error: message,
+    attempts: (readDetection(cropConfig)?.attempts || 0) + 1
+  };
+}
+
+export function withWebcamDetection(cropConfig: unknown, detection: WebcamDetection) {
+  const current = cropConfig && typeof cropConfig === "object" ? (cropConfig as Record<string, unknown>) : {};
+  const untouched = (["x", "y", "width", "height"] as const).every(
+    (key) => current[key] === undefined || Number(current[key]) === DEFAULT_WEBCAM_RECT[key]
+  );
+  return {
+    ...current,
+    ...(detection.rect && untouched ? detection.rect : {}),
+    detection
+  };
+}
+
+export async function detectWebcamForJob(supabase: SupabaseClient, job: WorkerJob): Promise<WebcamDetection> {
+  if (isLocalSourcePath(job.sourcePath)) {
+    const localPath = toLocalFilePath(job.sourcePath);
+    if (!localPath) throw new Error("Invalid local source path.");
+    return detectWebcamRegion(localPath, Number(job.sourceDurationSec || 0));
+  }
+
+  const { data, error } = await supabase.storage.from("uploads").createSignedUrl(job.sourcePath, 600);
+  if (error || !data?.signedUrl) throw new Error(error?.message || "Could not sign source video for webcam detection.");
+  return detectWebcamRegion(data.signedUrl, Number(job.sourceDurationSec || 0));
+}
@@ -0,0 +1,152 @@
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import type { LookupFunction } from "node:net";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  isBlockedWebhookHost,
+  isPrivateAddress,
+  privateWebhookTargetsAllowed,
+  signWebhookBody,
+  type WebhookDeliveryAttempt
+} from "@/lib/webhooks";
+import { claimDueWebhookDeliveries, recordWebhookDeliveryAttempt, type WorkerWebhookDelivery } from "./local-db";
+
+const DELIVERY_BATCH_SIZE = 10;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+let activePass: Promise<void> | null = null;
+
+function readPositive(name: string, fallback: number) {
+  const parsed = Number(process.env[name] || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function webhookRetryDelayMs(attempt: number) {
+  const base = readPositive("WEBHOOK_RETRY_BASE_SECONDS", 30);
+  const max = readPositive("WEBHOOK_RETRY_MAX_SECONDS", 3600);
+  return Math.round(Math.min(max, base * 2 ** Math.max(0, attempt - 1)) * 1000);
+}
+
+function readAttempts(value: unknown): WebhookDeliveryAttempt[] {
+  return Array.isArray(value) ? (value as WebhookDeliveryAttempt[]) : [];
+}
+
+// Resolves through the same lookup the socket connects with, so a hostname that
+// re-resolves to a private address after it was saved is still refused.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked || !addresses.length) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a private address.`), "", 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function sendWebhookRequest(url: URL, headers: Record<string, string>, body: string, allowPrivate: boolean) {
+  return new Promise<number>((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: allowPrivate ? undefined : publicOnlyLookup,
+        timeout: DELIVERY_TIMEOUT_MS
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error(`Webhook request timed out after ${DELIVERY_TIMEOUT_MS}ms.`)));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+async function postDelivery(delivery: WorkerWebhookDelivery) {
+  if (!delivery.endpoint.enabled) return { responseStatus: null, error: "Webhook endpoint is disabled." };
+
+  const url = URL.canParse(delivery.endpoint.url) ? new URL(delivery.endpoint.url) : null;
+  const allowPrivate = privateWebhookTargetsAllowed();
+  if (!url || !/^https?:$/.test(url.protocol)) return { responseStatus: null, error: "Webhook URL is invalid." };
+  if (!allowPrivate && isBlockedWebhookHost(url.hostname.replace(/^\[|\]$/g, ""))) {
+    return { responseStatus: null, error: "Webhook URL targets a private address." };
+  }
+
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  try {
+    const status = await sendWebhookRequest(
+      url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "macet-webhooks/1.0",
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(delivery.endpoint.secret, body)
+      },
+      body,
+      allowPrivate
+    );
+    const ok = status >= 200 && status < 300;
+    return { responseStatus: status, error: ok ? null : `Endpoint responded with HTTP ${status}.` };
+  } catch (error) {
+    return { responseStatus: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function deliverWebhook(delivery: WorkerWebhookDelivery) {
+  const startedAt = Date.now();
+  const { responseStatus, error } = await postDelivery(delivery);
+  const attempts = [
+    ...readAttempts(delivery.attempts),
+    {
+      attempt: delivery.attemptCount,
+      attemptedAt: new Date(startedAt).toISOString(),
+      responseStatus,
+      error,
+      durationMs: Date.now() - startedAt
+    }
+  ];
+
+  if (!error) {
+    await recordWebhookDeliveryAttempt(delivery.id, "DELIVERED", attempts, null);
+    console.log(`[webhooks] delivered ${delivery.event} ${delivery.id} (HTTP ${responseStatus})`);
+    return;
+  }
+
+  const maxAttempts = readPositive("WEBHOOK_MAX_ATTEMPTS", 6);
+  if (!delivery.endpoint.enabled || delivery.attemptCount >= maxAttempts) {
+    await recordWebhookDeliveryAttempt(delivery.id, "FAILED", attempts, null);
+    console.error(`[webhooks] giving up on ${delivery.event} ${delivery.id} after ${delivery.attemptCount} attempt(s): ${error}`);
+    return;
+  }
+
+  const nextAttemptAt = new Date(Date.now() + webhookRetryDelayMs(delivery.attemptCount));
+  await recordWebhookDeliveryAttempt(delivery.id, "PENDING", attempts, nextAttemptAt);
+  console.warn(`[webhooks] RETRY ${delivery.event} ${delivery.id} at ${nextAttemptAt.toISOString()}: ${error}`);
+}
+
+async function deliverDueWebhooks() {
+  const deliveries = await claimDueWebhookDeliveries(DELIVERY_BATCH_SIZE, DELIVERY_TIMEOUT_MS / 1000 + 60);
+  for (const delivery of deliveries) {
+    await deliverWebhook(delivery).catch((error) => console.error(`[webhooks] delivery ${delivery.id} failed`, error));
+  }
+}
+
+export function runWebhookDeliveryPass() {
+  if (!activePass) {
+    activePass = deliverDueWebhooks()
+      .catch((error) => console.error("[webhooks] delivery pass failed", error))
+      .finally(() => {
+        activePass = null;
+      });
+  }
+  return activePass;
+}